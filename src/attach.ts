@@ -0,0 +1,347 @@
+import * as fs from 'fs/promises';
+import * as vscode from 'vscode';
+
+import * as utils from './utils';
+import { getWorkspaceFolder, getWorkspacePgSrcFile } from './configuration';
+import { Log as logger } from './logger';
+
+/**
+ * Kind of postgres process.  Used to group processes in quick pick,
+ * so order of members is order of groups.
+ */
+export enum PgProcessKind {
+    Backend = 'Client backends',
+    ParallelWorker = 'Parallel workers',
+    Replication = 'Replication',
+    Autovacuum = 'Autovacuum',
+    BackgroundWorker = 'Background workers',
+    Auxiliary = 'Auxiliary processes',
+    Postmaster = 'Postmaster',
+}
+
+/**
+ * Information about process parsed from it's title (set_ps_display)
+ */
+export interface PgProcessTitle {
+    kind: PgProcessKind;
+    /* Short name of process, i.e. 'checkpointer' or 'postgres@regression' */
+    name: string;
+    /* Rest of title, i.e. activity of backend 'idle in transaction' */
+    details?: string;
+    /* 'cluster_name' GUC value if it is set */
+    cluster?: string;
+    /* PID of parallel group leader for parallel workers */
+    leader?: number;
+}
+
+interface PgProcess extends PgProcessTitle {
+    pid: number;
+    /* PID of postmaster for children */
+    ppid: number;
+    /* Path to executable, 'undefined' if we have no access */
+    exe?: string;
+}
+
+/*
+ * Titles of auxiliary processes.  Old versions also had ' process'
+ * suffix and some names differ, i.e. 'writer' instead of 'background writer'.
+ */
+const auxiliaryProcesses = [
+    'checkpointer',
+    'background writer',
+    'writer',
+    'walwriter',
+    'wal writer',
+    'autovacuum launcher',
+    'stats collector',
+    'archiver',
+    'startup',
+    'logical replication launcher',
+    'walsummarizer',
+    'slotsync worker',
+    'io worker',
+];
+
+/**
+ * Parse title of postgres process, i.e. 'postgres: user db [local] idle'.
+ *
+ * @param title Command line of process with spaces instead of '\0'
+ */
+export function parseProcessTitle(title: string): PgProcessTitle {
+    const prefix = 'postgres: ';
+    if (!title.startsWith(prefix)) {
+        /* Postmaster does not change it's title - this is command line */
+        return {
+            kind: PgProcessKind.Postmaster,
+            name: 'postmaster',
+            details: title,
+        };
+    }
+
+    let cluster: string | undefined;
+    title = title.substring(prefix.length).trim();
+    let match = /^(\S+): (.*)$/.exec(title);
+    if (match) {
+        cluster = match[1];
+        title = match[2];
+    }
+
+    title = title.replace(/ process\b/, '').replace(/\s+/g, ' ');
+
+    match = /^parallel worker for PID (\d+)$/.exec(title);
+    if (match) {
+        return {
+            kind: PgProcessKind.ParallelWorker,
+            name: 'parallel worker',
+            details: `leader ${match[1]}`,
+            cluster,
+            leader: Number(match[1]),
+        };
+    }
+
+    match = /^(autovacuum worker|walsender|walreceiver|wal receiver)(?: (.*))?$/.exec(title);
+    if (match) {
+        return {
+            kind: match[1] === 'autovacuum worker'
+                ? PgProcessKind.Autovacuum
+                : PgProcessKind.Replication,
+            name: match[1],
+            details: match[2],
+            cluster,
+        };
+    }
+
+    const aux = auxiliaryProcesses.find(p => title === p || title.startsWith(`${p} `));
+    if (aux) {
+        return {
+            kind: PgProcessKind.Auxiliary,
+            name: aux,
+            details: title.substring(aux.length).trim() || undefined,
+            cluster,
+        };
+    }
+
+    /* Client backend: 'user database host activity' */
+    match = /^(\S+) (\S+) (\[local\]|\S+\(\d+\))(?: (.*))?$/.exec(title);
+    if (match) {
+        return {
+            kind: PgProcessKind.Backend,
+            name: `${match[1]}@${match[2]}`,
+            details: `${match[3]} ${match[4] ?? ''}`.trim(),
+            cluster,
+        };
+    }
+
+    /* Background worker titles are arbitrary - it's bgw_type */
+    return {
+        kind: PgProcessKind.BackgroundWorker,
+        name: title,
+        cluster,
+    };
+}
+
+async function readProcess(pid: number): Promise<PgProcess | undefined> {
+    /* Format is 'pid (comm) state ppid ...' and comm can contain spaces */
+    const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf8');
+    const commStart = stat.indexOf('(');
+    const commEnd = stat.lastIndexOf(')');
+    if (commStart === -1 || commEnd === -1) {
+        return;
+    }
+
+    if (stat.substring(commStart + 1, commEnd) !== 'postgres') {
+        return;
+    }
+
+    const ppid = Number(stat.substring(commEnd + 1).trim().split(' ')[1]);
+
+    /* Title is written over argv, rest of area is padded with '\0' */
+    const cmdline = await fs.readFile(`/proc/${pid}/cmdline`, 'utf8');
+    const title = cmdline.split('\0').filter(s => s.length).join(' ');
+
+    let exe;
+    try {
+        exe = await fs.readlink(`/proc/${pid}/exe`);
+    } catch {
+        /* Process of other user */
+    }
+
+    return {
+        ...parseProcessTitle(title),
+        pid,
+        ppid,
+        exe,
+    };
+}
+
+async function findPgProcesses() {
+    const processes: PgProcess[] = [];
+    for (const entry of await fs.readdir('/proc')) {
+        if (!/^\d+$/.test(entry)) {
+            continue;
+        }
+
+        try {
+            const pgProcess = await readProcess(Number(entry));
+            if (pgProcess) {
+                processes.push(pgProcess);
+            }
+        } catch (err) {
+            /* Process could exit while we were reading it */
+            logger.debug('could not read process', entry, err);
+        }
+    }
+
+    return processes;
+}
+
+async function selectPgProcess(processes: PgProcess[]) {
+    /* With multiple clusters running, show which one process belongs to */
+    const postmasters = processes.filter(p => p.kind === PgProcessKind.Postmaster);
+    const getDescription = (p: PgProcess) => {
+        let description = p.details ?? '';
+        if (1 < postmasters.length && p.kind !== PgProcessKind.Postmaster) {
+            description += ` (${p.cluster ?? `postmaster ${p.ppid}`})`;
+        }
+        return description.trim();
+    };
+
+    type ProcessItem = vscode.QuickPickItem & { process?: PgProcess };
+    const items: ProcessItem[] = [];
+    for (const kind of Object.values(PgProcessKind)) {
+        const group = processes.filter(p => p.kind === kind)
+                               .sort((a, b) => a.pid - b.pid);
+        if (!group.length) {
+            continue;
+        }
+
+        items.push({label: kind, kind: vscode.QuickPickItemKind.Separator});
+        for (const p of group) {
+            items.push({
+                label: `${p.pid}: ${p.name}`,
+                description: getDescription(p),
+                process: p,
+            });
+        }
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Attach to backend',
+        placeHolder: 'Choose postgres process',
+        matchOnDescription: true,
+    });
+    return picked?.process;
+}
+
+/*
+ * Find 'postgres' binary to load debug symbols from.  Executable of the
+ * process itself is preferred: binary in the build directory could be
+ * rebuilt after process start or belong to other installation.  Build
+ * directory is searched only if executable is not accessible (process
+ * of other user) or was replaced after process start.
+ */
+async function findPostgresBinary(workspace: vscode.Uri, pgProcess: PgProcess) {
+    if (   pgProcess.exe
+        && !pgProcess.exe.endsWith(' (deleted)')
+        && await utils.fileExists(vscode.Uri.file(pgProcess.exe))) {
+        return pgProcess.exe;
+    }
+
+    const candidates = [
+        /* Make in source tree */
+        getWorkspacePgSrcFile(workspace, 'src', 'backend', 'postgres'),
+        /* Meson or VPATH build */
+        getWorkspacePgSrcFile(workspace, 'build', 'src', 'backend', 'postgres'),
+        /* Installation prefix used by development scripts */
+        getWorkspacePgSrcFile(workspace, 'build', 'bin', 'postgres'),
+    ];
+
+    for (const candidate of candidates) {
+        if (await utils.fileExists(candidate)) {
+            return candidate.fsPath;
+        }
+    }
+}
+
+function getDebuggerType() {
+    if (vscode.extensions.getExtension('ms-vscode.cpptools')) {
+        return 'cppdbg';
+    }
+
+    if (vscode.extensions.getExtension('vadimcn.vscode-lldb')) {
+        return 'lldb';
+    }
+}
+
+function createAttachConfiguration(type: string, pgProcess: PgProcess,
+                                   program: string): vscode.DebugConfiguration {
+    const name = `Attach to ${pgProcess.name} (${pgProcess.pid})`;
+    if (type === 'cppdbg') {
+        return {
+            name,
+            type,
+            request: 'attach',
+            program,
+            processId: pgProcess.pid.toString(),
+            MIMode: 'gdb',
+            setupCommands: [
+                {
+                    description: 'Enable pretty-printing for gdb',
+                    text: '-enable-pretty-printing',
+                    ignoreFailures: true,
+                },
+            ],
+            internalConsoleOptions: 'neverOpen',
+        };
+    }
+
+    return {
+        name,
+        type,
+        request: 'attach',
+        program,
+        pid: pgProcess.pid,
+        internalConsoleOptions: 'neverOpen',
+    };
+}
+
+export async function attachToBackendCommand() {
+    if (process.platform !== 'linux') {
+        vscode.window.showErrorMessage('Attach to backend is supported only on Linux');
+        return;
+    }
+
+    const type = getDebuggerType();
+    if (!type) {
+        vscode.window.showErrorMessage('C/C++ or CodeLLDB extension is required to attach to backend');
+        return;
+    }
+
+    const processes = await findPgProcesses();
+    if (!processes.length) {
+        vscode.window.showInformationMessage('No running postgres processes found');
+        return;
+    }
+
+    const pgProcess = await selectPgProcess(processes);
+    if (!pgProcess) {
+        return;
+    }
+
+    /* In multi-root workspace prefer folder with running executable */
+    const workspace = getWorkspaceFolder(
+        pgProcess.exe ? vscode.Uri.file(pgProcess.exe) : undefined);
+    const program = await findPostgresBinary(workspace, pgProcess);
+    if (!program) {
+        vscode.window.showErrorMessage(
+            `Could not find postgres executable for process ${pgProcess.pid}`);
+        return;
+    }
+
+    const configuration = createAttachConfiguration(type, pgProcess, program);
+    logger.info('attaching to', pgProcess.pid, 'using', program);
+    const folder = vscode.workspace.getWorkspaceFolder(workspace);
+    if (!await vscode.debug.startDebugging(folder, configuration)) {
+        vscode.window.showErrorMessage(`Could not attach to process ${pgProcess.pid}`);
+    }
+}
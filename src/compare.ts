@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+
+import * as vars from './variables';
+import { DebuggerNotAvailableError, EvaluationError } from './debugger';
+import { ExtensionId } from './configuration';
+import { Log as logger } from './logger';
+
+/* How deep we walk the tree of variable */
+const maxCompareDepth = 8;
+
+/*
+ * Context key used to enable "Compare with selected" command
+ */
+const hasCompareSelectionContext = `${ExtensionId}:hasCompareSelection`;
+
+/**
+ * Copy of variable tree taken at the moment of command invocation.
+ * We can not store Variable itself, because after step it's values
+ * become outdated.
+ */
+export interface NodeSnapshot {
+    name: string;
+    /* Real NodeTag for 'Node *' variables */
+    tag?: string;
+    /* Description shown in variables view */
+    value: string;
+    /* Variable can be expanded, but we did not do this (depth limit, cycle) */
+    truncated?: boolean;
+    children?: NodeSnapshot[];
+}
+
+async function takeSnapshot(variable: vars.Variable) {
+    return await vars.walkVariableTree<NodeSnapshot>(
+        variable, maxCompareDepth, (v, item, children, truncated) => ({
+            name: v.name,
+            tag: v instanceof vars.NodeVariable ? v.realNodeTag : undefined,
+            value: typeof item.description === 'string' ? item.description : v.value,
+            truncated: truncated || undefined,
+            children,
+        }));
+}
+
+/**
+ * Compare 2 snapshots and leave only members which differ.
+ *
+ * @returns Pair of pruned snapshots or undefined if they are equal
+ */
+export function diffSnapshots(left: NodeSnapshot, right: NodeSnapshot): [NodeSnapshot, NodeSnapshot] | undefined {
+    if (left.tag !== right.tag) {
+        return [left, right];
+    }
+
+    if (!left.children || !right.children) {
+        if (left.children || right.children) {
+            return [left, right];
+        }
+
+        /*
+         * Pointer values of different trees differ anyway, so if we
+         * did not expand them, then assume they are equal.
+         */
+        if (left.truncated && right.truncated) {
+            return;
+        }
+
+        return left.value === right.value ? undefined : [left, right];
+    }
+
+    const leftChildren = [];
+    const rightChildren = [];
+    const rightByName = new Map(right.children.map(c => [c.name, c]));
+    for (const l of left.children) {
+        const r = rightByName.get(l.name);
+        if (!r) {
+            leftChildren.push(l);
+            continue;
+        }
+
+        rightByName.delete(l.name);
+        const diff = diffSnapshots(l, r);
+        if (diff) {
+            leftChildren.push(diff[0]);
+            rightChildren.push(diff[1]);
+        }
+    }
+    rightChildren.push(...rightByName.values());
+
+    if (!(leftChildren.length || rightChildren.length)) {
+        return;
+    }
+
+    return [
+        {...left, children: leftChildren},
+        {...right, children: rightChildren},
+    ];
+}
+
+/**
+ * Check that some members of snapshot were not read (depth limit or
+ * already visited Node), so they were not compared.
+ */
+export function isSnapshotTruncated(snapshot: NodeSnapshot): boolean {
+    return !!snapshot.truncated || !!snapshot.children?.some(isSnapshotTruncated);
+}
+
+/*
+ * Render snapshot in format similar to 'nodeToString' output
+ */
+function renderSnapshot(snapshot: NodeSnapshot, indent: string,
+                        prefix: string, lines: string[]) {
+    if (!snapshot.children) {
+        lines.push(`${indent}${prefix}${snapshot.value}`);
+        return;
+    }
+
+    lines.push(`${indent}${prefix}{${snapshot.tag ?? ''}`);
+    for (const child of snapshot.children) {
+        renderSnapshot(child, indent + '   ', `:${child.name} `, lines);
+    }
+    lines.push(`${indent}}`);
+}
+
+async function getSnapshot(variable: vars.NodeVariable) {
+    return await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Reading ${variable.name}`,
+    }, async () => await takeSnapshot(variable));
+}
+
+/* Variable selected using "Select for compare" */
+let selected: NodeSnapshot | undefined;
+
+function getNodeVariableArg(args: unknown[]) {
+    if (!args.length) {
+        return;
+    }
+
+    const variable = args[0];
+    if (!(variable instanceof vars.NodeVariable)) {
+        vscode.window.showWarningMessage('Selected variable is not a Node');
+        return;
+    }
+
+    return variable;
+}
+
+async function trySnapshot(variable: vars.NodeVariable) {
+    try {
+        return await getSnapshot(variable);
+    } catch (err) {
+        if (err instanceof DebuggerNotAvailableError) {
+            return;
+        }
+
+        if (!(err instanceof EvaluationError)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not read variable', variable.name);
+        vscode.window.showErrorMessage(`Could not read variable ${variable.name}`);
+    }
+}
+
+export async function selectForCompareCommand(pgvars: vars.PgVariablesViewProvider,
+                                              ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    const variable = getNodeVariableArg(args);
+    if (!variable) {
+        return;
+    }
+
+    const snapshot = await trySnapshot(variable);
+    if (!snapshot) {
+        return;
+    }
+
+    selected = snapshot;
+    await vscode.commands.executeCommand('setContext', hasCompareSelectionContext, true);
+}
+
+export async function compareWithSelectedCommand(pgvars: vars.PgVariablesViewProvider,
+                                                 ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    if (!selected) {
+        vscode.window.showWarningMessage('Select variable for compare first');
+        return;
+    }
+
+    const variable = getNodeVariableArg(args);
+    if (!variable) {
+        return;
+    }
+
+    const snapshot = await trySnapshot(variable);
+    if (!snapshot) {
+        return;
+    }
+
+    const diff = diffSnapshots(selected, snapshot);
+    if (!diff) {
+        let message = `${selected.name} and ${snapshot.name} are equal`;
+        if (isSnapshotTruncated(selected) || isSnapshotTruncated(snapshot)) {
+            message += ` (members deeper than ${maxCompareDepth} levels and repeated Nodes were not compared)`;
+        }
+        vscode.window.showInformationMessage(message);
+        return;
+    }
+
+    const openDocument = async (s: NodeSnapshot) => {
+        const lines: string[] = [];
+        renderSnapshot(s, '', '', lines);
+        return await vscode.workspace.openTextDocument({
+            content: lines.join('\n'),
+        });
+    };
+
+    const [left, right] = diff;
+    const leftDoc = await openDocument(left);
+    const rightDoc = await openDocument(right);
+    await vscode.commands.executeCommand('vscode.diff', leftDoc.uri, rightDoc.uri,
+                                         `${selected.name} ↔ ${snapshot.name}`);
+}
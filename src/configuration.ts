@@ -22,6 +22,8 @@ export interface VariablesConfiguration {
     enums?: vars.BitmaskMemberInfo[];
     /* Extra NodeTags */
     nodetags?: string[];
+    /* Extra globals for 'Globals' group */
+    globals?: vars.GlobalVariableInfo[];
 }
 
 export interface FormatterConfiguration {
@@ -38,6 +40,7 @@ interface ConfigurationFile {
     enums: vars.BitmaskMemberInfo[] | undefined;
     nodetags: string[] | undefined;
     typedefs: string[] | undefined;
+    globals: vars.GlobalVariableInfo[] | undefined;
 }
 
 function isStringTuple(o: unknown): o is [string, string] {
@@ -67,7 +70,7 @@ function normalizeFuncName(name: string) {
     return name;
 };
 
-function parseConfiguration(contents: unknown): ConfigurationFile | undefined {
+export function parseConfiguration(contents: unknown): ConfigurationFile | undefined {
     const parseArrayMember = (obj: unknown): vars.ArrayVariableInfo | undefined => {
         /* 
          * {
@@ -521,6 +524,42 @@ function parseConfiguration(contents: unknown): ConfigurationFile | undefined {
         return result;
     };
 
+    const parseGlobals = (obj: unknown): vars.GlobalVariableInfo[] | undefined => {
+        if (!Array.isArray(obj)) {
+            return;
+        }
+
+        const result: vars.GlobalVariableInfo[] = [];
+        for (const o of obj) {
+            /* Either name of variable or object with name and expression */
+            if (typeof o === 'string') {
+                const name = o.trim();
+                if (name.length) {
+                    result.push({name, expression: name});
+                }
+                continue;
+            }
+
+            if (!(typeof o === 'object' && o)) {
+                continue;
+            }
+
+            const name = o.name;
+            const expression = o.expression ?? name;
+            if (!(typeof name === 'string' && name.length)) {
+                continue;
+            }
+
+            if (!(typeof expression === 'string' && expression.length)) {
+                continue;
+            }
+
+            result.push({name, expression});
+        }
+
+        return result;
+    };
+
     const parseTypedefs = (obj: unknown): string[] | undefined => {
         if (!obj) {
             return;
@@ -574,6 +613,9 @@ function parseConfiguration(contents: unknown): ConfigurationFile | undefined {
     const typedefs = 'typedefs' in contents 
         ? parseTypedefs(contents.typedefs)
         : undefined;
+    const globals = 'globals' in contents
+        ? parseGlobals(contents.globals)
+        : undefined;
 
     return {
         arrays,
@@ -584,6 +626,7 @@ function parseConfiguration(contents: unknown): ConfigurationFile | undefined {
         enums,
         nodetags,
         typedefs,
+        globals,
     };
 }
 
@@ -650,34 +693,53 @@ async function writeConfigFile(config: ConfigurationFile, file: vscode.Uri) {
 }
 
 /**
- * Get vscode.Uri of currently opened workspace.
+ * Choose workspace folder among candidates ordered by priority.
+ * Missing candidates are skipped, if none found - first folder is used.
  * 
+ * @param folders Folders opened in workspace
+ * @param candidates Folders which may be chosen, i.e. folder of debug session
+ */
+export function selectWorkspaceFolder<T>(folders: readonly T[],
+                                         candidates: (T | undefined)[]) {
+    if (folders.length === 1) {
+        return folders[0];
+    }
+
+    return candidates.find(c => c !== undefined) ?? folders[0];
+}
+
+/**
+ * Get vscode.Uri of workspace folder, which sources we are working with.
+ * In multi-root workspace folder is chosen in this order:
+ * 
+ * 1. Folder containing passed resource (i.e. formatted document)
+ * 2. Folder of active debug session
+ * 3. Folder of active text editor
+ * 4. First folder in workspace
+ * 
+ * @param resource Uri of file, which folder we are interested in
  * @throws { WorkspaceNotOpenedError } if no workspaces opened
  */
-export function getWorkspaceFolder() {
+export function getWorkspaceFolder(resource?: vscode.Uri) {
     const folders = vscode.workspace.workspaceFolders;
     if (!folders?.length) {
         throw new WorkspaceNotOpenedError();
     }
-    
-    /* 
-     * VS Code can be opened in multi-root workspace, that's because
-     * 'workspaceFolders' is an array.
-     * In order not to complicate things a lot I assume 99.999% of time
-     * developer will be working with single-rooted workspace, so take
-     * first element.
-     * 
-     * I can add support for multi-rooted workspace, but I don't know
-     * if there will be any profit. Moreover, if we have multiple
-     * workspaces and each of them have it's own copy of configuration
-     * file, then which one we should use?
-     * This question can be asked in many places, i.e. when we are creating
-     * new config file in 'Open or create configuration file' command.
-     */
-    return folders[0].uri;
+
+    const getFolder = (uri: vscode.Uri | undefined) =>
+        uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+    const folder = selectWorkspaceFolder(folders, [
+        getFolder(resource),
+        vscode.debug.activeDebugSession?.workspaceFolder,
+        getFolder(vscode.window.activeTextEditor?.document.uri),
+    ]);
+    return folder.uri;
 }
 
 export class Configuration {
+    /* Workspace folder, which configuration file is tracked */
+    constructor(readonly folder: vscode.Uri) { }
+
     /* 
      * Pair of configuration file contents and path to that file
      */
@@ -706,8 +768,7 @@ export class Configuration {
     }
     
     async refreshConfig() {
-        const workspace = getWorkspaceFolder();
-        const path = getExtensionConfigFile(workspace);
+        const path = getExtensionConfigFile(this.folder);
 
         let config;
         if (await utils.fileExists(path)) {
@@ -732,8 +793,7 @@ export class Configuration {
     }
     
     async mutate(mutator: (config: ConfigurationFile) => void) {
-        const workspace = getWorkspaceFolder();
-        const file = getExtensionConfigFile(workspace);
+        const file = getExtensionConfigFile(this.folder);
         const configFile = await this.getConfigRefresh() ?? createEmptyConfigurationFile();
         mutator(configFile);
 
@@ -742,6 +802,68 @@ export class Configuration {
     }
 }
 
+/**
+ * Configurations of all workspace folders.  Each folder has it's own
+ * configuration file, so they are tracked separately.
+ */
+export class ConfigurationRegistry implements vscode.Disposable {
+    private configs = new Map<string, [Configuration, vscode.FileSystemWatcher]>();
+
+    /**
+     * Get configuration for workspace folder.
+     * 
+     * @param folder Workspace folder, by default - folder of current
+     *               debug session or active document
+     * @throws { WorkspaceNotOpenedError } if no workspaces opened
+     */
+    get(folder?: vscode.Uri) {
+        folder ??= getWorkspaceFolder();
+        const entry = this.configs.get(folder.toString());
+        if (entry) {
+            return entry[0];
+        }
+
+        return this.add(folder);
+    }
+
+    add(folder: vscode.Uri) {
+        const existing = this.configs.get(folder.toString());
+        if (existing) {
+            return existing[0];
+        }
+
+        const config = new Configuration(folder);
+
+        /* Mark configuration dirty when user changes it - no eager parsing */
+        const pattern = new vscode.RelativePattern(
+            folder, getExtensionConfigFile());
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            pattern, false, false, false);
+        const markDirty = () => config.markDirty();
+        watcher.onDidChange(markDirty);
+        watcher.onDidCreate(markDirty);
+        watcher.onDidDelete(markDirty);
+
+        this.configs.set(folder.toString(), [config, watcher]);
+        return config;
+    }
+
+    remove(folder: vscode.Uri) {
+        const entry = this.configs.get(folder.toString());
+        if (!entry) {
+            return;
+        }
+
+        entry[1].dispose();
+        this.configs.delete(folder.toString());
+    }
+
+    dispose() {
+        this.configs.forEach(([, watcher]) => watcher.dispose());
+        this.configs.clear();
+    }
+}
+
 function createEmptyConfigurationFile(): ConfigurationFile {
     return {
         customListTypes: undefined,
@@ -752,6 +874,7 @@ function createEmptyConfigurationFile(): ConfigurationFile {
         enums: undefined,
         nodetags: undefined,
         typedefs: undefined,
+        globals: undefined,
     };
 }
 
@@ -776,6 +899,9 @@ export class VsCodeSettings {
         PgbsdindentPath: 'pg_bsd_indentPath',
         SrcPath: 'srcPath',
         MaxContainerLength: 'maxContainerLength',
+        ExportMaxDepth: 'exportMaxDepth',
+        StackFramesCount: 'stackFramesCount',
+        CheckNodeMemoryContext: 'checkNodeMemoryContext',
     };
     
     static logLevel: string | undefined;
@@ -788,15 +914,20 @@ export class VsCodeSettings {
         return this.customNodeTagFiles ??= this.getConfig<string[]>(this.ConfigSections.NodeTagFiles);
     };
 
-    static customPgBsdIndentPath: string | undefined;
-    static getCustomPgbsdindentPath() {
-        return this.customPgBsdIndentPath ??=
-            this.getConfig<string>(this.ConfigSections.PgbsdindentPath);
+    /* 
+     * Settings below can differ between workspace folders,
+     * so they are cached for each folder.
+     */
+    static customPgBsdIndentPath = new Map<string, string | undefined>();
+    static getCustomPgbsdindentPath(folder: vscode.Uri) {
+        return this.getFolderConfig(this.customPgBsdIndentPath, folder,
+                                    this.ConfigSections.PgbsdindentPath);
     }
 
-    static srcPath: string | undefined;
-    static getSrcPath() {
-        return this.srcPath ??= this.getConfig<string>(this.ConfigSections.SrcPath);
+    static srcPath = new Map<string, string | undefined>();
+    static getSrcPath(folder: vscode.Uri) {
+        return this.getFolderConfig(this.srcPath, folder,
+                                    this.ConfigSections.SrcPath);
     }
 
     static maxContainerLength: number | undefined;
@@ -805,11 +936,41 @@ export class VsCodeSettings {
         return this.maxContainerLength ??= (this.getConfig<number>(this.ConfigSections.MaxContainerLength) ?? 128);
     }
 
-    static getConfig<T>(section: string) {
+    static exportMaxDepth: number | undefined;
+    static getExportMaxDepth() {
+        /* 5 - default value specified in package.json */
+        return this.exportMaxDepth ??= (this.getConfig<number>(this.ConfigSections.ExportMaxDepth) ?? 5);
+    }
+
+    static stackFramesCount: number | undefined;
+    static getStackFramesCount() {
+        /* 0 - default value specified in package.json */
+        return this.stackFramesCount ??= (this.getConfig<number>(this.ConfigSections.StackFramesCount) ?? 0);
+    }
+
+    static checkNodeMemoryContext: boolean | undefined;
+    static getCheckNodeMemoryContext() {
+        /* false - default value specified in package.json */
+        return this.checkNodeMemoryContext ??= (this.getConfig<boolean>(this.ConfigSections.CheckNodeMemoryContext) ?? false);
+    }
+
+    static getConfig<T>(section: string, scope?: vscode.Uri) {
         const topLevelSection = this.ConfigSections.TopLevelSection;
-        const config = vscode.workspace.getConfiguration(topLevelSection);
+        const config = vscode.workspace.getConfiguration(topLevelSection, scope);
         return config.get<T>(section);
     };
+
+    private static getFolderConfig(cache: Map<string, string | undefined>,
+                                   folder: vscode.Uri, section: string) {
+        const key = folder.toString();
+        if (cache.has(key)) {
+            return cache.get(key);
+        }
+
+        const value = this.getConfig<string>(section, folder);
+        cache.set(key, value);
+        return value;
+    }
     
     static getFullConfigSection(section: string) {
         return `${this.ConfigSections.TopLevelSection}.${section}`;
@@ -817,10 +978,13 @@ export class VsCodeSettings {
     
     static refreshConfiguration() {
         this.logLevel = this.getConfig<string>(this.ConfigSections.LogLevel);
-        this.srcPath = this.getConfig<string>(this.ConfigSections.SrcPath);
-        this.customPgBsdIndentPath = this.getConfig<string>(this.ConfigSections.PgbsdindentPath);
+        this.srcPath.clear();
+        this.customPgBsdIndentPath.clear();
         this.customNodeTagFiles = this.getConfig<string[]>(this.ConfigSections.NodeTagFiles);
         this.maxContainerLength = this.getConfig<number>(this.ConfigSections.MaxContainerLength);
+        this.exportMaxDepth = this.getConfig<number>(this.ConfigSections.ExportMaxDepth);
+        this.stackFramesCount = this.getConfig<number>(this.ConfigSections.StackFramesCount);
+        this.checkNodeMemoryContext = this.getConfig<boolean>(this.ConfigSections.CheckNodeMemoryContext);
     }
 }
 
@@ -835,39 +999,19 @@ function setupVsCodeSettings(context: vscode.ExtensionContext) {
 }
 
 export function setupConfiguration(context: vscode.ExtensionContext) {
-    const config = new Configuration();
-    
-    /* Mark configuration dirty when user changes it - no eager parsing */
-    const registerFolderWatcher = (folder: vscode.Uri) => {
-        const pattern = new vscode.RelativePattern(
-            folder, getExtensionConfigFile());
-        const watcher = vscode.workspace.createFileSystemWatcher(
-            pattern, false, false, false);
-        context.subscriptions.push(watcher);
-        const markDirty = () => config.markDirty();
-        watcher.onDidChange(markDirty, undefined, context.subscriptions);
-        watcher.onDidCreate(markDirty, undefined, context.subscriptions);
-        watcher.onDidDelete(markDirty, undefined, context.subscriptions);  
-    };
+    const registry = new ConfigurationRegistry();
+    context.subscriptions.push(registry);
 
-    try {
-        const folder = getWorkspaceFolder();
-        registerFolderWatcher(folder);
-    } catch (err) {
-        if (err instanceof WorkspaceNotOpenedError) {
-            const d = vscode.workspace.onDidChangeWorkspaceFolders(e => {
-                d.dispose();
-                e.added.forEach(f => registerFolderWatcher(f.uri));
-            }, undefined, context.subscriptions);   
-        } else {
-            logger.error(err, 'unknown error during registering config file fs watcher');
-        }
-    }
+    vscode.workspace.workspaceFolders?.forEach(f => registry.add(f.uri));
+    vscode.workspace.onDidChangeWorkspaceFolders(e => {
+        e.removed.forEach(f => registry.remove(f.uri));
+        e.added.forEach(f => registry.add(f.uri));
+    }, undefined, context.subscriptions);
 
     /* VS Code configuration changes quiet rarely, so it's also cached */
     setupVsCodeSettings(context);
 
-    return config;
+    return registry;
 }
 
 
@@ -879,10 +1023,48 @@ export class Commands {
     static FormatterDiffView = `${ExtensionId}.formatterShowDiff`;
     static RefreshVariables = `${ExtensionId}.refreshPostgresVariablesView`;
     static BootstrapExtension = `${ExtensionId}.bootstrapExtension`;
+    static AttachToBackend = `${ExtensionId}.attachToBackend`;
     static AddToWatchView = `${ExtensionId}.addVariableToWatch`;
+    static AddPgWatchExpression = `${ExtensionId}.addPgWatchExpression`;
+    static RemovePgWatchExpression = `${ExtensionId}.removePgWatchExpression`;
+    static SetVariablesFilter = `${ExtensionId}.setVariablesFilter`;
+    static ClearVariablesFilter = `${ExtensionId}.clearVariablesFilter`;
+    static FindNodeOfType = `${ExtensionId}.findNodeOfType`;
+    static LoadMoreElements = `${ExtensionId}.loadMoreElements`;
+    static ShowElementsRange = `${ExtensionId}.showElementsRange`;
     static GetVariables = `${ExtensionId}.getVariables`;
     static GetTreeViewProvider = `${ExtensionId}.getTreeViewProvider`;
     static FindCustomTypedefsLists = `${ExtensionId}.formatterFindTypedefsList`;
+    static ShowPlanTree = `${ExtensionId}.showPlanTree`;
+    static ShowRelOptInfoPaths = `${ExtensionId}.showRelOptInfoPaths`;
+    static ShowQueryAsSql = `${ExtensionId}.showQueryAsSql`;
+    static FindMemoryContext = `${ExtensionId}.findMemoryContext`;
+    static SelectForCompare = `${ExtensionId}.selectForCompare`;
+    static CompareWithSelected = `${ExtensionId}.compareWithSelected`;
+    static ExportToJson = `${ExtensionId}.exportToJson`;
+    static ExportToDot = `${ExtensionId}.exportToDot`;
+    static OpenVisualizer = `${ExtensionId}.openVisualizer`;
+}
+
+/*
+ * Folder which configuration command is applied to.  Commands are run
+ * from command palette, so in multi-root workspace folder is not guessed
+ * using active editor - user chooses it.
+ */
+async function pickConfigurationFolder() {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders?.length) {
+        throw new WorkspaceNotOpenedError();
+    }
+
+    if (folders.length === 1) {
+        return folders[0].uri;
+    }
+
+    const folder = await vscode.window.showWorkspaceFolderPick({
+        placeHolder: 'Choose workspace folder with configuration file',
+    });
+    return folder?.uri;
 }
 
 export async function openConfigFileCommand() {
@@ -890,7 +1072,11 @@ export async function openConfigFileCommand() {
      * No need to pass Configuration here and mark it dirty,
      * because we will be notified of changes by fs watcher.
      */
-    const folder = getWorkspaceFolder();
+    const folder = await pickConfigurationFolder();
+    if (!folder) {
+        return;
+    }
+
     const configFilePath = getExtensionConfigFile(folder);
     /* Create default configuration file if not exists */
     if (!await utils.fileExists(configFilePath)) {
@@ -908,8 +1094,13 @@ export async function openConfigFileCommand() {
 };
 
 
-export async function refreshConfigCommand(config: Configuration) {
-    await config.refreshConfig();
+export async function refreshConfigCommand(config: ConfigurationRegistry) {
+    const folder = await pickConfigurationFolder();
+    if (!folder) {
+        return;
+    }
+
+    await config.get(folder).refreshConfig();
 };
 
 function version(ver: string): number {
@@ -990,7 +1181,7 @@ export class Features {
 }
 
 export function getWorkspacePgSrcFile(workspace: vscode.Uri, ...paths: string[]) {
-    const customDir = VsCodeSettings.getSrcPath();
+    const customDir = VsCodeSettings.getSrcPath(workspace);
     if (customDir) {
         return utils.joinPath(workspace, customDir, ...paths);
     }
@@ -1,4 +1,5 @@
 import { ArrayVariableInfo, BitmaskMemberInfo,
+         GlobalVariableInfo,
          HtabEntryInfo,
          ListPtrSpecialMemberInfo,
          SimplehashEntryInfo,
@@ -633,6 +634,107 @@ export function getDisplayedExprs(): string[] {
     ];
 };
 
+/**
+ * Returns pairs of Plan node tags and their names as shown in EXPLAIN.
+ * Names are taken from src/backend/commands/explain.c:ExplainNode.
+ *
+ * NOTE: for join nodes only first part of name is given, because
+ *       the rest depends on join type, i.e. "Hash" -> "Hash Left Join".
+ */
+export function getDisplayedPlans(): [string, string][] {
+    return [
+        ['Result', 'Result'],
+        ['ProjectSet', 'ProjectSet'],
+        ['ModifyTable', 'ModifyTable'],
+        ['Append', 'Append'],
+        ['MergeAppend', 'Merge Append'],
+        ['RecursiveUnion', 'Recursive Union'],
+        ['BitmapAnd', 'BitmapAnd'],
+        ['BitmapOr', 'BitmapOr'],
+        ['NestLoop', 'Nested Loop'],
+        ['MergeJoin', 'Merge'],
+        ['HashJoin', 'Hash'],
+        ['SeqScan', 'Seq Scan'],
+        ['SampleScan', 'Sample Scan'],
+        ['Gather', 'Gather'],
+        ['GatherMerge', 'Gather Merge'],
+        ['IndexScan', 'Index Scan'],
+        ['IndexOnlyScan', 'Index Only Scan'],
+        ['BitmapIndexScan', 'Bitmap Index Scan'],
+        ['BitmapHeapScan', 'Bitmap Heap Scan'],
+        ['TidScan', 'Tid Scan'],
+        ['TidRangeScan', 'Tid Range Scan'],
+        ['SubqueryScan', 'Subquery Scan'],
+        ['FunctionScan', 'Function Scan'],
+        ['TableFuncScan', 'Table Function Scan'],
+        ['ValuesScan', 'Values Scan'],
+        ['CteScan', 'CTE Scan'],
+        ['NamedTuplestoreScan', 'Named Tuplestore Scan'],
+        ['WorkTableScan', 'WorkTable Scan'],
+        ['ForeignScan', 'Foreign Scan'],
+        ['CustomScan', 'Custom Scan'],
+        ['Material', 'Materialize'],
+        ['Memoize', 'Memoize'],
+        ['ResultCache', 'Result Cache'],
+        ['Sort', 'Sort'],
+        ['IncrementalSort', 'Incremental Sort'],
+        ['Group', 'Group'],
+        ['Agg', 'Aggregate'],
+        ['WindowAgg', 'WindowAgg'],
+        ['Unique', 'Unique'],
+        ['SetOp', 'SetOp'],
+        ['LockRows', 'LockRows'],
+        ['Limit', 'Limit'],
+        ['Hash', 'Hash'],
+    ];
+}
+
+/**
+ * Returns list of Path nodes, for which summary of path tree is displayed.
+ */
+export function getDisplayedPaths(): string[] {
+    return [
+        'AggPath',
+        'AppendPath',
+        'BitmapAndPath',
+        'BitmapHeapPath',
+        'BitmapOrPath',
+        'CustomPath',
+        'ForeignPath',
+        'GatherMergePath',
+        'GatherPath',
+        'GroupPath',
+        'GroupResultPath',
+        'GroupingSetsPath',
+        'HashPath',
+        'IncrementalSortPath',
+        'IndexPath',
+        'LimitPath',
+        'LockRowsPath',
+        'MaterialPath',
+        'MemoizePath',
+        'MergeAppendPath',
+        'MergePath',
+        'MinMaxAggPath',
+        'ModifyTablePath',
+        'NestPath',
+        'Path',
+        'ProjectSetPath',
+        'ProjectionPath',
+        'RecursiveUnionPath',
+        'ResultCachePath',
+        'ResultPath',
+        'SetOpPath',
+        'SortPath',
+        'SubqueryScanPath',
+        'TidPath',
+        'TidRangePath',
+        'UniquePath',
+        'UpperUniquePath',
+        'WindowAggPath',
+    ];
+}
+
 export function getKnownCustomListPtrs(): ListPtrSpecialMemberInfo[] {
     const _ = (type: string, parent: string, member: string): ListPtrSpecialMemberInfo => ({
         type: type + ' *',
@@ -3972,6 +4074,42 @@ export function getWellKnownFlagsMembers(pgversion: number): BitmaskMemberInfo[]
     return members;
 }
 
+/* 
+ * Backend globals shown in 'Globals' group: [version, name, expression].
+ * Expression is required for globals, which are not variables itself.
+ */
+const globals = new Lazy((): [VersionInterval, string, string?][] => {
+    const unbounded = VersionInterval.Unbounded;
+    return [
+        [unbounded, 'MyProc'],
+        [unbounded, 'CurrentMemoryContext'],
+        [unbounded, 'ActiveSnapshot'],
+        [unbounded, 'debug_query_string'],
+        [unbounded, 'CurrentResourceOwner'],
+        [unbounded, 'MyDatabaseId'],
+        [unbounded, 'InterruptPending'],
+        /* Static variable in xact.c, top level state is stored in separate struct */
+        [unbounded, 'TopTransactionState', '&TopTransactionStateData'],
+        [unbounded, 'CurrentTransactionState'],
+        /* Replaced with ProcNumber in 17 */
+        [new VersionInterval(VersionInterval.Min, 17_00_00), 'MyBackendId'],
+        [new VersionInterval(17_00_00, VersionInterval.Max), 'MyProcNumber'],
+        [new VersionInterval(13_00_00, VersionInterval.Max), 'MyBackendType'],
+    ];
+});
+
+/**
+ * Get backend globals available in given PG version.
+ * If version is unknown, only globals existing in all versions returned.
+ */
+export function getWellKnownGlobals(pgversion: number | undefined): GlobalVariableInfo[] {
+    return globals.get()
+        .filter(([ver]) => pgversion === undefined
+            ? ver === VersionInterval.Unbounded
+            : ver.satisfies(pgversion))
+        .map(([, name, expression]) => ({name, expression: expression ?? name}));
+}
+
 const contribs = new Lazy(() => new Set<string>([
     'adminpack',
     'amcheck',
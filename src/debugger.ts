@@ -309,6 +309,8 @@ export function pointerIsNull(pointer: string) {
 export enum DebuggerType {
     CppDbg,
     CodeLLDB,
+    GdbDap,
+    LldbDap,
 }
 
 export interface IDebuggerFacade {
@@ -342,6 +344,8 @@ export interface IDebuggerFacade {
     getArrayVariables: (expression: string, length: number,
         frameId: number | undefined) => Promise<dap.DebugVariable[]>;
     getCurrentFunctionName: () => Promise<string | undefined>;
+    getStackFrames: (levels?: number) => Promise<dap.StackFrame[]>;
+    maybeCalcFrameIndex: (frameId: number) => number | undefined;
 
     /* Utility functions with per debugger specifics */
     /**
@@ -445,10 +449,39 @@ export interface IDebuggerFacade {
      */
     formatEnumValue: (name: string, value: string) => string;
 }
+
+/**
+ * Get name of function of stack frame without arguments and
+ * shared library prefix.
+ */
+export function getFrameFunctionName(frame: dap.StackFrame) {
+    /* cppdbg additionally formats function name: lib.so!func(args) */
+
+    /* Remove arguments from function name */
+    let name = frame.name;
+    const argsIdx = name.indexOf('(');
+    if (argsIdx !== -1) {
+        name = name.substring(0, argsIdx);
+    }
+
+    /* Remove shlib prefix */
+    const shlibPrefix = name.indexOf('!');
+    if (shlibPrefix !== -1) {
+        name = name.substring(shlibPrefix + 1);
+    }
+
+    return name;
+}
 export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.Disposable {
     registrations: vscode.Disposable[];
 
     isInDebug: boolean;
+
+    /*
+     * Debug session this facade works with.  There can be multiple
+     * concurrent sessions (i.e. leader backend and parallel worker),
+     * so each session has it's own facade.
+     */
     session: vscode.DebugSession | undefined;
 
     /**
@@ -458,14 +491,14 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
      */
     threadId?: number;
 
-    constructor() {
+    constructor(session: vscode.DebugSession) {
         this.registrations = [
             /* Update current debug session data */
-            vscode.debug.onDidStartDebugSession(s => {
-                this.session = s;
-                this.isInDebug = true;
-            }),
-            vscode.debug.onDidTerminateDebugSession(_ => {
+            vscode.debug.onDidTerminateDebugSession(s => {
+                if (s.id !== this.session?.id) {
+                    return;
+                }
+
                 this.session = undefined;
                 this.isInDebug = false;
                 this.threadId = undefined;
@@ -473,6 +506,10 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
 
             /* Invalidate function names cache */
             vscode.debug.onDidReceiveDebugSessionCustomEvent(e => {
+                if (e.session.id !== this.session?.id) {
+                    return;
+                }
+
                 switch (e.event) {
                     case 'stopped':
                         this.threadId = undefined;
@@ -483,8 +520,8 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
             }),
         ];
 
-        this.session = vscode.debug.activeDebugSession;
-        this.isInDebug = vscode.debug.activeDebugSession !== undefined;
+        this.session = session;
+        this.isInDebug = true;
     }
 
     private async getThreadId() {
@@ -524,6 +561,27 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
             throw new DebuggerNotAvailableError(error.message);
         }
     }
+
+    /**
+     * Convert failed DAP response to EvaluationError.
+     * 
+     * Adapters that report failed evaluation as failed response (not as
+     * error in response body) make VS Code rethrow it as plain Error with
+     * debugger message.  Other errors (i.e. TypeError or our own) must
+     * not be hidden, so they are left as is.
+     */
+    protected throwFailedResponseAsEvaluationError(error: unknown) {
+        if (!(error instanceof Error)) {
+            return;
+        }
+
+        if (   Object.getPrototypeOf(error) !== Error.prototype
+            || !error.message) {
+            return;
+        }
+
+        throw new EvaluationError(error.message);
+    }
     
     async evaluate(expression: string, frameId: number | undefined, context?: string) {
         try {
@@ -609,7 +667,14 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
 
     getCurrentFrameId = async () => {
         /* debugFocus API */
-        return (vscode.debug.activeStackItem as vscode.DebugStackFrame | undefined)?.frameId;
+        const item = vscode.debug.activeStackItem as vscode.DebugStackFrame | undefined;
+
+        /* Selected stack frame can belong to other debug session */
+        if (item?.session.id !== this.session?.id) {
+            return;
+        }
+
+        return item?.frameId;
     };
 
     switchToEventBasedRefresh() {
@@ -627,14 +692,9 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
     }
 
     getSession(): vscode.DebugSession {
-        if (this.session !== undefined) {
-            return this.session;
-        }
-
-        this.session = vscode.debug.activeDebugSession;
         if (this.session === undefined) {
             this.isInDebug = false;
-            throw new Error('No active debug session');
+            throw new Error('Debug session is terminated');
         }
 
         return this.session;
@@ -670,24 +730,18 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
             return;
         }
 
-        const frame = st.stackFrames[0];
-
-        /* cppdbg additionally formats function name: lib.so!func(args) */
-
-        /* Remove arguments from function name */
-        let name = frame.name;
-        const argsIdx = name.indexOf('(');
-        if (argsIdx !== -1) {
-            name = name.substring(0, argsIdx);
-        }
-
-        /* Remove shlib prefix */
-        const shlibPrefix = name.indexOf('!');
-        if (shlibPrefix !== -1) {
-            name = name.substring(shlibPrefix + 1);
-        }
+        return getFrameFunctionName(st.stackFrames[0]);
+    }
 
-        return name;
+    /**
+     * Get stack frames of current thread starting from the top
+     *
+     * @param levels Max number of frames to return, all if not specified
+     */
+    async getStackFrames(levels?: number) {
+        const threadId = await this.getThreadId();
+        const st = await this.getStackTrace(threadId, levels);
+        return st?.stackFrames ?? [];
     }
 
     async getScopes(frameId: number): Promise<dap.Scope[]> {
@@ -749,6 +803,16 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
         return 'value' in variable ? variable.value : variable.result;
     }
 
+    /**
+     * Current debug session is post-mortem, i.e. core dump is loaded.
+     * In such session we can only read memory - there is no process
+     * to invoke functions in.
+     */
+    isPostMortem() {
+        return    this.session !== undefined
+               && this.isCoreDumpConfiguration(this.session.configuration);
+    }
+
     dispose() {
         this.registrations.forEach(r => r.dispose());
         this.registrations.length = 0;
@@ -770,6 +834,7 @@ export abstract class GenericDebuggerFacade implements IDebuggerFacade, vscode.D
     abstract extractPtrFromString(variable: IDebugVariable | dap.EvaluateResponse): string | null;
     abstract extractLongString(variable: IDebugVariable, frameId: number): Promise<string | null>;
     abstract formatEnumValue(name: string, value: string): string;
+    abstract isCoreDumpConfiguration(configuration: vscode.DebugConfiguration): boolean;
 }
 
 function pointerValueLooksCorrect(pointer: number) {
@@ -785,6 +850,141 @@ function pointerValueLooksCorrect(pointer: number) {
     return Number.isInteger(pointer) && pointer > 0x10000;
 }
 
+/**
+ * Read full string for debuggers built on top of GDB (cppdbg and GDB DAP).
+ * GDB truncates long strings (adds '...' at the end) and replaces repeated
+ * characters with '<repeats N times>' chunks, so we read string chunk by
+ * chunk and normalize them.
+ */
+export async function extractGdbLongString(debug: GenericDebuggerFacade,
+                                           variable: IDebugVariable,
+                                           frameId: number): Promise<string | null> {
+    const isStringTruncated = (response: string) => {
+        /* 
+         * Rendered truncated string has '...' at the very end, not in
+         * string value itself, so check 'result' member.
+         */
+        return response.endsWith('...');
+    };
+
+    const normalize = (str: string) => {
+        /* Replace escape characters */
+        str = str.replace(/\\n/g, '\n');
+        str = str.replace(/\\t/g, '\t');
+        str = str.replace(/\\"/g, '"');
+
+        /*
+         * Now find shortages in form <repeats XXX times> and replace with
+         * actual values.  Thankfully, here we only have spaces repeated
+         * (haven't seen any other values yet).  Also, remember that
+         * repeated parts can be located in any part of string, so add
+         * (", )? checks for such cases.
+         */
+        let exec;
+        while ((exec = /(", )?' ' <repeats (\d+) times>(, ")?/m.exec(str)) !== null) {
+            let times;
+            if (exec.length > 2) {
+                times = Number(exec[2]);
+            } else {
+                times = Number(exec[1]);
+            }
+
+            if (!Number.isInteger(times)) {
+                return str;
+            }
+
+            str = str.replace(exec[0], ' '.repeat(times));
+        }
+        
+        return str;
+    };
+
+    const extractStringExtended = (value: string) => {
+        /* 
+         * Original 'extractString' does not handle leading/trailing
+         * <repeats XXX> chunks and this is fatal when parsing node dumps
+         * because it has lots of spaces which are turned into such
+         * repeats.
+         * 
+         * This is special version that just do not truncate such shortcuts
+         * if they are placed in start/end of string.
+         * 
+         * I am not planning to replace original function with this, because
+         * currently this is only place where we must be aware of such
+         * behavior.
+         */
+
+        /* Trim pointer part */
+        const exec = /^0x[\dA-Fa-f]+ /.exec(value);
+        if (!exec) {
+            /* Pointer part always must be in string */
+            return null;
+        }
+
+        let str = value.substring(exec[0].length);
+        if (str[0] === '"') {
+            /* Remove leading ", but do not do this for <repeats ...> */
+            str = str.substring(1);
+        }
+
+        /* Remove ... for truncated strings */
+        if (str.endsWith('...')) {
+            str = str.substring(0, str.length - 3);
+        }
+
+        if (str[str.length - 1] === '"') {
+            /* Remove trailing ", but do not do this for <repeats ...> */
+            str = str.substring(0, str.length - 1);
+        }
+
+        return str;
+    };
+
+    let chunk = extractStringExtended(variable.value);
+    if (chunk == null) {
+        return null;
+    }
+
+    chunk = normalize(chunk);
+    /* Shortcut for little strings */
+    if (!isStringTruncated(variable.value)) {
+        return chunk;
+    }
+    
+    /*
+     * To get full string we consume string by chunks and then build
+     * whole string using concatenating.
+     */
+    const stringPtr = debug.extractPtrFromString(variable);
+    const chunks = [chunk];
+    let currentLength = chunk.length;
+    while (true) {
+        const currentChunkExpr = `(const char *)${stringPtr} + ${currentLength}`;
+        const response = await debug.evaluate(currentChunkExpr, frameId);
+        chunk = extractStringExtended(response.result);
+        if (chunk === null || chunk.length <= 0) {
+            return null;
+        }
+
+        chunk = normalize(chunk);
+        chunks.push(chunk);
+        if (!isStringTruncated(response.result)) {
+            break;
+        }
+
+        currentLength += chunk.length;
+
+        /* 
+         * Experimentally found that max string size (original string length)
+         * is 200 characters.  For truncated strings after normalization
+         * we must get exactly this size.
+         */
+        console.assert(chunk.length === 200);
+    }
+
+    return chunks.join('');
+}
+
 export class CppDbgDebuggerFacade extends GenericDebuggerFacade {
     type = DebuggerType.CppDbg;
 
@@ -792,6 +992,10 @@ export class CppDbgDebuggerFacade extends GenericDebuggerFacade {
         return scope.name === 'Locals';
     }
 
+    isCoreDumpConfiguration(configuration: vscode.DebugConfiguration) {
+        return !!configuration.coreDumpPath;
+    }
+
     getArrayVariables = async (array: string, length: number,
                                frameId: number | undefined) => {
         const expression = `${array}, ${length}`;
@@ -934,130 +1138,7 @@ export class CppDbgDebuggerFacade extends GenericDebuggerFacade {
     }
 
     override async extractLongString(variable: IDebugVariable, frameId: number): Promise<string | null> {
-        const isStringTruncated = (response: string) => {
-            /* 
-             * Rendered truncated string has '...' at the very end, not in
-             * string value itself, so check 'result' member.
-             */
-            return response.endsWith('...');
-        };
-
-        const normalize = (str: string) => {
-            /* Replace escape characters */
-            str = str.replace(/\\n/g, '\n');
-            str = str.replace(/\\t/g, '\t');
-            str = str.replace(/\\"/g, '"');
-
-            /*
-             * Now find shortages in form <repeats XXX times> and replace with
-             * actual values.  Thankfully, here we only have spaces repeated
-             * (haven't seen any other values yet).  Also, remember that
-             * repeated parts can be located in any part of string, so add
-             * (", )? checks for such cases.
-             */
-            let exec;
-            while ((exec = /(", )?' ' <repeats (\d+) times>(, ")?/m.exec(str)) !== null) {
-                let times;
-                if (exec.length > 2) {
-                    times = Number(exec[2]);
-                } else {
-                    times = Number(exec[1]);
-                }
-
-                if (!Number.isInteger(times)) {
-                    return str;
-                }
-
-                str = str.replace(exec[0], ' '.repeat(times));
-            }
-            
-            return str;
-        };
-
-        const extractStringExtended = (value: string) => {
-            /* 
-             * Original 'extractString' does not handle leading/trailing
-             * <repeats XXX> chunks and this is fatal when parsing node dumps
-             * because it has lots of spaces which are turned into such
-             * repeats.
-             * 
-             * This is special version that just do not truncate such shortcuts
-             * if they are placed in start/end of string.
-             * 
-             * I am not planning to replace original function with this, because
-             * currently this is only place where we must be aware of such
-             * behavior.
-             */
-
-            /* Trim pointer part */
-            const exec = /^0x[\dA-Fa-f]+ /.exec(value);
-            if (!exec) {
-                /* Pointer part always must be in string */
-                return null;
-            }
-
-            let str = value.substring(exec[0].length);
-            if (str[0] === '"') {
-                /* Remove leading ", but do not do this for <repeats ...> */
-                str = str.substring(1);
-            }
-
-            /* Remove ... for truncated strings */
-            if (str.endsWith('...')) {
-                str = str.substring(0, str.length - 3);
-            }
-
-            if (str[str.length - 1] === '"') {
-                /* Remove trailing ", but do not do this for <repeats ...> */
-                str = str.substring(0, str.length - 1);
-            }
-
-            return str;
-        };
-
-        let chunk = extractStringExtended(variable.value);
-        if (chunk == null) {
-            return null;
-        }
-
-        chunk = normalize(chunk);
-        /* Shortcut for little strings */
-        if (!isStringTruncated(variable.value)) {
-            return chunk;
-        }
-        
-        /*
-         * To get full string we consume string by chunks and then build
-         * whole string using concatenating.
-         */
-        const stringPtr = this.extractPtrFromString(variable);
-        const chunks = [chunk];
-        let currentLength = chunk.length;
-        while (true) {
-            const currentChunkExpr = `(const char *)${stringPtr} + ${currentLength}`;
-            const response = await this.evaluate(currentChunkExpr, frameId);
-            chunk = extractStringExtended(response.result);
-            if (chunk === null || chunk.length <= 0) {
-                return null;
-            }
-
-            chunk = normalize(chunk);
-            chunks.push(chunk);
-            if (!isStringTruncated(response.result)) {
-                break;
-            }
-
-            currentLength += chunk.length;
-
-            /* 
-             * Experimentally found that max string size (original string length)
-             * is 200 characters.  For truncated strings after normalization
-             * we must get exactly this size.
-             */
-            console.assert(chunk.length === 200);
-        }
-
-        return chunks.join('');
+        return await extractGdbLongString(this, variable, frameId);
     }
 
     extractBool(variable: IDebugVariable | dap.EvaluateResponse) {
@@ -1115,6 +1196,181 @@ export class CppDbgDebuggerFacade extends GenericDebuggerFacade {
     }
 }
 
+/**
+ * Facade for GDB built-in DAP server ('gdb -i dap'), available since GDB 14.
+ * 
+ * Values are formatted by GDB itself, so they look like in cppdbg (which
+ * uses GDB/MI under the hood), but errors are reported as failed DAP
+ * responses, not as special values.
+ */
+export class GdbDapDebuggerFacade extends GenericDebuggerFacade {
+    type = DebuggerType.GdbDap;
+
+    shouldShowScope(scope: dap.Scope): boolean {
+        /* Unlike cppdbg, GDB puts function arguments into separate scope */
+        return scope.name === 'Locals' || scope.name === 'Arguments';
+    }
+
+    isCoreDumpConfiguration(_configuration: vscode.DebugConfiguration) {
+        /* GDB DAP does not have launch/attach option to load core file */
+        return false;
+    }
+
+    isDebuggerNotAvailableError(message: string) {
+        /*
+         * GDB DAP returns these messages when program is not stopped
+         * or we passed outdated identifiers (after step).
+         */
+        return    message === 'notStopped'
+               || message.startsWith('invalid variablesReference')
+               || message.startsWith('invalid frame');
+    }
+
+    private handleGdbDebuggerError(error: unknown) {
+        /*
+         * Failed evaluation is reported as failed response with GDB error
+         * message, i.e. 'No symbol "xxx" in current context.'
+         */
+        this.throwFailedResponseAsEvaluationError(error);
+    }
+
+    async evaluate(expression: string, frameId: number | undefined, context?: string) {
+        try {
+            return await super.evaluate(expression, frameId, context);
+        } catch (err) {
+            this.handleGdbDebuggerError(err);
+            throw err;
+        }
+    }
+
+    async getMembers(variablesReference: number) {
+        try {
+            return await super.getMembers(variablesReference);
+        } catch (err) {
+            this.handleGdbDebuggerError(err);
+            throw err;
+        }
+    }
+
+    async getArrayVariables(array: string, length: number,
+                            frameId: number | undefined) {
+        if (length <= 0) {
+            return [];
+        }
+
+        /* GDB supports artificial arrays: 'first_elem@length' */
+        const expression = `(${array})[0]@${length}`;
+        const evalResponse = await this.evaluate(expression, frameId);
+        if (!evalResponse?.variablesReference) {
+            return [];
+        }
+
+        return await this.getMembers(evalResponse.variablesReference);
+    }
+
+    isNull(variable: IDebugVariable | dap.EvaluateResponse) {
+        return this.getValue(variable) === '0x0';
+    }
+
+    isValueStruct(variable: IDebugVariable, type?: string) {
+        /*
+         * Structures and arrays do not have value - only children,
+         * so check that this is not an array.
+         */
+        return !variable.value.length && !(type ?? variable.type).endsWith(']');
+    }
+
+    isPointerType(variable: IDebugVariable | dap.EvaluateResponse) {
+        return this.getValue(variable).startsWith('0x');
+    }
+
+    extractVariableProperties(dv: IDebugVariable) {
+        const value = this.getValue(dv);
+
+        let prop: TypeProperty;
+        if (value.length === 0) {
+            if (dv.type.endsWith('[]')) {
+                prop = TypeProperty.FlexibleArray;
+            } else if (dv.type.endsWith(']')) {
+                prop = TypeProperty.FixedSizeArray;
+            } else {
+                prop = TypeProperty.ValueStruct;
+            }
+        } else if (value.startsWith('0x')) {
+            /* 
+             * Pointers can have additional data after value,
+             * i.e. string for 'char *' or symbol name for globals.
+             */
+            const space = value.indexOf(' ');
+            const pointerValue = Number(space === -1 ? value : value.substring(0, space));
+            if (pointerValue === 0) {
+                prop = TypeProperty.PointerNull;
+            } else if (!pointerValueLooksCorrect(pointerValue)) {
+                prop = TypeProperty.PointerInvalid;
+            } else {
+                prop = TypeProperty.Pointer;
+            }
+        } else {
+            prop = TypeProperty.Scalar;
+        }
+
+        return new TypeProperties(prop);
+    }
+
+    extractString(variable: IDebugVariable | dap.EvaluateResponse) {
+        /* Same format as GDB/MI: 0x00000 "STR" */
+        const value = this.getValue(variable);
+        const left = value.indexOf('"');
+        const right = value.lastIndexOf('"');
+        if (left === -1 || left === right) {
+            return null;
+        }
+
+        return value.substring(left + 1, right);
+    }
+
+    async extractLongString(variable: IDebugVariable, frameId: number): Promise<string | null> {
+        return await extractGdbLongString(this, variable, frameId);
+    }
+
+    extractBool(variable: IDebugVariable | dap.EvaluateResponse) {
+        /* 
+         * On older pg versions bool stored as 'char' and have format: "X '\00X'"
+         */
+        switch (this.getValue(variable).trim().toLowerCase()) {
+            case 'true':
+            case "1 '\\001'":
+                return true;
+            case 'false':
+            case "0 '\\000'":
+                return false;
+        }
+
+        return null;
+    }
+
+    extractPtrFromString(variable: IDebugVariable | dap.EvaluateResponse) {
+        const value = this.getValue(variable);
+        const space = value.indexOf(' ');
+        const ptr = space === -1 ? value : value.substring(0, space);
+        if (!Number.isInteger(Number(ptr))) {
+            return null;
+        }
+
+        return ptr;
+    }
+
+    maybeCalcFrameIndex(_frameId: number) {
+        /* GDB allocates new frame ids after each stop, so no relation with index */
+        return undefined;
+    }
+
+    formatEnumValue(_name: string, value: string) {
+        /* This is C, so no qualification required */
+        return value;
+    }
+}
+
 export class CodeLLDBDebuggerFacade extends GenericDebuggerFacade {
     type = DebuggerType.CodeLLDB;
 
@@ -1122,6 +1378,20 @@ export class CodeLLDBDebuggerFacade extends GenericDebuggerFacade {
         return scope.name === 'Local';
     }
 
+    isCoreDumpConfiguration(configuration: vscode.DebugConfiguration) {
+        /*
+         * Core dump is loaded using 'custom' request with
+         * "targetCreateCommands": ["target create -c /path/to/core"]
+         */
+        const commands = configuration.targetCreateCommands;
+        if (!Array.isArray(commands)) {
+            return false;
+        }
+
+        return commands.some(c =>    typeof c === 'string'
+                                  && /\starget\s+create\s.*(-c|--core)\s/.test(` ${c} `));
+    }
+
     isDebuggerNotAvailableError(message: string) {
         /*
          * CodeLLDB error messages have format:
@@ -1505,6 +1775,237 @@ export class CodeLLDBDebuggerFacade extends GenericDebuggerFacade {
     }
 }
 
+/**
+ * Facade for LLVM upstream 'lldb-dap' adapter (formerly 'lldb-vscode').
+ * 
+ * It uses the same expression evaluator as CodeLLDB, but without
+ * CodeLLDB's additions: no '/nat' prefixes, values are rendered by lldb
+ * itself (pointer is shown before string for 'char *') and errors are
+ * reported as plain failed responses.
+ */
+export class LldbDapDebuggerFacade extends GenericDebuggerFacade {
+    type = DebuggerType.LldbDap;
+
+    shouldShowScope(scope: dap.Scope): boolean {
+        /* Function arguments are also shown in 'Locals' */
+        return scope.name === 'Locals';
+    }
+
+    isCoreDumpConfiguration(configuration: vscode.DebugConfiguration) {
+        /* Core dump is loaded using 'attach' request with "coreFile" */
+        return !!configuration.coreFile;
+    }
+
+    isDebuggerNotAvailableError(message: string) {
+        /* Outdated frame id passed after step or process is not stopped */
+        return    message.indexOf('invalid frame') !== -1
+               || message.indexOf('invalid thread') !== -1;
+    }
+
+    private handleLldbDapDebuggerError(error: unknown) {
+        /* 
+         * Failed evaluation is reported as failed response with lldb
+         * error message, i.e. "error: use of undeclared identifier 'xxx'"
+         */
+        this.throwFailedResponseAsEvaluationError(error);
+    }
+
+    async evaluate(expression: string, frameId: number | undefined, 
+                   context?: string, noReturn?: boolean): Promise<dap.EvaluateResponse> {
+        if (noReturn) {
+            /*
+             * lldb does not produce value for 'void' expressions, so
+             * lldb-dap treats such evaluation as failed even though call
+             * succeeds.  Use comma operator to always get some value.
+             */
+            expression = `((void)(${expression}), 0)`;
+        }
+
+        try {
+            return await super.evaluate(expression, frameId, context);
+        } catch (err) {
+            this.handleLldbDapDebuggerError(err);
+            throw err;
+        }
+    }
+
+    async getVariables(frameId: number): Promise<dap.DebugVariable[]> {
+        try {
+            return await super.getVariables(frameId);
+        } catch (err) {
+            this.handleLldbDapDebuggerError(err);
+            throw err;
+        }
+    }
+
+    async getMembers(variablesReference: number) {
+        try {
+            return await super.getMembers(variablesReference);
+        } catch (err) {
+            this.handleLldbDapDebuggerError(err);
+            throw err;
+        }
+    }
+
+    /* 
+     * Pointers are rendered as '0x0000555555a4b0c8', but for strings
+     * and function pointers there is additional data after space.
+     */
+    private getPointerPart(value: string) {
+        if (!value.startsWith('0x')) {
+            return;
+        }
+
+        const space = value.indexOf(' ');
+        return space === -1 ? value : value.substring(0, space);
+    }
+
+    isNull(variable: IDebugVariable | dap.EvaluateResponse) {
+        const pointer = this.getPointerPart(this.getValue(variable));
+        return pointer !== undefined && Number(pointer) === 0;
+    }
+
+    isValueStruct(variable: IDebugVariable, type?: string) {
+        type ??= variable.type;
+        if (isPointerType(type) || type.endsWith(']')) {
+            return false;
+        }
+
+        const value = variable.value;
+        return value === '' || (value.startsWith('{') && value.endsWith('}'));
+    }
+
+    isPointerType(variable: IDebugVariable | dap.EvaluateResponse) {
+        return this.getPointerPart(this.getValue(variable)) !== undefined;
+    }
+
+    extractVariableProperties(dv: IDebugVariable) {
+        const value = this.getValue(dv);
+        const pointer = this.getPointerPart(value);
+
+        let prop: TypeProperty;
+        if (pointer !== undefined) {
+            const pointerValue = Number(pointer);
+            if (pointerValue === 0) {
+                prop = TypeProperty.PointerNull;
+            } else if (!pointerValueLooksCorrect(pointerValue)) {
+                prop = TypeProperty.PointerInvalid;
+            } else {
+                prop = TypeProperty.Pointer;
+            }
+        } else if (dv.type.endsWith(']')) {
+            /* Arrays are rendered like structures: '{1, 2, 3}' */
+            if (dv.type[dv.type.length - 2] === '[') {
+                prop = TypeProperty.FlexibleArray;
+            } else {
+                prop = TypeProperty.FixedSizeArray;
+            }
+        } else if (value === '' || (value.startsWith('{') && value.endsWith('}'))) {
+            prop = TypeProperty.ValueStruct;
+        } else {
+            prop = TypeProperty.Scalar;
+        }
+
+        return new TypeProperties(prop);
+    }
+
+    private extractStringInternal(value: string) {
+        /* 0x0000555555a4b0c8 "STR" */
+        const left = value.indexOf('"');
+        const right = value.lastIndexOf('"');
+        if (left === -1 || left === right) {
+            return null;
+        }
+
+        return value.substring(left + 1, right);
+    }
+
+    extractString(variable: IDebugVariable | dap.EvaluateResponse) {
+        return this.extractStringInternal(this.getValue(variable));
+    }
+
+    async extractLongString(variable: IDebugVariable, frameId: number): Promise<string | null> {
+        /* lldb adds '...' after closing quote for truncated strings */
+        const isStringTruncated = (response: string) => response.endsWith('...');
+        const normalize = (str: string) => {
+            str = str.replace(/\\n/g, '\n');
+            str = str.replace(/\\t/g, '\t');
+            str = str.replace(/\\"/g, '"');
+            return str;
+        };
+
+        let chunk = this.extractStringInternal(variable.value);
+        if (chunk === null) {
+            return null;
+        }
+
+        chunk = normalize(chunk);
+        if (!isStringTruncated(variable.value)) {
+            return chunk;
+        }
+
+        const stringPtr = this.extractPtrFromString(variable);
+        const chunks = [chunk];
+        let currentLength = chunk.length;
+        while (true) {
+            const currentChunkExpr = `(const char *)${stringPtr} + ${currentLength}`;
+            const response = await this.evaluate(currentChunkExpr, frameId);
+            chunk = this.extractStringInternal(response.result);
+            if (chunk === null || chunk.length <= 0) {
+                return null;
+            }
+
+            chunk = normalize(chunk);
+            chunks.push(chunk);
+            if (!isStringTruncated(response.result)) {
+                break;
+            }
+
+            currentLength += chunk.length;
+        }
+
+        return chunks.join('');
+    }
+
+    extractBool(variable: IDebugVariable | dap.EvaluateResponse): boolean | null {
+        /* 
+         * On older pg versions bool stored as 'char' and rendered as char literal
+         */
+        switch (this.getValue(variable).trim().toLowerCase()) {
+            case 'true':
+            case "'\\x01'":
+                return true;
+            case 'false':
+            case "'\\0'":
+                return false;
+        }
+
+        return null;
+    }
+
+    extractPtrFromString(variable: IDebugVariable | dap.EvaluateResponse): string | null {
+        return this.getPointerPart(this.getValue(variable)) ?? null;
+    }
+
+    maybeCalcFrameIndex(frameId: number) {
+        /*
+         * lldb-dap encodes frame id as '(thread_index << 19) | frame_index',
+         * so index can be extracted from lower bits.
+         */
+        return frameId & ((1 << 19) - 1);
+    }
+
+    formatEnumValue(name: string, value: string) {
+        /* Expressions are evaluated as C++, just like in CodeLLDB */
+        return `${name}::${value}`;
+    }
+}
+
+/*
+ * Types of debug sessions, which have facade (see 'createDebuggerFacade')
+ */
+const supportedDebuggerTypes = ['cppdbg', 'lldb', 'gdb-dap', 'lldb-dap', 'lldb-vscode'];
+
 export function setupDebugger(context: vscode.ExtensionContext, 
                               variablesView: PgVariablesViewProvider) {
     if (!Features.debugFocusEnabled()) {
@@ -1523,13 +2024,20 @@ export function setupDebugger(context: vscode.ExtensionContext,
          */
 
         const disposable = vscode.debug.registerDebugAdapterTrackerFactory('*', {
-            createDebugAdapterTracker(_: vscode.DebugSession) {
+            createDebugAdapterTracker(session: vscode.DebugSession) {
+                /* Events of other (not shown) sessions must not reset view */
+                const refresh = () => {
+                    if (variablesView.isShown(session)) {
+                        variablesView.refresh();
+                    }
+                };
+
                 return {
                     onDidSendMessage(message: dap.ProtocolMessage) {
                         if (message.type === 'response') {
                             if (message.command === 'continue') {
                                 /* `Continue' command - clear */
-                                variablesView.refresh();
+                                refresh();
                             }
     
                             return;
@@ -1538,18 +2046,35 @@ export function setupDebugger(context: vscode.ExtensionContext,
                         if (message.type === 'event') {
                             if (message.event === 'stopped' || message.event === 'terminated') {
                                 /* Hit breakpoint - show variables */
-                                variablesView.refresh();
+                                refresh();
                             }
                         }
                     },
     
                     onWillStopSession() {
                         /* Debug session terminates - clear */
-                        variablesView.refresh();
+                        refresh();
                     },
                 };
             },
         });
         context.subscriptions.push(disposable);
     }
+
+    /* Track stops to highlight variables changed after step */
+    const factory: vscode.DebugAdapterTrackerFactory = {
+        createDebugAdapterTracker(session: vscode.DebugSession) {
+            return {
+                onDidSendMessage(message: dap.ProtocolMessage) {
+                    if (message.type === 'event' && message.event === 'stopped') {
+                        variablesView.nextStop(session);
+                    }
+                },
+            };
+        },
+    };
+    for (const type of supportedDebuggerTypes) {
+        context.subscriptions.push(
+            vscode.debug.registerDebugAdapterTrackerFactory(type, factory));
+    }
 }
@@ -5,7 +5,8 @@ import * as utils from './utils';
 import * as vars from './variables';
 import * as dbg from './debugger';
 import { Commands, 
-         Configuration, 
+         Configuration,
+         ConfigurationRegistry,
          ExtensionId, 
          VsCodeSettings,
          openConfigFileCommand,
@@ -14,30 +15,52 @@ import { Commands,
          Features,
          getWorkspacePgSrcFile } from './configuration';
 import { setupPgConfSupport } from './pgconf';
+import * as memctx from './memctx';
+import * as compare from './compare';
+import * as json from './json';
+import * as graph from './graph';
+import * as visualizer from './visualizer';
+import * as find from './find';
+import * as attach from './attach';
+import { setupInlineValues } from './inline';
+import { setupHover } from './hover';
 import { PgindentDocumentFormatterProvider,
          setupFormatting } from './formatter';
 import * as formatter from './formatter';
 import { Log as logger } from './logger';
 import { WorkspaceNotOpenedError } from './error';
 
-function createDebuggerFacade(type: string, provider: vars.PgVariablesViewProvider): dbg.GenericDebuggerFacade | undefined {
+function createDebuggerFacade(session: vscode.DebugSession, provider: vars.PgVariablesViewProvider): dbg.GenericDebuggerFacade | undefined {
     let debug;
-    switch (type) {
+    switch (session.type) {
         case 'cppdbg':
-            debug = new dbg.CppDbgDebuggerFacade();
+            debug = new dbg.CppDbgDebuggerFacade(session);
             if (!Features.hasEvaluateArrayLength()) {
                 debug.switchToManualArrayExpansion();
             }
             break;
         case 'lldb':
-            debug = new dbg.CodeLLDBDebuggerFacade();
+            debug = new dbg.CodeLLDBDebuggerFacade(session);
+            break;
+        case 'gdb-dap':
+            /* GDB built-in DAP server ('gdb -i dap') */
+            debug = new dbg.GdbDapDebuggerFacade(session);
+            break;
+        case 'lldb-dap':
+        case 'lldb-vscode':
+            /* LLVM upstream adapter ('lldb-vscode' is it's old name) */
+            debug = new dbg.LldbDapDebuggerFacade(session);
             break;
         default:
             return;
     }
     if (Features.debugFocusEnabled()) {
-        vscode.debug.onDidChangeActiveStackItem(() => provider.refresh(),
-                                                undefined, debug.registrations);
+        vscode.debug.onDidChangeActiveStackItem(item => {
+            /* View shows only active session, others are refreshed on switch */
+            if (item?.session.id === session.id) {
+                provider.refresh();
+            }
+        }, undefined, debug.registrations);
     } else {
         debug.switchToEventBasedRefresh();
     }
@@ -55,10 +78,7 @@ async function promptWorkspace() {
         return folders[0];
     }
 
-    /* 
-     * Extension works only with first workspace in array, but here
-     * it's ok to ask user input.
-     */
+    /* Here we can not guess folder from debug session, so ask user */
     const name = await vscode.window.showQuickPick(
         folders.map(wf => wf.name), {
             title: 'Choose workspace',
@@ -351,28 +371,29 @@ async function bootstrapExtensionCommand() {
 }
 
 export function createPgVariablesView(context: vscode.ExtensionContext,
-                                      config: Configuration) {
+                                      config: ConfigurationRegistry) {
     const nodesView = new vars.PgVariablesViewProvider(config);
-    const treeDisposable = vscode.window.registerTreeDataProvider(
-        `${ExtensionId}.node-tree-view`, nodesView);
+    const treeView = vscode.window.createTreeView(
+        `${ExtensionId}.node-tree-view`, {treeDataProvider: nodesView});
+    nodesView.treeView = treeView;
+    nodesView.watchState = context.workspaceState;
     context.subscriptions.push(
-        treeDisposable,
+        treeView,
         nodesView,
         
         vscode.debug.onDidStartDebugSession(s => {
-            if (nodesView.isInDebug()) {
-                return;
-            }
-            
-            const debug = createDebuggerFacade(s.type, nodesView);
+            const debug = createDebuggerFacade(s, nodesView);
             if (!debug) {
                 return;
             }
 
             nodesView.startDebugging(debug);
         }),
-        vscode.debug.onDidTerminateDebugSession(_ => {
-            nodesView.stopDebugging();
+        vscode.debug.onDidChangeActiveDebugSession(s => {
+            nodesView.switchDebugSession(s);
+        }),
+        vscode.debug.onDidTerminateDebugSession(s => {
+            nodesView.stopDebugging(s);
         }),
     );
 
@@ -386,6 +407,15 @@ export function setupExtension(context: vscode.ExtensionContext) {
     /* Variables view */
     const pgvars = setupPgVariablesView(context, config);
 
+    /* Memory contexts view */
+    memctx.setupMemoryContextsView(context, pgvars);
+
+    /* PG-aware inline values in editor */
+    setupInlineValues(context, pgvars);
+
+    /* PG-aware hover in editor */
+    setupHover(context, pgvars);
+
     /* Formatter */
     const formatter = setupFormatting(context, config);
 
@@ -397,7 +427,7 @@ export function setupExtension(context: vscode.ExtensionContext) {
 }
 
 function setupPgVariablesView(context: vscode.ExtensionContext,
-                              config: Configuration) {
+                              config: ConfigurationRegistry) {
     const pgvars = createPgVariablesView(context, config);
     
     /* Setup debugger specific function */
@@ -412,13 +442,13 @@ function setupPgVariablesView(context: vscode.ExtensionContext,
      */
     const key = 'NodeTagsCollectorLaunched';
     if (!context.workspaceState.get(key)) {
-        const disposable = pgvars.onDidDebugStart(async (c) => {
+        const disposable = pgvars.onDidDebugStart(async (e) => {
             /* Run this only once */
             disposable.dispose();
             context.workspaceState.update(key, true);
 
             try {
-                await searchNodeTagsWorker(config, c);
+                await searchNodeTagsWorker(e.config, e.context);
             } catch (err) {
                 logger.error(err, 'could not search for new NodeTags');
             }
@@ -428,24 +458,22 @@ function setupPgVariablesView(context: vscode.ExtensionContext,
     return pgvars;
 }
 
-async function findAllFilesWithNodeTags(folders: readonly vscode.WorkspaceFolder[],
-                                        pgversion: number) {
+async function findAllFilesWithNodeTags(folder: vscode.Uri, pgversion: number) {
     const paths = [];
-    for (const folder of folders) {
-        /* 
-         * Starting from 16 major version NodeTag is autogenerated and stored in nodetags.h.
-         * Avoid parsing 'nodes.h', because it will not give us anything.
-         */
-        let file;
-        if (16_00_00 <= pgversion) {
-            file = getWorkspacePgSrcFile(folder.uri, 'src', 'include', 'nodes', 'nodetags.h');
-        } else {
-            file = getWorkspacePgSrcFile(folder.uri, 'src', 'include', 'nodes', 'nodes.h');
-        }
 
-        if (await utils.fileExists(file)) {
-            paths.push(file);
-        }
+    /* 
+     * Starting from 16 major version NodeTag is autogenerated and stored in nodetags.h.
+     * Avoid parsing 'nodes.h', because it will not give us anything.
+     */
+    let file;
+    if (16_00_00 <= pgversion) {
+        file = getWorkspacePgSrcFile(folder, 'src', 'include', 'nodes', 'nodetags.h');
+    } else {
+        file = getWorkspacePgSrcFile(folder, 'src', 'include', 'nodes', 'nodes.h');
+    }
+
+    if (await utils.fileExists(file)) {
+        paths.push(file);
     }
 
     const customFiles = VsCodeSettings.getCustomNodeTagFiles();
@@ -462,13 +490,8 @@ async function findAllFilesWithNodeTags(folders: readonly vscode.WorkspaceFolder
                 continue;
             }
         } else {
-            for (const folder of folders) {
-                uri = getWorkspacePgSrcFile(folder.uri, customFile);
-                if (await utils.fileExists(uri)) {
-                    break;
-                }
-            }
-            if (!uri) {
+            uri = getWorkspacePgSrcFile(folder, customFile);
+            if (!await utils.fileExists(uri)) {
                 continue;
             }
         }
@@ -483,22 +506,19 @@ async function findAllFilesWithNodeTags(folders: readonly vscode.WorkspaceFolder
  * Run Worker that will traverse all NodeTag containing files,
  * parse NodeTags and find which are missing - if find something,
  * then user is prompted to add them to configuration file.
+ * Files are searched in workspace folder of debug session and new
+ * NodeTags are added to configuration of this folder.
  * 
  * This is quiet CPU intensive operation, so perform in another thread.
  */
 async function searchNodeTagsWorker(config: Configuration,
                                     context: vars.ExecContext) {
-    const folders = vscode.workspace.workspaceFolders;
-    if (!folders?.length) {
-        return;
-    }
-
     if (!context.pgversion) {
         return;
     }
 
     /* Find all files containing NodeTags */
-    const paths = await findAllFilesWithNodeTags(folders, context.pgversion);
+    const paths = await findAllFilesWithNodeTags(config.folder, context.pgversion);
     if (!paths.length) {
         logger.debug('no NodeTag files found');
         return;
@@ -546,7 +566,7 @@ async function searchNodeTagsWorker(config: Configuration,
 function registerCommands(context: vscode.ExtensionContext,
                           pgvars: vars.PgVariablesViewProvider,
                           fmt: PgindentDocumentFormatterProvider,
-                          config: Configuration) {
+                          config: ConfigurationRegistry) {
     const registerCommand = <T>(name: string, command: (...args: unknown[]) => T | Thenable<T>) => {
         const disposable = vscode.commands.registerCommand(name, async (...args: unknown[]) => {
             try {
@@ -583,9 +603,42 @@ function registerCommands(context: vscode.ExtensionContext,
     registerCommand(Commands.RefreshVariables,
                     () => vars.refreshVariablesCommand(pgvars));
     registerCommand(Commands.AddToWatchView, vars.addVariableToWatchCommand);
+    registerCommand(Commands.AddPgWatchExpression,
+                    async () => await vars.addPgWatchExpressionCommand(pgvars));
+    registerCommand(Commands.RemovePgWatchExpression,
+                    async (...args: unknown[]) => await vars.removePgWatchExpressionCommand(pgvars, ...args));
+    registerCommand(Commands.SetVariablesFilter,
+                    async () => await vars.setVariablesFilterCommand(pgvars));
+    registerCommand(Commands.ClearVariablesFilter,
+                    async () => await vars.clearVariablesFilterCommand(pgvars));
+    registerCommand(Commands.FindNodeOfType,
+                    async (...args: unknown[]) => await find.findNodeOfTypeCommand(pgvars, ...args));
+    registerCommand(Commands.LoadMoreElements,
+                    async (...args: unknown[]) => await vars.loadMoreElementsCommand(pgvars, ...args));
+    registerCommand(Commands.ShowElementsRange,
+                    async (...args: unknown[]) => await vars.showElementsRangeCommand(pgvars, ...args));
+    registerCommand(Commands.ShowPlanTree,
+                    async (...args: unknown[]) => await vars.showPlanTreeCommand(pgvars, ...args));
+    registerCommand(Commands.ShowRelOptInfoPaths,
+                    async (...args: unknown[]) => await vars.showRelOptInfoPathsCommand(pgvars, ...args));
+    registerCommand(Commands.ShowQueryAsSql,
+                    async (...args: unknown[]) => await vars.showQueryAsSqlCommand(pgvars, ...args));
+    registerCommand(Commands.FindMemoryContext,
+                    async (...args: unknown[]) => await memctx.findMemoryContextCommand(pgvars, ...args));
+    registerCommand(Commands.SelectForCompare,
+                    async (...args: unknown[]) => await compare.selectForCompareCommand(pgvars, ...args));
+    registerCommand(Commands.CompareWithSelected,
+                    async (...args: unknown[]) => await compare.compareWithSelectedCommand(pgvars, ...args));
+    registerCommand(Commands.ExportToJson,
+                    async (...args: unknown[]) => await json.exportVariableToJsonCommand(pgvars, ...args));
+    registerCommand(Commands.ExportToDot,
+                    async (...args: unknown[]) => await graph.exportNodeToDotCommand(pgvars, ...args));
+    registerCommand(Commands.OpenVisualizer,
+                    async (...args: unknown[]) => await visualizer.openVisualizerCommand(pgvars, ...args));
 
     /* Miscellaneous */
     registerCommand(Commands.BootstrapExtension, bootstrapExtensionCommand);
+    registerCommand(Commands.AttachToBackend, attach.attachToBackendCommand);
     
     if (context.extensionMode === vscode.ExtensionMode.Test) {
         registerCommand(Commands.GetVariables, async () => await pgvars.getChildren());
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+
+import * as vars from './variables';
+import { DebuggerNotAvailableError, EvaluationError } from './debugger';
+import { Log as logger } from './logger';
+
+/* How deep we go from variable, where search started */
+const maxFindDepth = 8;
+
+/* Max amount of found nodes shown to user */
+const maxFoundNodes = 64;
+
+/*
+ * Walk variables level by level, so nodes closest to start
+ * are found first.  Children are taken from tree view, so found
+ * nodes are the same objects, which are shown and can be revealed.
+ */
+async function findNodes(pgvars: vars.PgVariablesViewProvider,
+                         start: vars.Variable[], tag: string,
+                         token: vscode.CancellationToken) {
+    const found: vars.NodeVariable[] = [];
+
+    /*
+     * Embedded structs have the same address as their parent,
+     * so type is also part of the key.
+     */
+    const visited = new Set<string>();
+    let level = start;
+    let depth = 0;
+    while (level.length && depth <= maxFindDepth) {
+        const next: vars.Variable[] = [];
+        for (const variable of level) {
+            if (token.isCancellationRequested || maxFoundNodes <= found.length) {
+                return found;
+            }
+
+            if (variable instanceof vars.NodeVariable) {
+                const key = `${variable.getPointer() ?? variable.value}:${variable.type}`;
+                if (visited.has(key)) {
+                    continue;
+                }
+                visited.add(key);
+
+                if (variable.realNodeTag === tag) {
+                    found.push(variable);
+                }
+            }
+
+            if (depth === maxFindDepth) {
+                continue;
+            }
+
+            const item = await variable.getTreeItem();
+            if (item.collapsibleState === vscode.TreeItemCollapsibleState.None) {
+                continue;
+            }
+
+            const children = await pgvars.getChildren(variable);
+            if (children) {
+                next.push(...children);
+            }
+        }
+
+        level = next;
+        depth++;
+    }
+
+    return found;
+}
+
+async function selectNodeTag(context: vars.ExecContext) {
+    const tags = [...context.nodeVarRegistry.nodeTags].sort();
+    return await vscode.window.showQuickPick(tags, {
+        title: 'Find node of type',
+        placeHolder: 'NodeTag, i.e. RestrictInfo',
+    });
+}
+
+async function showFoundNodes(pgvars: vars.PgVariablesViewProvider,
+                              nodes: vars.NodeVariable[]) {
+    const reveal = async (variable: vars.NodeVariable) => {
+        try {
+            await pgvars.reveal(variable);
+        } catch (err) {
+            /* Tree could be refreshed while we were revealing */
+            logger.error(err, 'could not reveal variable', variable.name);
+        }
+    };
+
+    if (nodes.length === 1) {
+        await reveal(nodes[0]);
+        return;
+    }
+
+    const items = nodes.map(variable => ({
+        label: vars.getVariablePath(variable),
+        description: variable.value,
+        variable,
+    }));
+
+    /* Reveal nodes while user walks through the list */
+    const picked = await vscode.window.showQuickPick(items, {
+        title: `Found ${nodes.length} nodes`,
+        matchOnDescription: true,
+        onDidSelectItem: async item => {
+            if (typeof item === 'object') {
+                await reveal((item as typeof items[number]).variable);
+            }
+        },
+    });
+    if (picked) {
+        await reveal(picked.variable);
+    }
+}
+
+export async function findNodeOfTypeCommand(pgvars: vars.PgVariablesViewProvider,
+                                            ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    /* Invoked from view title - search in all variables */
+    let start: vars.Variable[] | undefined;
+    let name = 'variables';
+    if (args.length && args[0] instanceof vars.Variable) {
+        start = [args[0]];
+        name = args[0].name;
+    } else {
+        start = await pgvars.getChildren();
+    }
+
+    if (!start?.length) {
+        return;
+    }
+
+    const tag = await selectNodeTag(pgvars.context);
+    if (!tag) {
+        return;
+    }
+
+    /* Filter hides members, so nodes inside them will not be found */
+    if (pgvars.getFilter()) {
+        await pgvars.setFilter(undefined);
+    }
+
+    let found;
+    try {
+        found = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Searching ${tag} in ${name}`,
+            cancellable: true,
+        }, async (_, token) => await findNodes(pgvars, start, tag, token));
+    } catch (err) {
+        if (err instanceof DebuggerNotAvailableError) {
+            return;
+        }
+
+        if (!(err instanceof EvaluationError)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not search', tag, 'in', name);
+        vscode.window.showErrorMessage(`Could not search ${tag} in ${name}`);
+        return;
+    }
+
+    if (!found.length) {
+        vscode.window.showInformationMessage(`${tag} not found in ${name}`);
+        return;
+    }
+
+    await showFoundNodes(pgvars, found);
+}
@@ -8,7 +8,7 @@ import * as vscode from 'vscode';
 import * as utils from './utils';
 import { Log as logger } from './logger';
 import { getWellKnownBuiltinContribs } from './constants';
-import { Configuration,
+import { ConfigurationRegistry,
          getWorkspaceFolder,
          VsCodeSettings,
          getWorkspacePgSrcFile } from './configuration';
@@ -87,14 +87,18 @@ function isBuiltinContrib(name: string) {
 }
 
 export class PgindentDocumentFormatterProvider implements vscode.DocumentFormattingEditProvider {
-    config: Configuration;
+    config: ConfigurationRegistry;
     
-    constructor(config: Configuration) {
+    constructor(config: ConfigurationRegistry) {
         this.config = config;
     }
     
-    private savedPgindentPath?: vscode.Uri;
-    private savedPgbsdPath?: vscode.Uri;
+    /* 
+     * Cached binaries paths.  Each workspace folder can have it's own
+     * PG sources, so key is workspace folder.
+     */
+    private savedPgindentPath = new Map<string, vscode.Uri>();
+    private savedPgbsdPath = new Map<string, vscode.Uri>();
     
     private async getPgConfigPath(workspace: vscode.Uri) {
         const possiblePgConfigPath = getWorkspacePgSrcFile(
@@ -295,7 +299,7 @@ export class PgindentDocumentFormatterProvider implements vscode.DocumentFormatt
     }
     
     private async getTypedefsFromConfiguration(workspace: vscode.Uri) {
-        const config = await this.config.getFormatterConfiguration();
+        const config = await this.config.get(workspace).getFormatterConfiguration();
         if (!config?.typedefs?.length) {
             return [];
         }
@@ -383,15 +387,16 @@ export class PgindentDocumentFormatterProvider implements vscode.DocumentFormatt
     }
 
     private async getPgBsdIndent(workspace: vscode.Uri, pgindent: vscode.Uri) {
-        if (this.savedPgbsdPath) {
-            if (await utils.fileExists(this.savedPgbsdPath)) {
-                return this.savedPgbsdPath;
+        const savedPgbsdPath = this.savedPgbsdPath.get(workspace.toString());
+        if (savedPgbsdPath) {
+            if (await utils.fileExists(savedPgbsdPath)) {
+                return savedPgbsdPath;
             }
 
-            this.savedPgbsdPath = undefined;
+            this.savedPgbsdPath.delete(workspace.toString());
         }
 
-        const userPgbsdindent = VsCodeSettings.getCustomPgbsdindentPath();
+        const userPgbsdindent = VsCodeSettings.getCustomPgbsdindentPath(workspace);
         if (userPgbsdindent) {
             return path.isAbsolute(userPgbsdindent) 
                 ? vscode.Uri.file(userPgbsdindent)
@@ -402,8 +407,9 @@ export class PgindentDocumentFormatterProvider implements vscode.DocumentFormatt
     }
     
     private async getPgindent(workspace: vscode.Uri) {
-        if (this.savedPgindentPath) {
-            return this.savedPgindentPath;
+        const savedPgindentPath = this.savedPgindentPath.get(workspace.toString());
+        if (savedPgindentPath) {
+            return savedPgindentPath;
         }
         
         const pgindentPath = getWorkspacePgSrcFile(
@@ -413,7 +419,7 @@ export class PgindentDocumentFormatterProvider implements vscode.DocumentFormatt
             throw new FormattingError('could not find pgindent');
         }
         
-        this.savedPgindentPath = pgindentPath;
+        this.savedPgindentPath.set(workspace.toString(), pgindentPath);
         return pgindentPath;
     }
 
@@ -457,8 +463,8 @@ export class PgindentDocumentFormatterProvider implements vscode.DocumentFormatt
         const formatted = await utils.readFile(document);
 
         /* On success cache binaries paths */
-        this.savedPgbsdPath = pg_bsd_indent;
-        this.savedPgindentPath = pgindent;
+        this.savedPgbsdPath.set(workspace.toString(), pg_bsd_indent);
+        this.savedPgindentPath.set(workspace.toString(), pgindent);
 
         return formatted;
     }
@@ -503,7 +509,7 @@ export class PgindentDocumentFormatterProvider implements vscode.DocumentFormatt
         }
 
         logger.info('pg_bsd_indent seems to be not installed - trying to install');
-        this.savedPgbsdPath = undefined;
+        this.savedPgbsdPath.delete(workspace.toString());
         pgBsdIndent = await this.findPgBsdIndentOrBuild(workspace, pgindent);
         return await this.runPgindentInternal(
             originalDocument, document, pgBsdIndent, pgindent, workspace);
@@ -533,7 +539,7 @@ export class PgindentDocumentFormatterProvider implements vscode.DocumentFormatt
     async provideDocumentFormattingEdits(document: vscode.TextDocument, 
                                          _options: vscode.FormattingOptions,
                                          _token: vscode.CancellationToken) {
-        const workspace = getWorkspaceFolder();
+        const workspace = getWorkspaceFolder(document.uri);
         logger.debug('formatting document', document.uri.fsPath);
         let indented;
         try {
@@ -570,7 +576,7 @@ export async function showFormatterDiffCommand(formatter: PgindentDocumentFormat
     }
 
     const document = vscode.window.activeTextEditor.document;
-    const workspace = getWorkspaceFolder();
+    const workspace = getWorkspaceFolder(document.uri);
     let parsed;
     try {
         parsed = await formatter.indentFileWithTemp(workspace, document);
@@ -591,7 +597,8 @@ export async function showFormatterDiffCommand(formatter: PgindentDocumentFormat
     }
 }
 
-export function setupFormatting(context: vscode.ExtensionContext, config: Configuration) {
+export function setupFormatting(context: vscode.ExtensionContext,
+                                config: ConfigurationRegistry) {
     const formatter = new PgindentDocumentFormatterProvider(config);
     const d = vscode.languages.registerDocumentFormattingEditProvider({
         language: 'c',
@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+
+import * as vars from './variables';
+import { DebuggerNotAvailableError, EvaluationError } from './debugger';
+import { Log as logger } from './logger';
+
+/* Max amount of nodes in graph, see 'walkVariableTree' for reasons */
+const maxGraphNodes = 256;
+
+/*
+ * How deep we go through members which are not nodes themselves
+ * (embedded structs, List and Bitmapset elements).
+ */
+const maxMemberDepth = 4;
+
+/* Max length of description in node label */
+const maxLabelDescriptionLength = 80;
+
+interface GraphNode {
+    id: string;
+    variable: vars.NodeVariable;
+}
+
+export function escapeDot(str: string) {
+    return str.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/*
+ * Build label for edge from path of members, i.e. 'plan.lefttree',
+ * 'args[0]' or 'relids(1)'
+ */
+export function joinMemberPath(prefix: string, name: string) {
+    if (name.startsWith('$')) {
+        /* Special members, i.e. '$elements$' */
+        return prefix;
+    }
+
+    if (name.startsWith('[')) {
+        return `${prefix}${name}`;
+    }
+
+    if (/^\d+$/.test(name)) {
+        /* Bitmapset element */
+        return `${prefix}(${name})`;
+    }
+
+    return prefix ? `${prefix}.${name}` : name;
+}
+
+/*
+ * Member is not a graph node, but we should look inside it for
+ * references to other nodes.
+ */
+function isTransparentMember(variable: vars.Variable) {
+    if (variable instanceof vars.ListNodeVariable) {
+        return true;
+    }
+
+    if (variable instanceof vars.NodeVariable) {
+        return variable.realNodeTag === 'Bitmapset';
+    }
+
+    /* Special members, i.e. '$elements$' or Bitmapset elements */
+    if (!variable.type) {
+        return true;
+    }
+
+    return    variable instanceof vars.RealVariable
+           && variable.getTypeProperties().isValueStruct();
+}
+
+class DotGraphBuilder {
+    private nodes = new Map<string, GraphNode>();
+    private queue: GraphNode[] = [];
+    private lines: string[] = [];
+
+    private getNode(variable: vars.NodeVariable) {
+        /* Same pointer - same node, so shared subtrees are shown once */
+        const pointer = variable.getPointer() ?? variable.value;
+        let node = this.nodes.get(pointer);
+        if (!node) {
+            node = {id: `n${this.nodes.size}`, variable};
+            this.nodes.set(pointer, node);
+            this.queue.push(node);
+        }
+
+        return node;
+    }
+
+    private async getLabel(variable: vars.NodeVariable) {
+        const item = await variable.getTreeItem();
+        let description = typeof item.description === 'string' ? item.description : '';
+        if (description === variable.value) {
+            /* Plain pointer value is useless */
+            description = '';
+        }
+
+        if (maxLabelDescriptionLength < description.length) {
+            description = description.substring(0, maxLabelDescriptionLength) + '...';
+        }
+
+        return description
+            ? `${variable.realNodeTag}\\n${escapeDot(description)}`
+            : variable.realNodeTag;
+    }
+
+    private async addEdges(from: GraphNode, variable: vars.Variable,
+                           prefix: string, depth: number) {
+        const children = await variable.getChildren();
+        if (!children) {
+            return;
+        }
+
+        for (const child of children) {
+            const path = joinMemberPath(prefix, child.name);
+            if (isTransparentMember(child)) {
+                if (depth < maxMemberDepth) {
+                    await this.addEdges(from, child, path, depth + 1);
+                }
+                continue;
+            }
+
+            if (!(child instanceof vars.NodeVariable)) {
+                continue;
+            }
+
+            const to = this.getNode(child);
+            this.lines.push(`    ${from.id} -> ${to.id} [label="${escapeDot(path)}"];`);
+        }
+    }
+
+    async build(root: vars.NodeVariable) {
+        this.getNode(root);
+
+        let processed = 0;
+        const expanded = new Set<string>();
+        while (processed < this.queue.length) {
+            const node = this.queue[processed++];
+
+            /* Nodes over limit are shown, but not expanded */
+            if (this.nodes.size < maxGraphNodes) {
+                expanded.add(node.id);
+                await this.addEdges(node, node.variable, '', 0);
+            }
+        }
+
+        const nodeLines = [];
+        for (const node of this.queue) {
+            const label = await this.getLabel(node.variable);
+            const style = expanded.has(node.id) ? '' : ', style=dashed';
+            nodeLines.push(`    ${node.id} [label="${label}"${style}];`);
+        }
+
+        return [
+            `digraph "${escapeDot(root.name)}" {`,
+            '    node [shape=box, fontname="monospace"];',
+            '    edge [fontname="monospace", fontsize=10];',
+            ...nodeLines,
+            ...this.lines,
+            '}',
+        ].join('\n');
+    }
+}
+
+async function openDotDocument(name: string, content: string) {
+    /* Use '.dot' extension, so Graphviz extensions can pick it up */
+    const uri = vscode.Uri.parse(`untitled:${name.replace(/[^a-zA-Z0-9_]/g, '_')}.dot`);
+    const document = await vscode.workspace.openTextDocument(uri);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, new vscode.Range(0, 0, document.lineCount, 0), content);
+    await vscode.workspace.applyEdit(edit);
+    await vscode.window.showTextDocument(document);
+}
+
+export async function exportNodeToDotCommand(pgvars: vars.PgVariablesViewProvider,
+                                             ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    if (!args.length) {
+        return;
+    }
+
+    const variable = args[0];
+    if (!(variable instanceof vars.NodeVariable)) {
+        vscode.window.showWarningMessage('Selected variable is not a Node');
+        return;
+    }
+
+    let dot;
+    try {
+        dot = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Building graph for ${variable.name}`,
+        }, async () => await new DotGraphBuilder().build(variable));
+    } catch (err) {
+        if (err instanceof DebuggerNotAvailableError) {
+            return;
+        }
+
+        if (!(err instanceof EvaluationError)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not build graph for', variable.name);
+        vscode.window.showErrorMessage(`Could not build graph for ${variable.name}`);
+        return;
+    }
+
+    await openDotDocument(variable.name, dot);
+}
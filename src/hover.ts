@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+
+import * as vars from './variables';
+import { DebuggerNotAvailableError, EvaluationError,
+         getStructNameFromType } from './debugger';
+import { Log as logger } from './logger';
+
+/*
+ * How many children of variable are shown in hover.
+ * Hover must be small, for more use 'PG Variables' view.
+ */
+const maxHoverChildren = 8;
+
+/**
+ * Format header of hover: name, declared type and real NodeTag if it
+ * differs, i.e. '**node**: `Node *` \\[OpExpr\\]'
+ */
+export function formatHoverHeader(name: string, declaredType: string, realNodeTag: string) {
+    let header = `**${name}**: \`${declaredType}\``;
+    if (getStructNameFromType(declaredType) !== realNodeTag) {
+        header += ` \\[${realNodeTag}\\]`;
+    }
+    return header;
+}
+
+/**
+ * Format children of variable shown in hover as 'label = description'.
+ * Only first 'maxHoverChildren' children are formatted.
+ *
+ * @param children Pairs of label and description of child
+ */
+export function formatHoverChildren(children: [string, string | undefined][]) {
+    return children.slice(0, maxHoverChildren).map(([label, description]) =>
+        description ? `${label} = ${description}` : label);
+}
+
+class PgHoverProvider implements vscode.HoverProvider {
+    constructor(private pgvars: vars.PgVariablesViewProvider) { }
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position) {
+        if (!this.pgvars.isInDebug()) {
+            return;
+        }
+
+        const range = document.getWordRangeAtPosition(position, /[a-zA-Z_][a-zA-Z0-9_]*/);
+        if (!range) {
+            return;
+        }
+
+        const name = document.getText(range);
+        try {
+            const variable = await this.getVariable(name);
+            if (!variable) {
+                return;
+            }
+
+            return new vscode.Hover(await this.formatHover(variable), range);
+        } catch (err) {
+            if (err instanceof DebuggerNotAvailableError) {
+                return;
+            }
+
+            if (err instanceof EvaluationError) {
+                /* Hovered not a variable, i.e. keyword or function name */
+                logger.debug('could not evaluate hovered', name, err.message);
+                return;
+            }
+
+            logger.error(err, 'could not get hover for', name);
+        }
+    }
+
+    private async getVariable(name: string) {
+        const debug = this.pgvars.getDebug();
+        const frameId = await debug.getCurrentFrameId();
+        if (frameId === undefined) {
+            return;
+        }
+
+        /* If this is local variable, then it is already created */
+        const variables = await this.pgvars.getFrameVariables(frameId);
+        let variable = variables?.find(v => v.name === name);
+        if (!variable) {
+            const context = await this.pgvars.getCurrentExecContext(frameId);
+            const result = await context.debug.evaluate(name, frameId, 'hover');
+            if (!result.type) {
+                return;
+            }
+
+            const root = new vars.VariablesRoot([], context);
+            variable = await vars.Variable.create({
+                name,
+                type: result.type,
+                value: result.result,
+                variablesReference: result.variablesReference,
+                memoryReference: result.memoryReference,
+            }, frameId, context, root);
+            root.topLevelVariables.push(variable);
+        }
+
+        /* Raw values are shown by debugger itself */
+        if (!(variable instanceof vars.NodeVariable)) {
+            return;
+        }
+
+        return variable;
+    }
+
+    private async formatHover(variable: vars.NodeVariable) {
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(formatHoverHeader(variable.name, variable.declaredType,
+                                            variable.realNodeTag));
+        md.appendMarkdown('\n\n');
+
+        const summary = await vars.getVariableSummary(variable);
+        if (summary) {
+            md.appendCodeblock(summary, 'c');
+        }
+
+        const children = await variable.getChildren();
+        if (!children?.length) {
+            return md;
+        }
+
+        const items: [string, string | undefined][] = [];
+        for (const child of children.slice(0, maxHoverChildren)) {
+            const item = await child.getTreeItem();
+            const label = typeof item.label === 'string'
+                ? item.label
+                : item.label?.label ?? child.name;
+            items.push([label, typeof item.description === 'string' ? item.description : undefined]);
+        }
+
+        for (const line of formatHoverChildren(items)) {
+            md.appendMarkdown('- ');
+            md.appendText(line);
+            md.appendMarkdown('\n');
+        }
+
+        if (maxHoverChildren < children.length) {
+            md.appendMarkdown(`- ... ${children.length - maxHoverChildren} more\n`);
+        }
+
+        return md;
+    }
+}
+
+export function setupHover(context: vscode.ExtensionContext,
+                           pgvars: vars.PgVariablesViewProvider) {
+    const provider = new PgHoverProvider(pgvars);
+    const d = vscode.languages.registerHoverProvider({language: 'c'}, provider);
+    context.subscriptions.push(d);
+}
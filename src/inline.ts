@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+
+import * as vars from './variables';
+import { DebuggerNotAvailableError } from './debugger';
+import { Log as logger } from './logger';
+
+/*
+ * Simple C identifier regex. We do not parse source code, so member
+ * accesses (i.e. 'rel->relid') also match, but they are filtered out
+ * because there are no such local variables.  Word boundary prevents
+ * matching suffixes of numbers, i.e. 'L' in '1L'.
+ */
+const identifierRegex = /\b[a-zA-Z_][a-zA-Z0-9_]*/g;
+
+/**
+ * Find identifiers in line of source code.
+ *
+ * @returns Pairs of identifier and it's position in line
+ */
+export function findIdentifiers(text: string): [string, number][] {
+    return Array.from(text.matchAll(identifierRegex), m => [m[0], m.index ?? 0]);
+}
+
+class PgInlineValuesProvider implements vscode.InlineValuesProvider {
+    readonly onDidChangeInlineValues: vscode.Event<void>;
+
+    constructor(private pgvars: vars.PgVariablesViewProvider) {
+        /* 
+         * Variables are updated on every step.  Changes of single variable
+         * (i.e. loaded more container elements) do not affect inline values.
+         */
+        this.onDidChangeInlineValues = (listener, thisArgs, disposables) =>
+            pgvars.onDidChangeTreeData(v => {
+                if (v === undefined) {
+                    listener.call(thisArgs);
+                }
+            }, undefined, disposables);
+    }
+
+    async provideInlineValues(document: vscode.TextDocument,
+                              viewPort: vscode.Range,
+                              context: vscode.InlineValueContext) {
+        if (!this.pgvars.isInDebug()) {
+            return;
+        }
+
+        try {
+            return await this.getInlineValues(document, viewPort, context);
+        } catch (err) {
+            if (err instanceof DebuggerNotAvailableError) {
+                return;
+            }
+
+            logger.error(err, 'could not get inline values');
+        }
+    }
+
+    private async getInlineValues(document: vscode.TextDocument,
+                                  viewPort: vscode.Range,
+                                  context: vscode.InlineValueContext) {
+        const variables = await this.pgvars.getFrameVariables(context.frameId);
+        if (!variables?.length) {
+            return;
+        }
+
+        const frameVariables = new Map(variables.map(v => [v.name, v]));
+        const values: vscode.InlineValue[] = [];
+        const processed = new Set<string>();
+
+        /*
+         * Show value only once - on the nearest line before current
+         * execution point, so traverse lines backwards.
+         */
+        const lastLine = Math.min(viewPort.end.line, context.stoppedLocation.end.line);
+        for (let line = lastLine; viewPort.start.line <= line; --line) {
+            const text = document.lineAt(line).text;
+            for (const [name, index] of findIdentifiers(text)) {
+                if (processed.has(name)) {
+                    continue;
+                }
+
+                const variable = frameVariables.get(name);
+                if (!variable) {
+                    continue;
+                }
+
+                processed.add(name);
+                const summary = await vars.getVariableSummary(variable);
+                if (!summary) {
+                    continue;
+                }
+
+                const range = new vscode.Range(line, index, line, index + name.length);
+                values.push(new vscode.InlineValueText(range, `${name} = ${summary}`));
+            }
+        }
+
+        return values;
+    }
+}
+
+export function setupInlineValues(context: vscode.ExtensionContext,
+                                  pgvars: vars.PgVariablesViewProvider) {
+    const provider = new PgInlineValuesProvider(pgvars);
+    const d = vscode.languages.registerInlineValuesProvider({language: 'c'}, provider);
+    context.subscriptions.push(d);
+}
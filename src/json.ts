@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+
+import * as vars from './variables';
+import { DebuggerNotAvailableError, EvaluationError } from './debugger';
+import { VsCodeSettings } from './configuration';
+import { Log as logger } from './logger';
+
+/**
+ * JSON representation of variable.  Designed to be stable, so it
+ * can be attached to bug reports and processed with scripts.
+ */
+export interface VariableJson {
+    name: string;
+    /* Declared type of variable */
+    type: string;
+    /* Real type after casts (i.e. by NodeTag) */
+    realType?: string;
+    /* NodeTag for 'Node *' variables */
+    nodeTag?: string;
+    value: string;
+    /* Description shown in variables view (i.e. Expr repr) */
+    description?: string;
+    /* Variable has children, but they are not exported (depth limit, cycle) */
+    truncated?: boolean;
+    children?: VariableJson[];
+}
+
+export function createVariableJson(variable: vars.Variable, item: vscode.TreeItem,
+                                   children: VariableJson[] | undefined, truncated: boolean) {
+    const json: VariableJson = {
+        name: variable.name,
+        type: variable.declaredType,
+        value: variable.value,
+    };
+
+    if (variable.type !== variable.declaredType) {
+        json.realType = variable.type;
+    }
+
+    if (variable instanceof vars.NodeVariable) {
+        json.nodeTag = variable.realNodeTag;
+    }
+
+    if (typeof item.description === 'string' && item.description !== variable.value) {
+        json.description = item.description;
+    }
+
+    if (truncated) {
+        json.truncated = true;
+    }
+
+    if (children) {
+        json.children = children;
+    }
+
+    return json;
+}
+
+export async function exportVariableToJsonCommand(pgvars: vars.PgVariablesViewProvider,
+                                                  ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    if (!args.length) {
+        return;
+    }
+
+    const variable = args[0];
+    if (!(variable instanceof vars.Variable)) {
+        return;
+    }
+
+    const maxDepth = VsCodeSettings.getExportMaxDepth();
+    let json;
+    try {
+        json = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Exporting ${variable.name}`,
+        }, async () => await vars.walkVariableTree(variable, maxDepth, createVariableJson));
+    } catch (err) {
+        if (err instanceof DebuggerNotAvailableError) {
+            return;
+        }
+
+        if (!(err instanceof EvaluationError)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not export variable', variable.name);
+        vscode.window.showErrorMessage(`Could not export variable ${variable.name}`);
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+        content: JSON.stringify(json, undefined, 2),
+        language: 'json',
+    });
+    vscode.window.showTextDocument(document);
+}
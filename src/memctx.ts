@@ -0,0 +1,636 @@
+import * as vscode from 'vscode';
+
+import * as vars from './variables';
+import * as dbg from './debugger';
+import * as dap from './dap';
+import { ExtensionId, VsCodeSettings } from './configuration';
+import { Log as logger } from './logger';
+
+/**
+ * Maximum number of blocks/free chunks we are going to traverse to
+ * calculate memory context totals. Some contexts (i.e. CacheMemoryContext
+ * or ExecutorState during large sort) can contain lots of blocks, and
+ * walking all of them will freeze UI for a long time.
+ */
+const maxTraversedBlocks = 1024;
+
+/**
+ * Number of freelists in AllocSet - ALLOCSET_NUM_FREELISTS
+ */
+const allocSetFreelistsCount = 11;
+
+/**
+ * Extract first hex number (pointer) from evaluation result.
+ * Result may contain additional data, i.e. string for 'char *'.
+ */
+function extractPointer(value: string) {
+    const match = /0x[0-9a-fA-F]+/.exec(value);
+    return match?.[0];
+}
+
+export function isMemoryContextTag(tag: string) {
+    switch (tag) {
+        case 'T_AllocSetContext':
+        case 'T_SlabContext':
+        case 'T_GenerationContext':
+        case 'T_BumpContext':
+            return true;
+    }
+
+    return false;
+}
+
+interface MemoryContextTotals {
+    /* Total space allocated by blocks */
+    totalspace: number;
+    /* Number of blocks, 'undefined' if not known */
+    nblocks?: number;
+    /* Free space in blocks (and free chunks) */
+    freespace?: number;
+    /* Number of free chunks in freelists */
+    freechunks?: number;
+    /* Traversal stopped due to 'maxTraversedBlocks' limit */
+    truncated: boolean;
+}
+
+/**
+ * Memory context shown in "Memory Contexts" view.
+ * Stores only evaluated data, so can not be reused between steps.
+ */
+class MemoryContextItem {
+    totals?: MemoryContextTotals;
+
+    constructor(readonly pointer: string,
+                readonly name: string,
+                readonly ident: string | undefined,
+                readonly type: string,
+                readonly hasChildren: boolean,
+                readonly parent: MemoryContextItem | undefined) { }
+
+    /* 'AllocSetContext' -> 'AllocSet' */
+    get shortType() {
+        return this.type.replace(/^T_/, '').replace(/Context$/, '');
+    }
+
+    formatTotals() {
+        const t = this.totals;
+        if (!t) {
+            return '???';
+        }
+
+        const plus = t.truncated ? '+' : '';
+        let repr = `${t.totalspace}${plus} total`;
+        if (t.nblocks !== undefined) {
+            repr += ` in ${t.nblocks}${plus} blocks`;
+        }
+
+        if (t.freespace !== undefined) {
+            repr += `; ${t.freespace}${plus} free`;
+            if (t.freechunks !== undefined) {
+                repr += ` (${t.freechunks}${plus} chunks)`;
+            }
+            repr += `; ${t.totalspace - t.freespace} used`;
+        }
+
+        return repr;
+    }
+}
+
+class MemoryContextsViewProvider implements vscode.TreeDataProvider<MemoryContextItem>,
+                                            vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private subscription: vscode.Disposable;
+
+    /*
+     * Size of chunk header used to calculate free space in AllocSet freelists.
+     * Cached for current step.
+     */
+    private chunkHeaderSize?: number;
+
+    constructor(private pgvars: vars.PgVariablesViewProvider) {
+        /* Tree of memory contexts changes on every step */
+        this.subscription = pgvars.onDidChangeTreeData(() => this.refresh());
+    }
+
+    refresh() {
+        this.chunkHeaderSize = undefined;
+        this._onDidChangeTreeData.fire();
+    }
+
+    async getTreeItem(element: MemoryContextItem) {
+        if (!element.totals) {
+            try {
+                element.totals = await this.getTotals(element);
+            } catch (err) {
+                if (!(err instanceof dbg.EvaluationError)) {
+                    throw err;
+                }
+
+                logger.error(err, 'could not get totals for memory context', element.name);
+            }
+        }
+
+        let state = vscode.TreeItemCollapsibleState.None;
+        if (element.hasChildren) {
+            /* Expand TopMemoryContext right away */
+            state = element.parent
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.Expanded;
+        }
+
+        const item = new vscode.TreeItem(element.name, state);
+        const totals = `${element.shortType}: ${element.formatTotals()}`;
+        item.description = element.ident ? `${element.ident} ${totals}` : totals;
+        item.tooltip = `(${element.type.replace(/^T_/, '')} *) ${element.pointer}`;
+        item.contextValue = 'memoryContext';
+        return item;
+    }
+
+    async getChildren(element?: MemoryContextItem) {
+        const debug = this.pgvars.debug;
+        if (!debug) {
+            return;
+        }
+
+        try {
+            const frameId = await debug.getCurrentFrameId();
+            if (frameId === undefined) {
+                return;
+            }
+
+            const context = await this.pgvars.getCurrentExecContext(frameId);
+            if (!element) {
+                const top = await context.debug.evaluate('TopMemoryContext', frameId);
+                const pointer = extractPointer(top.result);
+                if (!pointer || dbg.pointerIsNull(pointer)) {
+                    return;
+                }
+
+                const item = await this.createItem(context, frameId, pointer, undefined);
+                return item ? [item] : undefined;
+            }
+
+            return await this.getChildContexts(context, frameId, element);
+        } catch (err) {
+            if (err instanceof dbg.DebuggerNotAvailableError) {
+                return;
+            }
+
+            logger.error(err, 'could not get memory contexts');
+            return;
+        }
+    }
+
+    private async getChildContexts(context: vars.ExecContext, frameId: number,
+                                   parent: MemoryContextItem) {
+        const children = [];
+        const max = VsCodeSettings.getMaxContainerLength();
+        let pointer = await this.evaluatePointer(
+            context, frameId, `((MemoryContext)${parent.pointer})->firstchild`);
+        while (pointer && !dbg.pointerIsNull(pointer)) {
+            if (max <= children.length) {
+                logger.debug('memory context', parent.name, 'has more than', max,
+                             'children - truncating');
+                break;
+            }
+
+            const child = await this.createItem(context, frameId, pointer, parent);
+            if (!child) {
+                break;
+            }
+
+            children.push(child);
+            pointer = await this.evaluatePointer(
+                context, frameId, `((MemoryContext)${pointer})->nextchild`);
+        }
+
+        return children;
+    }
+
+    private async evaluatePointer(context: vars.ExecContext, frameId: number, expr: string) {
+        const result = await context.debug.evaluate(expr, frameId);
+        return extractPointer(result.result);
+    }
+
+    private async evaluateNumber(context: vars.ExecContext, frameId: number, expr: string) {
+        const result = await context.debug.evaluate(expr, frameId);
+        const value = Number(result.result);
+        if (Number.isNaN(value)) {
+            throw new dbg.EvaluationError(`failed to evaluate number: ${expr} = ${result.result}`);
+        }
+        return value;
+    }
+
+    private async createItem(context: vars.ExecContext, frameId: number,
+                             pointer: string, parent: MemoryContextItem | undefined) {
+        const tag = await context.debug.evaluate(`((Node *)${pointer})->type`, frameId);
+        if (!isMemoryContextTag(tag.result)) {
+            logger.warn('pointer', pointer, 'is not a memory context, NodeTag:', tag.result);
+            return;
+        }
+
+        const nameResult = await context.debug.evaluate(
+            `((MemoryContext)${pointer})->name`, frameId);
+        const name = context.debug.extractString(nameResult) ?? '???';
+
+        let ident;
+        if (context.pgVersionAtLeast(11_00_00)) {
+            try {
+                const identResult = await context.debug.evaluate(
+                    `((MemoryContext)${pointer})->ident`, frameId);
+                ident = context.debug.extractString(identResult) || undefined;
+            } catch (err) {
+                if (!(err instanceof dbg.EvaluationError)) {
+                    throw err;
+                }
+            }
+        }
+
+        const firstchild = await this.evaluatePointer(
+            context, frameId, `((MemoryContext)${pointer})->firstchild`);
+        const hasChildren = !!firstchild && !dbg.pointerIsNull(firstchild);
+        return new MemoryContextItem(pointer, name, ident, tag.result,
+                                     hasChildren, parent);
+    }
+
+    private async getTotals(element: MemoryContextItem) {
+        const debug = this.pgvars.getDebug();
+        const frameId = await debug.getCurrentFrameId();
+        if (frameId === undefined) {
+            return;
+        }
+
+        const context = await this.pgvars.getCurrentExecContext(frameId);
+        switch (element.type) {
+            case 'T_AllocSetContext':
+                return await this.getAllocSetTotals(context, frameId, element.pointer);
+            case 'T_GenerationContext':
+                return await this.getDlistBlocksTotals(context, frameId, element.pointer,
+                                                       'GenerationContext', 'GenerationBlock');
+            case 'T_BumpContext':
+                return await this.getDlistBlocksTotals(context, frameId, element.pointer,
+                                                       'BumpContext', 'BumpBlock');
+        }
+
+        /*
+         * Slab stores blocks in several lists depending on number of free
+         * chunks and layout has changed several times, so free space is
+         * not shown.  But all blocks have the same size, so number of
+         * blocks is derived from allocated space tracked since 13 version.
+         */
+        if (context.pgVersionAtLeast(13_00_00)) {
+            const totalspace = await this.evaluateNumber(
+                context, frameId, `((MemoryContext)${element.pointer})->mem_allocated`);
+            const blockSize = await this.evaluateNumber(
+                context, frameId, `((SlabContext *)${element.pointer})->blockSize`);
+            const nblocks = 0 < blockSize ? Math.floor(totalspace / blockSize) : undefined;
+            return {totalspace, nblocks, truncated: false};
+        }
+    }
+
+    private async getChunkHeaderSize(context: vars.ExecContext, frameId: number) {
+        if (this.chunkHeaderSize !== undefined) {
+            return this.chunkHeaderSize;
+        }
+
+        const expr = context.pgVersionAtLeast(16_00_00)
+            ? 'sizeof(MemoryChunk)'
+            : 'sizeof(struct AllocChunkData)';
+        return this.chunkHeaderSize = await this.evaluateNumber(context, frameId, expr);
+    }
+
+    /*
+     * Calculate totals the same way 'AllocSetStats' does: walk all blocks
+     * and chunks in freelists.
+     */
+    private async getAllocSetTotals(context: vars.ExecContext, frameId: number,
+                                    pointer: string): Promise<MemoryContextTotals> {
+        let totalspace = 0;
+        let freespace = 0;
+        let nblocks = 0;
+        let freechunks = 0;
+        let truncated = false;
+
+        let block = await this.evaluatePointer(context, frameId,
+                                               `((AllocSet)${pointer})->blocks`);
+        while (block && !dbg.pointerIsNull(block)) {
+            if (maxTraversedBlocks <= nblocks) {
+                truncated = true;
+                break;
+            }
+
+            totalspace += await this.evaluateNumber(
+                context, frameId, `(long)(((AllocBlock)${block})->endptr - (char *)${block})`);
+            freespace += await this.evaluateNumber(
+                context, frameId,
+                `(long)(((AllocBlock)${block})->endptr - ((AllocBlock)${block})->freeptr)`);
+            ++nblocks;
+            block = await this.evaluatePointer(context, frameId,
+                                               `((AllocBlock)${block})->next`);
+        }
+
+        /*
+         * In freelist chunks next pointer is stored in the chunk itself:
+         * starting from 16 it is AllocFreeListLink located right after
+         * the header, and before it was 'aset' member of the header.
+         */
+        const hdrsz = await this.getChunkHeaderSize(context, frameId);
+        const getNextExpr = context.pgVersionAtLeast(16_00_00)
+            ? (c: string) => `((AllocFreeListLink *)((char *)${c} + sizeof(MemoryChunk)))->next`
+            : (c: string) => `(void *)((AllocChunk)${c})->aset`;
+        for (let i = 0; i < allocSetFreelistsCount && !truncated; i++) {
+            /* ALLOC_MINBITS = 3 */
+            const chunkSize = 8 << i;
+            let chunk = await this.evaluatePointer(context, frameId,
+                                                   `((AllocSet)${pointer})->freelist[${i}]`);
+            while (chunk && !dbg.pointerIsNull(chunk)) {
+                if (maxTraversedBlocks <= freechunks) {
+                    truncated = true;
+                    break;
+                }
+
+                freespace += chunkSize + hdrsz;
+                ++freechunks;
+                chunk = await this.evaluatePointer(context, frameId, getNextExpr(chunk));
+            }
+        }
+
+        return {totalspace, nblocks, freespace, freechunks, truncated};
+    }
+
+    /*
+     * Generation and Bump contexts store blocks in 'blocks' dlist,
+     * and block has 'node' as first member.
+     */
+    private async getDlistBlocksTotals(context: vars.ExecContext, frameId: number,
+                                       pointer: string, contextType: string,
+                                       blockType: string): Promise<MemoryContextTotals> {
+        let totalspace = 0;
+        let freespace = 0;
+        let nblocks = 0;
+        let truncated = false;
+
+        const head = await this.evaluatePointer(
+            context, frameId, `&((${contextType} *)${pointer})->blocks.head`);
+        if (!head) {
+            throw new dbg.EvaluationError(`could not get blocks list head of ${contextType}`);
+        }
+
+        let node = await this.evaluatePointer(
+            context, frameId, `((${contextType} *)${pointer})->blocks.head.next`);
+        while (node && !dbg.pointerIsNull(node) && BigInt(node) !== BigInt(head)) {
+            if (maxTraversedBlocks <= nblocks) {
+                truncated = true;
+                break;
+            }
+
+            const block = `((${blockType} *)${node})`;
+            totalspace += await this.evaluateNumber(
+                context, frameId, `(long)(${block}->endptr - (char *)${node})`);
+            freespace += await this.evaluateNumber(
+                context, frameId, `(long)(${block}->endptr - ${block}->freeptr)`);
+            ++nblocks;
+            node = await this.evaluatePointer(context, frameId, `${block}->node.next`);
+        }
+
+        return {totalspace, nblocks, freespace, truncated};
+    }
+
+    dispose() {
+        this.subscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+/**
+ * Get pointer value from command arguments: it can be run for
+ * 'pg variables' or builtin 'Variables' views.
+ */
+function getPointerFromArgs(args: unknown[], debug: dbg.IDebuggerFacade) {
+    const arg = args[0];
+    if (arg instanceof vars.Variable) {
+        return extractPointer(arg.getPointer() ?? arg.value);
+    }
+
+    if (   typeof arg === 'object' && !!arg
+        && 'variable' in arg && typeof arg.variable === 'object' && !!arg.variable) {
+        const variable = arg.variable as dap.DebugVariable;
+        if (typeof variable.value !== 'string') {
+            return;
+        }
+
+        return extractPointer(debug.getPointer(variable) ?? variable.value);
+    }
+}
+
+/**
+ * Get range of valid MemoryContextMethodID in 'MemoryChunk' header (16+).
+ *
+ * @returns Tuple [mask, min id, max id]
+ */
+export function getMemoryChunkMethodIds(pgversion: number | undefined): [number, number, number] {
+    /*
+     * 17 widened the field to 4 bits: ASET (3), GENERATION, SLAB,
+     * ALIGNED_REDIRECT and BUMP (7).  Ids 0-2 are reserved for never
+     * used memory and glibc malloc'd chunks, 15 - for wiped memory.
+     */
+    if (pgversion !== undefined && 17_00_00 <= pgversion) {
+        return [15, 3, 7];
+    }
+
+    /*
+     * 16 uses 3 bits: ASET (2), GENERATION, SLAB and ALIGNED_REDIRECT (5).
+     * Ids 0-1 occur in never used memory and glibc malloc'd chunks,
+     * 6-7 - in wiped memory.
+     */
+    return [7, 2, 5];
+}
+
+/*
+ * Types of blocks, which store pointer to memory context, in order
+ * of MemoryContextMethodID starting from ASET.  ALIGNED_REDIRECT chunks
+ * point to other chunk and Bump chunks do not have header in production
+ * builds, so they are not decoded.
+ */
+const memoryChunkBlockTypes: ([string, string] | undefined)[] = [
+    /* [block type, member with memory context] */
+    ['AllocBlock', 'aset'],
+    ['GenerationBlock *', 'context'],
+    ['SlabBlock *', 'slab'],
+    undefined,
+    undefined,
+];
+
+/*
+ * Offset from chunk to it's block is stored in upper bits of header.
+ * In 17 lowest bit of offset overlaps with the value bits, but offset
+ * is MAXALIGN'ed, so this bit is just masked out.
+ */
+const memoryChunkBlockOffsetBit = 34n;
+
+/*
+ * Decode owning memory context from 'MemoryChunk' header the same way
+ * 'GetMemoryChunkContext' does, but only by reading memory: function does
+ * not validate header, so it can crash backend on garbage, and can not
+ * be invoked in post-mortem mode.
+ */
+async function getMemoryChunkContext(context: vars.ExecContext, frameId: number,
+                                     pointer: string) {
+    const chunk = BigInt(pointer) - 8n;
+    const result = await context.debug.evaluate(
+        `*(unsigned long *)0x${chunk.toString(16)}`, frameId);
+    if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(result.result)) {
+        return;
+    }
+
+    const hdrmask = BigInt(result.result);
+    const [mask, minId, maxId] = getMemoryChunkMethodIds(context.pgversion);
+    const methodId = Number(hdrmask & BigInt(mask));
+    if (!(minId <= methodId && methodId <= maxId)) {
+        logger.debug('chunk header of', pointer, 'has invalid method id', methodId);
+        return;
+    }
+
+    const blockType = memoryChunkBlockTypes[methodId - minId];
+    if (!blockType) {
+        return;
+    }
+
+    const [type, member] = blockType;
+    const external = (hdrmask >> BigInt(mask.toString(2).length)) & 1n;
+    let block;
+    if (external) {
+        /* Large chunks are stored in dedicated block right after it's header */
+        if (type === 'SlabBlock *') {
+            return;
+        }
+
+        const headerType = type === 'AllocBlock' ? 'AllocBlockData' : 'GenerationBlock';
+        const size = await context.debug.evaluate(`sizeof(${headerType})`, frameId);
+        block = chunk - BigInt(size.result);
+    } else {
+        const offsetMask = context.pgVersionAtLeast(17_00_00) ? 0x3FFFFFFEn : 0x3FFFFFFFn;
+        block = chunk - ((hdrmask >> memoryChunkBlockOffsetBit) & offsetMask);
+    }
+
+    const blockExpr = `((${type})0x${block.toString(16)})`;
+
+    /* Chunk must be inside it's block (Slab does not track block end) */
+    if (type !== 'SlabBlock *') {
+        const endptr = await context.debug.evaluate(`(void *)${blockExpr}->endptr`, frameId);
+        const end = extractPointer(endptr.result);
+        if (!end || BigInt(end) <= BigInt(pointer) || BigInt(pointer) <= block) {
+            logger.debug('chunk', pointer, 'is outside of block', block.toString(16));
+            return;
+        }
+    }
+
+    const memctx = await context.debug.evaluate(`(void *)${blockExpr}->${member}`, frameId);
+    return extractPointer(memctx.result);
+}
+
+/**
+ * Find memory context which owns given pointer using chunk header.
+ * Only memory is read, so it also works in post-mortem mode.
+ *
+ * @returns Pointer to MemoryContext or undefined if header is not valid
+ */
+export async function getChunkMemoryContext(context: vars.ExecContext, frameId: number,
+                                            pointer: string) {
+    /* All chunks are MAXALIGN'ed */
+    if (BigInt(pointer) % 8n !== 0n) {
+        return;
+    }
+
+    let memctx;
+    if (context.pgVersionAtLeast(16_00_00)) {
+        memctx = await getMemoryChunkContext(context, frameId, pointer);
+    } else {
+        let expr;
+        if (context.pgVersionAtLeast(11_00_00)) {
+            /* Pointer to owning context is stored right before the chunk */
+            expr = `(void *)*(MemoryContext *)((char *)${pointer} - sizeof(void *))`;
+        } else {
+            expr = `(void *)((StandardChunkHeader *)((char *)${pointer} - sizeof(StandardChunkHeader)))->context`;
+        }
+
+        const result = await context.debug.evaluate(expr, frameId);
+        memctx = extractPointer(result.result);
+    }
+
+    if (!memctx || dbg.pointerIsNull(memctx)) {
+        return;
+    }
+
+    const tag = await context.debug.evaluate(`((Node *)${memctx})->type`, frameId);
+    if (!isMemoryContextTag(tag.result)) {
+        logger.debug('chunk header of', pointer, 'points to', memctx,
+                     'which is not a memory context:', tag.result);
+        return;
+    }
+
+    return memctx;
+}
+
+export async function findMemoryContextCommand(pgvars: vars.PgVariablesViewProvider,
+                                               ...args: unknown[]) {
+    const debug = pgvars.debug;
+    if (!debug) {
+        return;
+    }
+
+    const frameId = await debug.getCurrentFrameId();
+    if (frameId === undefined) {
+        vscode.window.showWarningMessage('Could not get current stack frame id to invoke functions');
+        return;
+    }
+
+    const context = await pgvars.getCurrentExecContext(frameId);
+    const pointer = getPointerFromArgs(args, context.debug);
+    if (!pointer || dbg.pointerIsNull(pointer)) {
+        vscode.window.showWarningMessage('Variable is not a valid pointer');
+        return;
+    }
+
+    let memctx;
+    try {
+        memctx = await getChunkMemoryContext(context, frameId, pointer);
+    } catch (err) {
+        if (!(err instanceof dbg.EvaluationError)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not get memory context for pointer', pointer);
+    }
+
+    if (!memctx) {
+        vscode.window.showWarningMessage(`Pointer ${pointer} is not allocated by palloc`);
+        return;
+    }
+
+    /* Owning context with all it's parents: "ExecutorState <- PortalContext <- ..." */
+    const path = [];
+    let current: string | undefined = memctx;
+    while (current && !dbg.pointerIsNull(current)) {
+        const name = await context.debug.evaluate(`((MemoryContext)${current})->name`, frameId);
+        path.push(context.debug.extractString(name) ?? '???');
+        const parent = await context.debug.evaluate(`((MemoryContext)${current})->parent`, frameId);
+        current = extractPointer(parent.result);
+    }
+
+    const tag = await context.debug.evaluate(`((Node *)${memctx})->type`, frameId);
+    vscode.window.showInformationMessage(
+        `Pointer ${pointer} is owned by "${path[0]}" (${tag.result.replace(/^T_/, '')} ${memctx}): ` +
+        path.join(' <- '));
+}
+
+export function setupMemoryContextsView(context: vscode.ExtensionContext,
+                                        pgvars: vars.PgVariablesViewProvider) {
+    const provider = new MemoryContextsViewProvider(pgvars);
+    const treeDisposable = vscode.window.registerTreeDataProvider(
+        `${ExtensionId}.memory-contexts-view`, provider);
+    context.subscriptions.push(treeDisposable, provider);
+    return provider;
+}
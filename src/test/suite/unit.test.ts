@@ -1,6 +1,51 @@
 import * as assert from 'assert';
+import * as vscode from 'vscode';
 
 import * as dbg from '../../debugger';
+import {
+    checkNodePointer,
+    decodeNullBitmap,
+    ElementsRange,
+    ExecContext,
+    ExecutableType,
+    formatJoinKeyword,
+    formatJoinPlanName,
+    formatLinePointer,
+    formatPathCost,
+    formatPathKeyOrdering,
+    formatPlanCost,
+    formatTargetEntryAlias,
+    getBitmapwordMembers,
+    getVariablePath,
+    isValidMemoryContextTag,
+    NodeVariable,
+    parseElementsRange,
+    PgVariablesViewProvider,
+    RealVariable,
+    StepValuesSnapshot,
+    Variable,
+    variableMatchesFilter,
+    VariablesRoot,
+    WatchGroupVariable,
+} from '../../variables';
+import { parseProcessTitle, PgProcessKind } from '../../attach';
+import { diffSnapshots, NodeSnapshot } from '../../compare';
+import { escapeDot, joinMemberPath } from '../../graph';
+import { formatHoverChildren, formatHoverHeader } from '../../hover';
+import { findIdentifiers } from '../../inline';
+import { createVariableJson, VariableJson } from '../../json';
+import { ConfigurationRegistry, parseConfiguration,
+         selectWorkspaceFolder } from '../../configuration';
+import { getWellKnownGlobals } from '../../constants';
+import { getMemoryChunkMethodIds } from '../../memctx';
+import { escapeHtml, renderTreeNode, TreeNode } from '../../visualizer';
+
+/* Variable without children to test functionality of base class */
+class TestVariable extends Variable {
+    async doGetChildren() {
+        return undefined;
+    }
+}
 
 suite('Unit', async function () {
     test('getStructNameFromType', function () {
@@ -74,4 +119,1036 @@ suite('Unit', async function () {
             assert.equal(actual, expected, `${type}: ${count}`);
         }
     });
+
+    test('getMemoryChunkMethodIds', function () {
+        const data: [number, number, number[], number[]][] = [
+            /* 3 bits: AllocSet .. AlignedRedirect */
+            [16_00_00, 7, [2, 3, 4, 5], [0, 1, 6, 7]],
+            [16_04_00, 7, [2, 3, 4, 5], [0, 1, 6, 7]],
+
+            /* 4 bits: AllocSet .. Bump */
+            [17_00_00, 15, [3, 4, 5, 6, 7], [0, 1, 2, 8, 15]],
+            [18_00_00, 15, [3, 4, 5, 6, 7], [0, 1, 2, 8, 15]],
+        ];
+
+        for (const [pgversion, expectedMask, valid, invalid] of data) {
+            const [mask, min, max] = getMemoryChunkMethodIds(pgversion);
+            assert.equal(mask, expectedMask, `${pgversion}`);
+            for (const id of valid) {
+                assert.ok(min <= id && id <= max, `${pgversion}: ${id} must be valid`);
+            }
+            for (const id of invalid) {
+                assert.ok(!(min <= id && id <= max), `${pgversion}: ${id} must be invalid`);
+            }
+        }
+    });
+
+    test('parseProcessTitle', function () {
+        const data: [string, PgProcessKind, string, string | undefined][] = [
+            /* Postmaster */
+            ['/usr/local/pgsql/bin/postgres -D data', PgProcessKind.Postmaster, 'postmaster', '/usr/local/pgsql/bin/postgres -D data'],
+
+            /* Client backends */
+            ['postgres: postgres regression [local] idle', PgProcessKind.Backend, 'postgres@regression', '[local] idle'],
+            ['postgres: user db 127.0.0.1(54321) idle in transaction', PgProcessKind.Backend, 'user@db', '127.0.0.1(54321) idle in transaction'],
+            ['postgres: main: postgres postgres [local] SELECT', PgProcessKind.Backend, 'postgres@postgres', '[local] SELECT'],
+
+            /* Auxiliary processes */
+            ['postgres: checkpointer', PgProcessKind.Auxiliary, 'checkpointer', undefined],
+            ['postgres: checkpointer process   ', PgProcessKind.Auxiliary, 'checkpointer', undefined],
+            ['postgres: startup recovering 000000010000000000000003', PgProcessKind.Auxiliary, 'startup', 'recovering 000000010000000000000003'],
+
+            /* Workers */
+            ['postgres: parallel worker for PID 1234', PgProcessKind.ParallelWorker, 'parallel worker', 'leader 1234'],
+            ['postgres: autovacuum worker regression', PgProcessKind.Autovacuum, 'autovacuum worker', 'regression'],
+            ['postgres: walsender postgres [local] streaming 0/3000148', PgProcessKind.Replication, 'walsender', 'postgres [local] streaming 0/3000148'],
+            ['postgres: logical replication apply worker for subscription 16394', PgProcessKind.BackgroundWorker, 'logical replication apply worker for subscription 16394', undefined],
+        ];
+
+        for (const [title, kind, name, details] of data) {
+            const actual = parseProcessTitle(title);
+            assert.equal(actual.kind, kind, title);
+            assert.equal(actual.name, name, title);
+            assert.equal(actual.details, details, title);
+        }
+    });
+
+    test('ElementsRange', function () {
+        const range = new ElementsRange();
+        range.set(10, 20);
+
+        /* Container of known size */
+        assert.equal(range.clamp(15), 15);
+        assert.equal(range.truncated, false);
+        assert.equal(range.clamp(30), 20);
+        assert.equal(range.truncated, true);
+        assert.equal(range.total, 30);
+
+        /* Iteration over container */
+        const range2 = new ElementsRange();
+        range2.set(10, 20);
+        assert.ok(range2.checkIndex(19));
+        assert.equal(range2.truncated, false);
+        assert.ok(!range2.checkIndex(20));
+        assert.equal(range2.truncated, true);
+
+        const data: [number, boolean][] = [
+            [9, false],
+            [10, true],
+            [19, true],
+            [20, false],
+        ];
+        for (const [index, expected] of data) {
+            assert.equal(range.includes(index), expected, `${index}`);
+        }
+    
+        /* Loading more elements does not make range wider than limit */
+        const range3 = new ElementsRange();
+        const length = range3.end;
+        for (let i = 1; i <= 40; ++i) {
+            range3.loadMore();
+            assert.equal(range3.end, length * (i + 1), `end after ${i} loads`);
+            assert.equal(range3.start, Math.max(0, length * (i + 1 - 16)), `start after ${i} loads`);
+        }
+    });
+
+    test('parseElementsRange', function () {
+        const data: [string, [number, number] | undefined][] = [
+            /* Valid ranges */
+            ['0, 128', [0, 128]],
+            ['[200, 300)', [200, 300]],
+            ['  5 ,6  ', [5, 6]],
+            ['0, 2048', [0, 2048]],
+
+            /* Invalid ranges */
+            ['', undefined],
+            ['10', undefined],
+            ['10, 10', undefined],
+            ['20, 10', undefined],
+            ['-1, 10', undefined],
+            ['a, b', undefined],
+
+            /* Too wide */
+            ['0, 2049', undefined],
+            ['1000, 100000', undefined],
+        ];
+
+        for (const [input, expected] of data) {
+            assert.deepEqual(parseElementsRange(input, 128), expected, input);
+        }
+    });
+
+    test('extractGdbLongString', async function () {
+        /* Strings, which are not truncated, do not require debugger calls */
+        const noDebug = {} as dbg.GenericDebuggerFacade;
+        const data: [string, string | null][] = [
+            ['0x1000 "SELECT 1"', 'SELECT 1'],
+            ['0x1000 ""', ''],
+            ['0x1000 "a\\nb\\t\\"c\\""', 'a\nb\t"c"'],
+            ['0x1000 "{QUERY", \' \' <repeats 12 times>, ":commandType 1}"', '{QUERY            :commandType 1}'],
+            ['"no pointer"', null],
+        ];
+        for (const [value, expected] of data) {
+            const actual = await dbg.extractGdbLongString(noDebug, {value, type: 'char *'}, 0);
+            assert.equal(actual, expected, value);
+        }
+
+        /* Truncated string is read chunk by chunk */
+        const expressions: string[] = [];
+        const debug = {
+            extractPtrFromString: () => '0x1000',
+            evaluate: async (expression: string) => {
+                expressions.push(expression);
+                return {result: '0x1003 "def"'};
+            },
+        } as unknown as dbg.GenericDebuggerFacade;
+        const actual = await dbg.extractGdbLongString(debug, {value: '0x1000 "abc"...', type: 'char *'}, 0);
+        assert.equal(actual, 'abcdef');
+        assert.deepEqual(expressions, ['(const char *)0x1000 + 3']);
+    });
+
+    test('getBitmapwordMembers', function () {
+        const data: [bigint, number, number, number[]][] = [
+            /* Empty word */
+            [0n, 0, 64, []],
+            [0n, 3, 64, []],
+
+            /* First word */
+            [1n, 0, 64, [0]],
+            [0b1011n, 0, 64, [0, 1, 3]],
+            [0x8000000000000000n, 0, 64, [63]],
+
+            /* Next words are offset by word size */
+            [0b101n, 1, 64, [64, 66]],
+            [0b101n, 2, 32, [64, 66]],
+            [0x80000000n, 1, 32, [63]],
+
+            /* Garbage above word size is ignored */
+            [0x100000001n, 0, 32, [0]],
+        ];
+
+        for (const [word, index, bitsPerWord, expected] of data) {
+            const actual = getBitmapwordMembers(word, index, bitsPerWord);
+            assert.deepEqual(actual, expected, `${word.toString(2)}: ${index}`);
+        }
+    });
+
+    test('StepValuesSnapshot', function () {
+        const snapshot = new StepValuesSnapshot();
+
+        /* Nothing to compare with on first stop */
+        assert.equal(snapshot.update('a', '1'), undefined, 'first stop: a');
+        assert.equal(snapshot.update('b', '2'), undefined, 'first stop: b');
+
+        /* Value is compared with previous stop, not with same stop */
+        assert.equal(snapshot.update('a', '10'), undefined, 'first stop: a updated');
+
+        snapshot.nextStop();
+        assert.equal(snapshot.update('a', '11'), '10', 'second stop: a changed');
+        assert.equal(snapshot.update('c', '3'), undefined, 'second stop: c added');
+
+        /* 'b' was not shown during second stop, but it's value is kept */
+        snapshot.nextStop();
+        assert.equal(snapshot.update('a', '11'), undefined, 'third stop: a unchanged');
+        assert.equal(snapshot.update('b', '20'), '2', 'third stop: b changed');
+        assert.equal(snapshot.update('c', '3'), undefined, 'third stop: c unchanged');
+    });
+
+    test('diffSnapshots', function () {
+        const leaf = (name: string, value: string, truncated?: boolean): NodeSnapshot => ({
+            name, value, truncated,
+        });
+        const node = (name: string, tag: string | undefined,
+                      children: NodeSnapshot[]): NodeSnapshot => ({
+            name, tag, value: '0x1000', children,
+        });
+
+        const left = node('root', 'T_Query', [
+            leaf('commandType', 'CMD_SELECT'),
+            node('rtable', 'T_List', [leaf('$elements$', '0x2000', true)]),
+            leaf('hasAggs', 'false'),
+        ]);
+
+        const data: [string, NodeSnapshot, [NodeSnapshot, NodeSnapshot] | undefined][] = [
+            /* Pointer values differ, but members are equal */
+            ['equal', node('root', 'T_Query', [
+                leaf('commandType', 'CMD_SELECT'),
+                node('rtable', 'T_List', [leaf('$elements$', '0x3000', true)]),
+                leaf('hasAggs', 'false'),
+            ]), undefined],
+            ['tag', node('root', 'T_PlannedStmt', []), [
+                left, node('root', 'T_PlannedStmt', []),
+            ]],
+            ['value', node('root', 'T_Query', [
+                leaf('commandType', 'CMD_UPDATE'),
+                node('rtable', 'T_List', [leaf('$elements$', '0x3000', true)]),
+                leaf('hasAggs', 'false'),
+            ]), [
+                node('root', 'T_Query', [leaf('commandType', 'CMD_SELECT')]),
+                node('root', 'T_Query', [leaf('commandType', 'CMD_UPDATE')]),
+            ]],
+            ['missing child', node('root', 'T_Query', [
+                leaf('commandType', 'CMD_SELECT'),
+                node('rtable', 'T_List', [leaf('$elements$', '0x3000', true)]),
+                leaf('hasWindowFuncs', 'false'),
+            ]), [
+                node('root', 'T_Query', [leaf('hasAggs', 'false')]),
+                node('root', 'T_Query', [leaf('hasWindowFuncs', 'false')]),
+            ]],
+        ];
+
+        for (const [name, right, expected] of data) {
+            const actual = diffSnapshots(left, right);
+            assert.deepEqual(actual, expected, name);
+        }
+
+        /* Truncated on one side only - compare values */
+        assert.deepEqual(diffSnapshots(leaf('a', '0x1', true), leaf('a', '0x2')),
+                         [leaf('a', '0x1', true), leaf('a', '0x2')], 'one truncated');
+        assert.equal(diffSnapshots(leaf('a', '0x1', true), leaf('a', '0x2', true)),
+                     undefined, 'both truncated');
+    });
+
+    test('escapeDot', function () {
+        const data: [string, string][] = [
+            ['Query', 'Query'],
+            ['"quoted"', '\\"quoted\\"'],
+            ['back\\slash', 'back\\\\slash'],
+            ['\\"', '\\\\\\"'],
+        ];
+
+        for (const [str, expected] of data) {
+            const actual = escapeDot(str);
+            assert.equal(actual, expected, str);
+        }
+    });
+
+    test('joinMemberPath', function () {
+        const data: [string, string, string][] = [
+            /* Special members are not shown */
+            ['rtable', '$elements$', 'rtable'],
+
+            /* Array and List elements */
+            ['args', '[0]', 'args[0]'],
+            ['', '[1]', '[1]'],
+
+            /* Bitmapset elements */
+            ['relids', '3', 'relids(3)'],
+
+            /* Struct members */
+            ['plan', 'lefttree', 'plan.lefttree'],
+            ['', 'lefttree', 'lefttree'],
+        ];
+
+        for (const [prefix, name, expected] of data) {
+            const actual = joinMemberPath(prefix, name);
+            assert.equal(actual, expected, `${prefix} + ${name}`);
+        }
+    });
+
+    test('parseConfiguration: globals', function () {
+        const globals = [
+            /* Plain names are trimmed */
+            'MyProcPid',
+            '  MyDatabaseId ',
+            '',
+            '   ',
+
+            /* Objects with optional expression */
+            {name: 'TopPortal', expression: 'ActivePortal'},
+            {name: 'MyProc'},
+
+            /* Invalid entries */
+            {expression: 'CurrentResourceOwner'},
+            {name: '', expression: 'CurrentResourceOwner'},
+            {name: 'CurTransactionContext', expression: 1},
+            {name: 1},
+            1,
+            null,
+        ];
+        const expected = [
+            {name: 'MyProcPid', expression: 'MyProcPid'},
+            {name: 'MyDatabaseId', expression: 'MyDatabaseId'},
+            {name: 'TopPortal', expression: 'ActivePortal'},
+            {name: 'MyProc', expression: 'MyProc'},
+        ];
+
+        const actual = parseConfiguration({globals});
+        assert.deepEqual(actual?.globals, expected);
+        assert.equal(parseConfiguration({globals: 'MyProcPid'})?.globals, undefined, 'not array');
+        assert.equal(parseConfiguration({})?.globals, undefined, 'not specified');
+    });
+
+    test('getWellKnownGlobals', function () {
+        const data: [number | undefined, string[], string[]][] = [
+            /* Version unknown - only globals present in all versions */
+            [undefined, ['CurrentMemoryContext'], ['MyBackendId', 'MyProcNumber', 'MyBackendType']],
+            [12_00_00, ['CurrentMemoryContext', 'MyBackendId'], ['MyProcNumber', 'MyBackendType']],
+            [16_00_00, ['MyBackendId', 'MyBackendType'], ['MyProcNumber']],
+            [17_00_00, ['MyProcNumber', 'MyBackendType'], ['MyBackendId']],
+        ];
+
+        for (const [pgversion, present, absent] of data) {
+            const names = getWellKnownGlobals(pgversion).map(g => g.name);
+            for (const name of present) {
+                assert.ok(names.includes(name), `${pgversion}: ${name} must be present`);
+            }
+            for (const name of absent) {
+                assert.ok(!names.includes(name), `${pgversion}: ${name} must be absent`);
+            }
+        }
+    });
+
+    test('checkNodePointer', function () {
+        const data: [string, string | undefined][] = [
+            /* Valid pointers */
+            ['0x0', undefined],
+            ['0x55d0c0a01230', undefined],
+            ['(Query *) 0x55d0c0a01230', undefined],
+
+            /* Not pointers at all - nothing to check */
+            ['<optimized out>', undefined],
+            ['', undefined],
+
+            /* Garbage */
+            ['0x10', 'pointer to first page of memory'],
+            ['0x7f7f7f7f', 'pointer read from freed memory'],
+            ['0x7f7f7f7f7f7f7f7f', 'pointer read from freed memory'],
+            ['0x55d0c0a01231', 'pointer is not aligned'],
+        ];
+
+        for (const [pointer, expected] of data) {
+            const actual = checkNodePointer(pointer);
+            assert.equal(actual, expected, pointer);
+        }
+    });
+
+    test('formatJoinPlanName', function () {
+        const data: [string, string, string | undefined, string][] = [
+            /* Inner joins */
+            ['Nested Loop', 'NestLoop', 'JOIN_INNER', 'Nested Loop'],
+            ['Hash', 'HashJoin', 'JOIN_INNER', 'Hash Join'],
+            ['Merge', 'MergeJoin', 'JOIN_INNER', 'Merge Join'],
+
+            /* Outer and semi joins */
+            ['Nested Loop', 'NestLoop', 'JOIN_LEFT', 'Nested Loop Left Join'],
+            ['Hash', 'HashJoin', 'JOIN_FULL', 'Hash Full Join'],
+            ['Hash', 'HashJoin', 'JOIN_RIGHT_ANTI', 'Hash Right Anti Join'],
+            ['Merge', 'MergeJoin', 'JOIN_SEMI', 'Merge Semi Join'],
+
+            /* Unknown join type */
+            ['Hash', 'HashJoin', undefined, 'Hash Join'],
+            ['Nested Loop', 'NestLoop', '0', 'Nested Loop'],
+        ];
+
+        for (const [name, tag, jointype, expected] of data) {
+            const actual = formatJoinPlanName(name, tag, jointype);
+            assert.equal(actual, expected, `${tag} ${jointype}`);
+        }
+    });
+
+    test('formatPlanCost', function () {
+        const data: [[number, number, number, number], string][] = [
+            [[0, 35.5, 2550, 4], '(cost=0.00..35.50 rows=2550 width=4)'],
+            [[1.125, 42.3049, 10.4, 36], '(cost=1.13..42.30 rows=10 width=36)'],
+            [[100, 100, 1, 0], '(cost=100.00..100.00 rows=1 width=0)'],
+        ];
+
+        for (const [[startup, total, rows, width], expected] of data) {
+            const actual = formatPlanCost(startup, total, rows, width);
+            assert.equal(actual, expected);
+        }
+    });
+
+    test('formatPathCost', function () {
+        const data: [[number, number, number], string][] = [
+            [[0, 35.5, 2550], 'cost=0.00..35.50 rows=2550'],
+            [[1.125, 42.3049, 10.4], 'cost=1.13..42.30 rows=10'],
+        ];
+
+        for (const [[startup, total, rows], expected] of data) {
+            const actual = formatPathCost(startup, total, rows);
+            assert.equal(actual, expected);
+        }
+    });
+
+    test('formatPathKeyOrdering', function () {
+        const data: [string | undefined, boolean, string][] = [
+            /* Up to 17: btree strategy number */
+            ['1', false, ''],
+            ['5', false, ' DESC'],
+            ['5', true, ' DESC NULLS FIRST'],
+
+            /* 18+: CompareType */
+            ['COMPARE_LT', false, ''],
+            ['COMPARE_GT', false, ' DESC'],
+            ['COMPARE_LT', true, ' NULLS FIRST'],
+
+            /* Member not found */
+            [undefined, false, ''],
+        ];
+
+        for (const [strategy, nullsFirst, expected] of data) {
+            const actual = formatPathKeyOrdering(strategy, nullsFirst);
+            assert.equal(actual, expected, `${strategy} ${nullsFirst}`);
+        }
+    });
+
+    test('formatJoinKeyword', function () {
+        const data: [string, boolean, string][] = [
+            ['JOIN_INNER', true, 'JOIN'],
+            ['JOIN_INNER', false, 'CROSS JOIN'],
+            ['JOIN_LEFT', true, 'LEFT JOIN'],
+            ['JOIN_FULL', true, 'FULL JOIN'],
+            ['JOIN_RIGHT', true, 'RIGHT JOIN'],
+
+            /* After pull-up */
+            ['JOIN_SEMI', true, 'SEMI JOIN'],
+            ['JOIN_RIGHT_ANTI', true, 'RIGHT ANTI JOIN'],
+
+            /* Not an enum value */
+            ['7', true, '7 JOIN'],
+        ];
+
+        for (const [jointype, hasQuals, expected] of data) {
+            const actual = formatJoinKeyword(jointype, hasQuals);
+            assert.equal(actual, expected, `${jointype} ${hasQuals}`);
+        }
+    });
+
+    test('formatTargetEntryAlias', function () {
+        const data: [string, string | null, string][] = [
+            /* Alias is the same as column name */
+            ['t1.x', 'x', 't1.x'],
+            ['x', 'x', 'x'],
+
+            /* Expression or renamed column */
+            ['t1.x + 1', 'y', 't1.x + 1 AS y'],
+            ['t1.x', 'y', 't1.x AS y'],
+            ['t1.xx', 'x', 't1.xx AS x'],
+
+            /* No alias */
+            ['count(*)', null, 'count(*)'],
+            ['count(*)', '', 'count(*)'],
+        ];
+
+        for (const [repr, resname, expected] of data) {
+            const actual = formatTargetEntryAlias(repr, resname);
+            assert.equal(actual, expected, `${repr} ${resname}`);
+        }
+    });
+
+    test('formatLinePointer', function () {
+        const data: [[number, number, number], string][] = [
+            [[0, 0, 0], 'LP_UNUSED (off=0, len=0)'],
+            [[1, 8152, 40], 'LP_NORMAL (off=8152, len=40)'],
+            [[2, 5, 0], 'LP_REDIRECT -> 5'],
+            [[3, 0, 0], 'LP_DEAD (off=0, len=0)'],
+
+            /* Garbage */
+            [[7, 1, 2], '7 (off=1, len=2)'],
+        ];
+
+        for (const [[flags, off, len], expected] of data) {
+            const actual = formatLinePointer(flags, off, len);
+            assert.equal(actual, expected);
+        }
+    });
+
+    test('decodeNullBitmap', function () {
+        const data: [number[], number, number[]][] = [
+            /* All attributes are not NULL */
+            [[0b111], 3, []],
+            [[0xFF, 0xFF], 10, []],
+
+            /* Bit is not set for NULL attribute */
+            [[0b101], 3, [2]],
+            [[0b000], 3, [1, 2, 3]],
+            [[0b11110000], 8, [1, 2, 3, 4]],
+
+            /* Bits after last attribute are ignored */
+            [[0b011], 2, []],
+
+            /* Multiple bytes */
+            [[0xFF, 0b10], 10, [9]],
+            [[0x7F, 0x01], 9, [8]],
+        ];
+
+        for (const [bits, natts, expected] of data) {
+            const actual = decodeNullBitmap(bits, natts);
+            assert.deepEqual(actual, expected, `${bits} ${natts}`);
+        }
+    });
+
+    test('findIdentifiers', function () {
+        const data: [string, [string, number][]][] = [
+            ['', []],
+            ['    return;', [['return', 4]]],
+            ['rel->relid = 1;', [['rel', 0], ['relid', 5]]],
+            ['x = list_nth(_args, 10L);', [['x', 0], ['list_nth', 4], ['_args', 13]]],
+            ['a1+b_2', [['a1', 0], ['b_2', 3]]],
+
+            /* Number suffixes and hex literals are not identifiers */
+            ['n = 0x1F + 2u;', [['n', 0]]],
+        ];
+
+        for (const [text, expected] of data) {
+            const actual = findIdentifiers(text);
+            assert.deepEqual(actual, expected, text);
+        }
+    });
+
+    test('formatHoverHeader', function () {
+        const data: [string, string, string, string][] = [
+            /* Declared type matches real NodeTag */
+            ['rel', 'RelOptInfo *', 'RelOptInfo', '**rel**: `RelOptInfo *`'],
+            ['query', 'Query *', 'Query', '**query**: `Query *`'],
+
+            /* Real NodeTag differs */
+            ['node', 'Node *', 'OpExpr', '**node**: `Node *` \\[OpExpr\\]'],
+            ['path', 'Path *', 'IndexPath', '**path**: `Path *` \\[IndexPath\\]'],
+        ];
+
+        for (const [name, declaredType, tag, expected] of data) {
+            const actual = formatHoverHeader(name, declaredType, tag);
+            assert.equal(actual, expected, `${name} ${declaredType} ${tag}`);
+        }
+    });
+
+    test('formatHoverChildren', function () {
+        const data: [[string, string | undefined][], string[]][] = [
+            [[], []],
+            [[['relid', '1']], ['relid = 1']],
+
+            /* No description - only label */
+            [[['pathlist', undefined], ['rows', '']], ['pathlist', 'rows']],
+
+            /* At most 8 children */
+            [
+                Array.from({length: 10}, (_, i) => [`m${i}`, `${i}`] as [string, string]),
+                Array.from({length: 8}, (_, i) => `m${i} = ${i}`),
+            ],
+        ];
+
+        for (const [children, expected] of data) {
+            const actual = formatHoverChildren(children);
+            assert.deepEqual(actual, expected, JSON.stringify(children));
+        }
+    });
+
+    test('LldbDapDebuggerFacade values', function () {
+        const debug = new dbg.LldbDapDebuggerFacade({id: 'test'} as vscode.DebugSession);
+        try {
+            const type = 'char *';
+
+            /* Pointers with additional data after space */
+            assert.equal(debug.isNull({value: '0x0000000000000000', type}), true);
+            assert.equal(debug.isNull({value: '0x0000555555a4b0c8 "abc"', type}), false);
+            assert.equal(debug.isNull({value: '0', type: 'int'}), false);
+            assert.equal(debug.extractPtrFromString({value: '0x0000555555a4b0c8 "abc"', type}),
+                         '0x0000555555a4b0c8');
+            assert.equal(debug.extractPtrFromString({value: '"abc"', type}), null);
+            assert.equal(debug.extractString({value: '0x0000555555a4b0c8 "a b"', type}), 'a b');
+            assert.equal(debug.extractString({value: '0x0000555555a4b0c8', type}), null);
+
+            /* Bool stored as 'char' on older versions */
+            const bools: [string, boolean | null][] = [
+                ['true', true],
+                ['false', false],
+                ["'\\x01'", true],
+                ["'\\0'", false],
+                ['2', null],
+            ];
+            for (const [value, expected] of bools) {
+                assert.equal(debug.extractBool({value, type: 'bool'}), expected, value);
+            }
+
+            /* Frame id is '(thread_index << 19) | frame_index' */
+            assert.equal(debug.maybeCalcFrameIndex((1 << 19) | 5), 5);
+            assert.equal(debug.maybeCalcFrameIndex(3), 3);
+
+            assert.equal(debug.formatEnumValue('NodeTag', 'T_List'), 'NodeTag::T_List');
+
+            const props = debug.extractVariableProperties({value: '0x0000000000000000', type: 'List *'});
+            assert.ok(props.isPointer() && props.pointerIsNull());
+            assert.ok(debug.extractVariableProperties({value: '{...}', type: 'List'}).isValueStruct());
+            assert.ok(debug.extractVariableProperties({value: '{1, 2}', type: 'int[2]'}).isFixedSizeArray());
+            assert.ok(debug.extractVariableProperties({value: '{}', type: 'int[]'}).isFlexibleArray());
+            assert.ok(debug.extractVariableProperties({value: '10', type: 'int'}).isScalar());
+        } finally {
+            debug.dispose();
+        }
+    });
+
+    test('LldbDapDebuggerFacade errors', async function () {
+        let error: Error;
+        const session = {
+            id: 'test',
+            customRequest: async () => {
+                throw error;
+            },
+        } as unknown as vscode.DebugSession;
+        const debug = new dbg.LldbDapDebuggerFacade(session);
+        try {
+            const data: [Error, new (...args: never[]) => Error][] = [
+                /* Failed evaluation reported as failed response */
+                [new Error("error: use of undeclared identifier 'xxx'"), dbg.EvaluationError],
+
+                /* Outdated frame or thread */
+                [new Error('invalid frame'), dbg.DebuggerNotAvailableError],
+                [new Error('invalid thread'), dbg.DebuggerNotAvailableError],
+                [new Error('process is running'), dbg.DebuggerNotAvailableError],
+
+                /* Not debugger errors are not hidden */
+                [new TypeError('x is undefined'), TypeError],
+                [new Error(''), Error],
+            ];
+
+            for (const [thrown, expected] of data) {
+                error = thrown;
+                await assert.rejects(debug.evaluate('xxx', 1),
+                                     (e: Error) => Object.getPrototypeOf(e) === expected.prototype,
+                                     `${thrown.name}: ${thrown.message}`);
+            }
+        } finally {
+            debug.dispose();
+        }
+    });
+
+    test('Scratch memory context', async function () {
+        /* Fake debugger, which tracks evaluated expressions */
+        let currentContextTag = 'T_AllocSetContext';
+        const expressions: string[] = [];
+        const debug = {
+            evaluate: async (expression: string) => {
+                expressions.push(expression);
+                if (expression.startsWith('MemoryContextStrdup')) {
+                    return {result: '0x1000 "PGHH scratch"'};
+                } else if (expression.includes('AllocSetContextCreate')) {
+                    return {result: '0x2000'};
+                } else if (expression.includes('CurrentMemoryContext')) {
+                    return {result: currentContextTag};
+                }
+                return {result: '0x3000'};
+            },
+            extractPtrFromString: (r: {result: string}) => r.result.split(' ')[0],
+            isNull: (r: {result: string}) => r.result === '0x0',
+            getPointer: (v: {value: string}) => v.value,
+            formatEnumValue: (_: string, value: string) => value,
+        } as unknown as dbg.IDebuggerFacade;
+        const context = new ExecContext(debug, {} as ConstructorParameters<typeof ExecContext>[1],
+                                        17_00_00, ExecutableType.Server);
+        const variable = new TestVariable('x', '0x1', 'int *', 'int *', context, 0, undefined);
+        const count = (prefix: string) => expressions.filter(e => e.startsWith(prefix)).length;
+
+        /* Concurrent callers create context only once */
+        const scratch = await Promise.all([
+            variable.getScratchContext(),
+            variable.getScratchContext(),
+        ]);
+        assert.deepEqual(scratch, ['0x2000', '0x2000']);
+        assert.equal(count('(void *)AllocSetContextCreateInternal'), 1);
+        assert.equal(count('MemoryContextReset'), 0, 'just created context is reset');
+
+        /* After step context is reset once */
+        context.step.reset();
+        await Promise.all([
+            variable.getScratchContext(),
+            variable.getScratchContext(),
+        ]);
+        assert.equal(count('MemoryContextReset((MemoryContext)0x2000)'), 1);
+        assert.equal(count('(void *)AllocSetContextCreateInternal'), 1);
+
+        /* Allocations are performed in scratch context */
+        assert.equal(await variable.palloc('16'), '0x3000');
+        assert.equal(count('MemoryContextAlloc((MemoryContext)0x2000, 16)'), 1);
+
+        /* Functions we invoke still allocate in CurrentMemoryContext */
+        context.step.reset();
+        currentContextTag = 'T_BumpContext';
+        await assert.rejects(variable.palloc('16'), dbg.EvaluationError);
+    });
+
+    test('isValidMemoryContextTag', function () {
+        const data: [string, boolean][] = [
+            ['T_AllocSetContext', true],
+            ['T_SlabContext', true],
+            ['T_GenerationContext', true],
+
+            /* Bump does not support pfree and others */
+            ['T_BumpContext', false],
+            ['T_Invalid', false],
+            ['0', false],
+        ];
+
+        for (const [tag, expected] of data) {
+            assert.equal(isValidMemoryContextTag(tag), expected, tag);
+        }
+    });
+
+    test('createVariableJson', function () {
+        const context = {} as ExecContext;
+        const variable = (type: string, declaredType: string, value: string) =>
+            new TestVariable('x', value, type, declaredType, context, 0, undefined);
+        const child: VariableJson = {name: 'y', type: 'int', value: '1'};
+        const data: [Variable, vscode.TreeItem, VariableJson[] | undefined, boolean, VariableJson][] = [
+            /* Scalar */
+            [variable('int', 'int', '1'), {description: '1'}, undefined, false,
+             {name: 'x', type: 'int', value: '1'}],
+
+            /* Real type differs from declared */
+            [variable('OpExpr *', 'Expr *', '0x1000'), {}, undefined, false,
+             {name: 'x', type: 'Expr *', realType: 'OpExpr *', value: '0x1000'}],
+
+            /* Description differs from value */
+            [variable('Expr *', 'Expr *', '0x1000'), {description: 'a = 1'}, undefined, false,
+             {name: 'x', type: 'Expr *', value: '0x1000', description: 'a = 1'}],
+
+            /* Children not exported */
+            [variable('List *', 'List *', '0x1000'), {}, undefined, true,
+             {name: 'x', type: 'List *', value: '0x1000', truncated: true}],
+
+            /* Children exported */
+            [variable('S', 'S', '{...}'), {}, [child], false,
+             {name: 'x', type: 'S', value: '{...}', children: [child]}],
+        ];
+
+        for (const [v, item, children, truncated, expected] of data) {
+            const actual = createVariableJson(v, item, children, truncated);
+            assert.deepEqual(actual, expected, JSON.stringify(expected));
+        }
+    });
+
+    test('escapeHtml', function () {
+        const data: [string, string][] = [
+            ['', ''],
+            ['Seq Scan on t1', 'Seq Scan on t1'],
+            ['a < b && c > d', 'a &lt; b &amp;&amp; c &gt; d'],
+            ['"quoted"', '&quot;quoted&quot;'],
+            ['&lt;', '&amp;lt;'],
+        ];
+
+        for (const [str, expected] of data) {
+            assert.equal(escapeHtml(str), expected, str);
+        }
+    });
+
+    test('renderTreeNode', function () {
+        const title = 'Click to reveal in pg variables view';
+        const leaf: TreeNode = {
+            id: 1, member: 'lefttree', tag: 'SeqScan', header: 'Seq Scan on t<1>', children: [],
+        };
+
+        /* Leaf is rendered without 'details' and all text is escaped */
+        assert.equal(renderTreeNode(leaf),
+                     `<li><div class="box" data-id="1" title="${title}">` +
+                     '<div class="member">lefttree</div>' +
+                     '<div class="tag">SeqScan</div>' +
+                     '<div class="header">Seq Scan on t&lt;1&gt;</div>' +
+                     '</div></li>');
+
+        /* Shared node has own class and title, empty member and header are omitted */
+        const shared: TreeNode = {
+            id: 2, member: '', tag: 'Path', header: '', shared: true, children: [],
+        };
+        assert.equal(renderTreeNode(shared),
+                     `<li><div class="box shared" data-id="2" title="Shown above. ${title}">` +
+                     '<div class="tag">Path</div></div></li>');
+
+        /* Children are rendered in collapsible list */
+        const root: TreeNode = {
+            id: 0, member: '', tag: 'Hash', header: '', children: [leaf, shared],
+        };
+        assert.equal(renderTreeNode(root),
+                     `<li><details open><summary><div class="box" data-id="0" title="${title}">` +
+                     '<div class="tag">Hash</div></div></summary><ul>' +
+                     renderTreeNode(leaf) + renderTreeNode(shared) +
+                     '</ul></details></li>');
+    });
+
+    test('formatWatchExpression of watch item', async function () {
+        const debug = new dbg.LldbDapDebuggerFacade({id: 'test'} as vscode.DebugSession);
+        try {
+            const context = {debug} as unknown as ExecContext;
+            const group = new WatchGroupVariable(['*root', 'root', 'rel'], context, 0);
+            const create = (name: string, type: string, value: string, parent: Variable) =>
+                new RealVariable({
+                    name, type, declaredType: type, value,
+                    variablesReference: 0, frameId: 0, parent, context,
+                });
+
+            /* Value struct */
+            const deref = create('*root', 'PlannerInfo', '{...}', group);
+            assert.equal(await deref.formatWatchExpression(), '(*root)');
+            const member = create('glob', 'PlannerGlobal', '{...}', deref);
+            assert.equal(await member.formatWatchExpression(), '(*root).glob');
+
+            /* Pointer */
+            const pointer = create('root', 'PlannerInfo *', '0x0000555555a4b0c8', group);
+            assert.equal(await pointer.formatWatchExpression(), '(root)');
+            const pointerMember = create('parse', 'Query *', '0x0000555555a4b100', pointer);
+            assert.equal(await pointerMember.formatWatchExpression(),
+                         '((PlannerInfo *)0x0000555555a4b0c8)->parse');
+
+            /* Not an expression of group */
+            const unknown = create('other', 'int', '1', group);
+            assert.equal(await unknown.formatWatchExpression(), null);
+        } finally {
+            debug.dispose();
+        }
+    });
+
+    test('Watch expressions', async function () {
+        const storage = new Map<string, unknown>();
+        const pgvars = new PgVariablesViewProvider({} as ConfigurationRegistry);
+        pgvars.watchState = {
+            keys: () => [...storage.keys()],
+            get: (key: string) => storage.get(key),
+            update: async (key: string, value: unknown) => {
+                storage.set(key, value);
+            },
+        } as vscode.Memento;
+
+        assert.deepEqual(pgvars.watchExpressions, []);
+
+        await pgvars.addWatchExpression('root->parse');
+        await pgvars.addWatchExpression('*rel');
+        assert.deepEqual(pgvars.watchExpressions, ['root->parse', '*rel']);
+
+        /* Duplicates are not added */
+        await pgvars.addWatchExpression('*rel');
+        assert.deepEqual(pgvars.watchExpressions, ['root->parse', '*rel']);
+
+        await pgvars.removeWatchExpression('root->parse');
+        assert.deepEqual(pgvars.watchExpressions, ['*rel']);
+
+        /* Removing missing expression changes nothing */
+        await pgvars.removeWatchExpression('root->parse');
+        assert.deepEqual(pgvars.watchExpressions, ['*rel']);
+    });
+
+    test('getFrameFunctionName', function () {
+        const data: [string, string][] = [
+            ['make_join_rel', 'make_join_rel'],
+            ['make_join_rel(root=0x1, rel1=0x2)', 'make_join_rel'],
+            ['postgres!standard_planner', 'standard_planner'],
+            ['libpq.so.5!PQexec(conn=0x1, query="SELECT 1")', 'PQexec'],
+        ];
+
+        for (const [name, expected] of data) {
+            const frame = {id: 0, name, line: 0, column: 0};
+            assert.equal(dbg.getFrameFunctionName(frame), expected, name);
+        }
+    });
+
+    test('findVariableUpTheStack', async function () {
+        /* Frame ids do not encode index, so it is searched in stack */
+        const frames = [10, 20, 30, 40].map(id => ({id, name: `f${id}`, line: 0, column: 0}));
+        const debug = {
+            getStackFrames: async () => frames,
+            maybeCalcFrameIndex: () => undefined,
+        } as unknown as dbg.IDebuggerFacade;
+        const context = new ExecContext(debug, {} as ConstructorParameters<typeof ExecContext>[1],
+                                        17_00_00, ExecutableType.Server);
+
+        assert.equal(await context.getFrameIndex(10), 0);
+        assert.equal(await context.getFrameIndex(30), 2);
+        assert.equal(await context.getFrameIndex(50), -1);
+
+        /* Variables of frames are already cached for this step */
+        const variables = new Map<number, Variable>();
+        for (const frame of frames) {
+            const root = new VariablesRoot([], context);
+            const variable = new TestVariable('root', '0x1', 'PlannerInfo *', 'PlannerInfo *',
+                                              context, frame.id, root);
+            root.topLevelVariables.push(variable);
+            context.step.framesVariables.set(frame.id, root);
+            variables.set(frame.id, variable);
+        }
+        const isRoot = (v: Variable) => v.name === 'root';
+
+        /* Frame itself is not searched, only callers */
+        assert.equal(await context.findVariableUpTheStack(10, isRoot), variables.get(20));
+        assert.equal(await context.findVariableUpTheStack(30, isRoot), variables.get(40));
+        assert.equal(await context.findVariableUpTheStack(40, isRoot), undefined);
+        assert.equal(await context.findVariableUpTheStack(10, v => v.name === 'rel'), undefined);
+
+        /* Unknown frame */
+        assert.equal(await context.findVariableUpTheStack(50, isRoot), undefined);
+    });
+
+    test('variableMatchesFilter', function () {
+        const context = {} as ExecContext;
+        const args = (name: string, type: string) => ({
+            name, type, declaredType: type, value: '0x1000',
+            variablesReference: 0, frameId: 0, context,
+        });
+        const data: [Variable, string, boolean][] = [
+            /* Name */
+            [new RealVariable(args('relids', 'Relids')), 'relid', true],
+            [new RealVariable(args('relids', 'Relids')), 'pathlist', false],
+
+            /* Type */
+            [new RealVariable(args('parent', 'RelOptInfo *')), 'reloptinfo', true],
+
+            /* NodeTag */
+            [new NodeVariable('IndexPath', args('path', 'Path *')), 'indexpath', true],
+            [new NodeVariable('IndexPath', args('path', 'Path *')), 'seqscan', false],
+
+            /* Filter is lower case, but variable is not */
+            [new RealVariable(args('joinRelHash', 'HTAB *')), 'joinrel', true],
+
+            /* Special members are always shown */
+            [new TestVariable('$elements$', '', '', '', context, 0, undefined), 'xxx', true],
+        ];
+
+        for (const [variable, filter, expected] of data) {
+            assert.equal(variableMatchesFilter(variable, filter), expected,
+                         `${variable.name} ${filter}`);
+        }
+    });
+
+    test('getVariablePath', function () {
+        const context = {} as ExecContext;
+        const create = (name: string, parent: Variable | undefined) =>
+            new TestVariable(name, '', 'int', 'int', context, 0, parent);
+
+        const root = new VariablesRoot([], context);
+        const rel = create('rel', root);
+        const pathlist = create('pathlist', rel);
+        const element = create('[0]', pathlist);
+        assert.equal(getVariablePath(rel), 'rel');
+        assert.equal(getVariablePath(element), 'rel.pathlist.[0]');
+
+        /* Variable without root */
+        assert.equal(getVariablePath(create('x', undefined)), 'x');
+    });
+
+    test('selectWorkspaceFolder', function () {
+        const data: [string[], (string | undefined)[], string][] = [
+            /* Single folder is always chosen */
+            [['a'], ['b', 'c'], 'a'],
+
+            /* First found candidate in order of priority */
+            [['a', 'b', 'c'], ['c', 'b'], 'c'],
+            [['a', 'b', 'c'], [undefined, 'b', 'c'], 'b'],
+            [['a', 'b', 'c'], [undefined, undefined, 'c'], 'c'],
+
+            /* No candidates - first folder */
+            [['a', 'b'], [undefined, undefined, undefined], 'a'],
+            [['a', 'b'], [], 'a'],
+        ];
+
+        for (const [folders, candidates, expected] of data) {
+            const actual = selectWorkspaceFolder(folders, candidates);
+            assert.equal(actual, expected, `${folders} ${candidates}`);
+        }
+    });
+
+    test('Multiple debug sessions', function () {
+        const disposed: string[] = [];
+        const createDebug = (id: string) => ({
+            getSession: () => ({id}),
+            dispose: () => disposed.push(id),
+        } as unknown as dbg.GenericDebuggerFacade);
+        const session = (id: string) => ({id} as vscode.DebugSession);
+        const pgvars = new PgVariablesViewProvider({} as ConfigurationRegistry);
+        assert.equal(pgvars.isInDebug(), false);
+
+        /* First session is shown */
+        pgvars.startDebugging(createDebug('leader'));
+        assert.ok(pgvars.isInDebug());
+        assert.ok(pgvars.isShown(session('leader')));
+
+        /* Do not switch from session user is working with */
+        pgvars.startDebugging(createDebug('worker'));
+        assert.ok(pgvars.isShown(session('leader')));
+
+        pgvars.switchDebugSession(session('worker'));
+        assert.ok(pgvars.isShown(session('worker')));
+
+        /* Unknown sessions do not change view */
+        pgvars.switchDebugSession(session('unknown'));
+        assert.ok(pgvars.isShown(session('worker')));
+        pgvars.switchDebugSession(undefined);
+        assert.ok(pgvars.isShown(session('worker')));
+
+        /* Restarted session releases previous facade */
+        pgvars.startDebugging(createDebug('leader'));
+        assert.deepEqual(disposed, ['leader']);
+
+        /* Stopped session not shown in view */
+        pgvars.stopDebugging(session('leader'));
+        assert.deepEqual(disposed, ['leader', 'leader']);
+        assert.ok(pgvars.isShown(session('worker')));
+
+        pgvars.stopDebugging(session('unknown'));
+        assert.deepEqual(disposed, ['leader', 'leader']);
+
+        /* Stopped session shown in view */
+        pgvars.stopDebugging(session('worker'));
+        assert.deepEqual(disposed, ['leader', 'leader', 'worker']);
+        assert.equal(pgvars.isInDebug(), false);
+        assert.equal(pgvars.isShown(session('worker')), false);
+    });
 });
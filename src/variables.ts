@@ -7,8 +7,12 @@ import { Log as logger } from './logger';
 import { ArgumentInvalidError, PghhError, 
          unnullify } from './error';
 import { Configuration,
+         ConfigurationRegistry,
+         Commands,
+         ExtensionId,
          getWorkspaceFolder,
          getWorkspacePgSrcFile, VsCodeSettings } from './configuration';
+import { getChunkMemoryContext, isMemoryContextTag } from './memctx';
 
 export interface AliasInfo {
     /* Declared type */
@@ -32,6 +36,17 @@ export class NodeVarRegistry {
      */
     exprs = new Set<string>(constants.getDisplayedExprs());
 
+    /**
+     * Known NodeTags that represents Plan nodes.
+     * Map: NodeTag -> name of node in EXPLAIN output
+     */
+    plans = new Map<string, string>(constants.getDisplayedPlans());
+
+    /**
+     * Known NodeTags that represents Path nodes.
+     */
+    paths = new Set<string>(constants.getDisplayedPaths());
+
     /**
      * Known aliases for Node variables - `typedef RealType* Alias'
      */
@@ -278,6 +293,22 @@ export interface SimplehashEntryInfo {
     type: string;
 }
 
+/**
+ * Global variable shown in 'Globals' group of variables view.
+ */
+export interface GlobalVariableInfo {
+    /*
+     * Name shown in variables view
+     */
+    name: string;
+
+    /*
+     * Expression to evaluate, i.e. '&TopTransactionStateData'.
+     * Usually it is the same as name.
+     */
+    expression: string;
+}
+
 export class HashTableTypes {
     /**
      * Map (member name -> (parent struct name -> type info structure))
@@ -383,6 +414,23 @@ export class StepContext {
      */
     isSafeToUseSysCache?: boolean;
 
+    /*
+     * Reset of scratch memory context performed during this step.
+     * Stored as promise, so concurrent callers do not reset it twice
+     * (second reset would free memory allocated by the first one).
+     */
+    scratchContextReset?: Promise<void>;
+
+    /*
+     * Stack frames of current thread, starting from the top.
+     */
+    stackFrames?: dap.StackFrame[];
+
+    /*
+     * Top level variables of frames searched up the stack: frameId -> root.
+     */
+    framesVariables = new Map<number, VariablesRoot>();
+
     reset() {
         this.isSafeToAllocateMemory = undefined;
         this.rtable.rtable = undefined;
@@ -392,6 +440,9 @@ export class StepContext {
         this.isSafeToObserveBitmapset = undefined;
         this.isSafeToObserveHTAB = undefined;
         this.isSafeToUseSysCache = undefined;
+        this.scratchContextReset = undefined;
+        this.stackFrames = undefined;
+        this.framesVariables.clear();
     }
 }
 
@@ -404,7 +455,7 @@ interface ExecContextData {
 /**
  * Which executable we are debugging
  */
-enum ExecutableType {
+export enum ExecutableType {
     /* Main 'postgres' executable */
     Server,
     /* Frontend utils: pg_ctl, pg_waldump, initdb, etc... */
@@ -577,6 +628,31 @@ export class ExecContext {
      */
     canUseMacros = true;
 
+    /**
+     * Post-mortem debugging, i.e. core dump of crashed backend is loaded.
+     * 
+     * There is no running process, so we can not invoke any function
+     * (palloc, bms_next_member, hash_seq_search, etc...) and must obtain
+     * everything by reading memory.  Things that require catalog lookups
+     * are replaced with placeholders.
+     */
+    isReadOnly = false;
+
+    /**
+     * Pointer to our own memory context used for all allocations
+     * ('palloc'), so we do not touch contexts used by debugged code.
+     * 
+     * Created lazily on first allocation.  Stored as promise, so
+     * concurrent callers do not create it twice.
+     */
+    scratchContext?: Promise<string | undefined>;
+
+    /**
+     * Scratch memory context can be created.  Set to `false` if
+     * we failed to create it, so fallback to CurrentMemoryContext.
+     */
+    hasScratchContext = true;
+
     constructor(debug: dbg.IDebuggerFacade, data: ExecContextData,
                 pgversion: number | undefined, executableType: ExecutableType) {
         this.debug = debug;
@@ -597,6 +673,72 @@ export class ExecContext {
         return name;
     }
 
+    async getStackFrames() {
+        return this.step.stackFrames ??= await this.debug.getStackFrames();
+    }
+
+    /**
+     * Get index of frame in call stack of current thread
+     *
+     * @returns Index of frame or -1 if not found
+     */
+    async getFrameIndex(frameId: number) {
+        const frames = await this.getStackFrames();
+        const index = this.debug.maybeCalcFrameIndex(frameId);
+        if (index !== undefined && 0 <= index && index < frames.length) {
+            return index;
+        }
+
+        return frames.findIndex(f => f.id === frameId);
+    }
+
+    /**
+     * Get top level variables of given frame wrapped into root, so
+     * they can search other variables in it (i.e. rtable).
+     * Cached for current step.
+     */
+    async getFrameVariablesRoot(frameId: number) {
+        let root = this.step.framesVariables.get(frameId);
+        if (root) {
+            return root;
+        }
+
+        const debugVariables = await this.debug.getVariables(frameId);
+        const variables = await Variable.mapVariables(debugVariables, frameId, this);
+        root = new VariablesRoot(variables, this);
+        variables.forEach(v => v.parent = root);
+        this.step.framesVariables.set(frameId, root);
+        return root;
+    }
+
+    /**
+     * Find nearest top level variable satisfying predicate in frames up the
+     * stack, starting from caller of given frame.  I.e. when we are stopped
+     * deep in 'make_join_rel', 'PlannerInfo' lives several frames up.
+     *
+     * @param frameId Frame where search starts, it is not searched itself
+     * @param predicate Function to test variable
+     * @returns Found variable or undefined
+     */
+    async findVariableUpTheStack(frameId: number, predicate: (v: Variable) => boolean) {
+        const frames = await this.getStackFrames();
+        const index = await this.getFrameIndex(frameId);
+
+        /* Unknown frame - can not tell which frames are callers */
+        if (index === -1) {
+            return;
+        }
+
+        const callers = frames.slice(index + 1, index + 1 + maxStackSearchDepth);
+        for (const frame of callers) {
+            const root = await this.getFrameVariablesRoot(frame.id);
+            const variable = root.topLevelVariables.find(predicate);
+            if (variable) {
+                return variable;
+            }
+        }
+    }
+
     /* 
      * Set property values according to knowledge of debugging
      * PostgreSQL server version
@@ -656,6 +798,13 @@ export class ExecContext {
     }
 }
 
+/*
+ * How many caller frames are searched in 'findVariableUpTheStack'.
+ * Planner has deep call stacks, i.e. from 'make_join_rel' to
+ * 'subquery_planner' there are about 10 frames.
+ */
+const maxStackSearchDepth = 32;
+
 function clampContainerLength(size: number) {
     const max = VsCodeSettings.getMaxContainerLength();
     return max < size ? max : size;
@@ -665,6 +814,85 @@ function getMaxContainerLength() {
     return VsCodeSettings.getMaxContainerLength();
 }
 
+/**
+ * Range of container elements shown in variables view: [start, end).
+ * By default first 'maxContainerLength' elements are shown, but user
+ * can load next elements or show arbitrary range of them.
+ */
+/*
+ * How many times range shown by user can be wider than default one.
+ * Each element requires debugger calls, so huge range freezes view.
+ */
+const maxElementsRangeFactor = 16;
+
+export class ElementsRange {
+    /* Index of first shown element */
+    start = 0;
+
+    /* Index after last shown element */
+    end = getMaxContainerLength();
+
+    /*
+     * Total amount of elements in container.  Undefined if it is
+     * not known, i.e. for HTAB we do not know it until iterate it.
+     */
+    total?: number;
+
+    /* There are elements after 'end' */
+    truncated = false;
+
+    /**
+     * Get end of range for container of known size and remember
+     * if it does not fit.
+     */
+    clamp(total: number) {
+        this.total = total;
+        this.truncated = this.end < total;
+        return Math.min(this.end, total);
+    }
+
+    /**
+     * Check index of element during iteration over container.
+     * After it returns 'false' iteration must be stopped.
+     */
+    checkIndex(index: number) {
+        if (this.end <= index) {
+            /* Iterator returned element after the end, so there are more */
+            this.truncated = true;
+            return false;
+        }
+
+        return true;
+    }
+
+    includes(index: number) {
+        return this.start <= index && index < this.end;
+    }
+
+    /**
+     * Show next elements.  Range width is limited the same way as for
+     * range entered by user, so first elements are hidden if necessary.
+     */
+    loadMore() {
+        const maxLength = getMaxContainerLength();
+        this.end += maxLength;
+        this.start = Math.max(this.start, this.end - maxLength * maxElementsRangeFactor);
+    }
+
+    set(start: number, end: number) {
+        this.start = start;
+        this.end = end;
+    }
+}
+
+/**
+ * Placeholder for value which requires system catalog lookup (i.e. name
+ * of function by it's Oid), but it is not available in post-mortem mode.
+ */
+function getCatalogPlaceholder(what: string, oid?: number) {
+    return oid === undefined ? `<${what}>` : `<${what} ${oid}>`;
+}
+
 /**
  * Special value for frameId used by ephemeral variables:
  * they do not need to evaluate anything.
@@ -939,6 +1167,89 @@ async function formatExprMember(v: Variable, member: string) {
     }
 }
 
+/**
+ * Get text representation of expression stored in given variable.
+ * TargetEntry is unwrapped to it's 'expr'.  If variable can not be
+ * formatted, then '???' is returned.
+ */
+async function getExprRepr(v: Variable) {
+    try {
+        if (v instanceof ExprNodeVariable) {
+            return await v.getRepr();
+        }
+
+        if (v instanceof NodeVariable && v.realNodeTag === 'TargetEntry') {
+            const expr = await v.getMember('expr');
+            if (expr instanceof ExprNodeVariable) {
+                return await expr.getRepr();
+            }
+        }
+    } catch (err) {
+        if (!isEvaluationError(err)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not get repr for', v.name);
+    }
+
+    return '???';
+}
+
+/**
+ * Get short PG-aware summary of variable to show outside of variables
+ * view (i.e. inline values in editor): real NodeTag, Expr repr,
+ * List length or Bitmapset members.
+ *
+ * @returns Summary string or undefined if variable is not interesting
+ */
+export async function getVariableSummary(v: Variable) {
+    try {
+        if (v instanceof ListNodeVariable) {
+            if (v.isEmpty()) {
+                return 'NIL';
+            }
+
+            const length = await v.getMemberValueNumber('length');
+            return `${v.realNodeTag}[${length}]`;
+        }
+
+        if (v instanceof BitmapSetSpecialMember) {
+            const members = await v.getRealMembers();
+            if (!members) {
+                return;
+            }
+
+            const elements = await v.getSetElements(members);
+            if (!elements) {
+                return;
+            }
+
+            /* Same format as 'bmsToString' */
+            return elements.length
+                ? `(b ${elements.join(' ')})`
+                : '(b)';
+        }
+
+        if (v instanceof ExprNodeVariable) {
+            return await v.getRepr();
+        }
+
+        if (v instanceof NodeVariable) {
+            /* Pointer value is not interesting - show only custom description */
+            const description = await v.getDescription();
+            return description && description !== v.value
+                ? `${v.realNodeTag} ${description}`
+                : v.realNodeTag;
+        }
+    } catch (err) {
+        if (!isEvaluationError(err)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not get summary for', v.name);
+    }
+}
+
 function getFormatterForNodeVariable(nodetag: string) {
     let member;
     switch (nodetag) {
@@ -1022,7 +1333,7 @@ function getFormatterForPointerType(effectiveType: string) {
      */
 }
 
-function isValidMemoryContextTag(tag: string) {
+export function isValidMemoryContextTag(tag: string) {
     /*
      * Different versions has different algorithms (tags)
      * for memory allocations.
@@ -1042,8 +1353,8 @@ function isValidMemoryContextTag(tag: string) {
              * going to free allocated memory accordingly.
              * But Bump context does not allow pfree/repalloc/etc... operations.
              * 
-             * We can create our own memory context to perform allocations here,
-             * but it will be hard to maintain.
+             * Our scratch memory context does not help here: functions
+             * we invoke still allocate in CurrentMemoryContext.
              */
             return false;
     }
@@ -1092,6 +1403,53 @@ function variablePropertyIsExpandable(props: dbg.IVariableProperties) {
     return true;
 }
 
+/*
+ * Addresses of first page are never mapped, so pointers to
+ * it are small integers or garbage.
+ */
+const minValidPointer = 4096n;
+
+/*
+ * 'NodeTag' is an int, so every Node is aligned at least by it.
+ */
+const nodeAlignment = 4n;
+
+/*
+ * With CLOBBER_FREED_MEMORY (enabled by --enable-cassert) freed
+ * memory is filled with 0x7F bytes, so pointer read from pfree'd
+ * chunk has this value.
+ */
+const clobberedPointers = new Set([0x7f7f7f7fn, 0x7f7f7f7f7f7f7f7fn]);
+
+/**
+ * Cheap check of pointer to Node without debugger invocations.
+ *
+ * @returns Reason why pointer looks like garbage or undefined if it looks valid
+ */
+export function checkNodePointer(pointer: string) {
+    const match = /0x[0-9a-fA-F]+/.exec(pointer);
+    if (!match) {
+        return;
+    }
+
+    const address = BigInt(match[0]);
+    if (address === 0n) {
+        return;
+    }
+
+    if (address < minValidPointer) {
+        return 'pointer to first page of memory';
+    }
+
+    if (clobberedPointers.has(address)) {
+        return 'pointer read from freed memory';
+    }
+
+    if (address % nodeAlignment !== 0n) {
+        return 'pointer is not aligned';
+    }
+}
+
 export abstract class Variable {
     /**
      * Raw variable name (variable/struct member)
@@ -1207,6 +1565,14 @@ export abstract class Variable {
         }
     }
 
+    /**
+     * Drop cached children, so they will be obtained again on next
+     * 'getChildren' call, i.e. after range of container elements changed.
+     */
+    resetChildren() {
+        this.childrenCache = undefined;
+    }
+
     protected isExpandable() {
         if (!this.type?.length) {
             /* Special members */
@@ -1227,6 +1593,15 @@ export abstract class Variable {
             : `${this.name}: ${this.declaredType}`;
     }
 
+    /**
+     * Value for 'viewItem' in 'when' clauses of context menu commands.
+     * Contains space separated words, so use regex to match them,
+     * i.e. `viewItem =~ /\bplan\b/`.
+     */
+    protected getContextValue(): string | undefined {
+        return undefined;
+    }
+
     /**
      * Create {@link vscode.TreeItem TreeItem} for variables view
      */
@@ -1238,6 +1613,7 @@ export abstract class Variable {
                 collapsibleState: this.isExpandable()
                     ? vscode.TreeItemCollapsibleState.Collapsed
                     : vscode.TreeItemCollapsibleState.None,
+                contextValue: this.getContextValue(),
             };
         } catch (error: unknown) {
             if (isEvaluationError(error)) {
@@ -1271,9 +1647,16 @@ export abstract class Variable {
         return resultType;
     }
 
-    protected async getArrayMembers(expression: string, length: number) {
-        const variables = await this.debug.getArrayVariables(expression,
+    protected async getArrayMembers(expression: string, length: number, start = 0) {
+        const array = start ? `((${expression}) + ${start})` : expression;
+        const variables = await this.debug.getArrayVariables(array,
                                                              length, this.frameId);
+
+        /* Elements are named by their index in the whole array */
+        if (start) {
+            variables.forEach((v, i) => v.name = getNameForArrayElement(start + i));
+        }
+
         return await Variable.mapVariables(variables, this.frameId, this.context, this);
     }
 
@@ -1374,6 +1757,18 @@ export abstract class Variable {
             }
         }
 
+        /*
+         * Garbage in Node pointer leads to garbage in all members, and
+         * for Bitmapset even to backend crash during elements iteration.
+         */
+        if (   context.nodeVarRegistry.isNodeVar(effectiveType)
+            || BitmapSetSpecialMember.isBitmapsetType(effectiveType)) {
+            const reason = checkNodePointer(context.debug.getPointer(debugVariable) ?? '');
+            if (reason) {
+                return new GarbageVariable(reason, args);
+            }
+        }
+
         /*
          * PostgreSQL versions prior 16 do not have Bitmapset Node.
          * So handle Bitmapset (with Relids) here.
@@ -1407,6 +1802,16 @@ export abstract class Variable {
             }
         }
         
+        /* Disk page (storage/bufpage.h) */
+        if (PageVariable.isPageType(effectiveType)) {
+            return new PageVariable(args);
+        }
+
+        /* Heap tuple header (access/htup_details.h) */
+        if (HeapTupleHeaderVariable.isHeapTupleHeaderType(effectiveType)) {
+            return new HeapTupleHeaderVariable(args);
+        }
+
         args.formatter = getFormatterForPointerType(effectiveType);
 
         /* At the end - it is simple variable */
@@ -1450,6 +1855,14 @@ export abstract class Variable {
     }
     
     async checkCanAlloc() {
+        /*
+         * This is the entry point for all function invocations,
+         * but in core dump there is no process to run them.
+         */
+        if (this.context.isReadOnly) {
+            throw new EvaluationError('Function calls are not available in post-mortem mode');
+        }
+
         /*
          * Memory allocation is a very sensitive operation.
          */
@@ -1459,14 +1872,99 @@ export abstract class Variable {
         }
     }
 
+    private async createScratchContext() {
+        /*
+         * Starting from 11 memory context stores pointer to name as is,
+         * so it must live as long as context itself - copy it to
+         * TopMemoryContext.
+         */
+        const nameResult = await this.evaluate('MemoryContextStrdup(TopMemoryContext, "PGHH scratch")');
+        const name = this.debug.extractPtrFromString(nameResult);
+        if (!name || dbg.pointerIsNull(name)) {
+            throw new EvaluationError(`could not allocate scratch memory context name: ${nameResult.result}`);
+        }
+
+        /* ALLOCSET_SMALL_SIZES */
+        const args = `TopMemoryContext, (const char *)${name}, 0, 1024, 8 * 1024`;
+        let expr;
+        if (this.context.pgVersionAtLeast(12_00_00)) {
+            expr = `AllocSetContextCreateInternal(${args})`;
+        } else if (this.context.pgVersionAtLeast(11_00_00)) {
+            expr = `AllocSetContextCreateExtended(${args})`;
+        } else {
+            expr = `AllocSetContextCreate(${args})`;
+        }
+
+        const result = await this.evaluate(`(void *)${expr}`);
+        if (this.debug.isNull(result)) {
+            throw new EvaluationError('AllocSetContextCreate returned NULL');
+        }
+
+        return this.debug.getPointer({...result, value: result.result});
+    }
+
+    private async tryCreateScratchContext() {
+        try {
+            return await this.createScratchContext();
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                /* Debugger is not available - try again next time */
+                this.context.scratchContext = undefined;
+                throw err;
+            }
+
+            logger.error(err, 'could not create scratch memory context, switching to CurrentMemoryContext');
+            this.context.hasScratchContext = false;
+        }
+    }
+
+    /**
+     * Get pointer to our scratch memory context, creating it if necessary.
+     * Context is reset at first access after each step, so memory
+     * allocated during previous stop is released.
+     * 
+     * @returns Pointer to MemoryContext or undefined if it is not available
+     */
+    async getScratchContext() {
+        /* Frontend utilities do not have memory contexts */
+        if (!this.context.hasScratchContext || this.context.isFrontend) {
+            return;
+        }
+
+        if (!this.context.scratchContext) {
+            /* Just created context is empty - nothing to reset */
+            this.context.scratchContext = this.tryCreateScratchContext();
+            this.context.step.scratchContextReset = Promise.resolve();
+        }
+
+        const scratch = await this.context.scratchContext;
+        if (!scratch) {
+            return;
+        }
+
+        this.context.step.scratchContextReset ??=
+            this.evaluateVoid(`MemoryContextReset((MemoryContext)${scratch})`)
+                .then(() => undefined);
+        await this.context.step.scratchContextReset;
+        return scratch;
+    }
+
     /**
      * call `palloc` with specified size (can be expression).
      * before, it performs some checks and can throw EvaluationError
      * if they fail.
+     * 
+     * If possible, memory is allocated in our scratch memory context.
      */
     async palloc(size: string) {
         await this.checkCanAlloc();
 
+        const scratch = await this.getScratchContext();
+        if (scratch) {
+            const result = await this.evaluate(`MemoryContextAlloc((MemoryContext)${scratch}, ${size})`);
+            return result.result;
+        }
+
         if (this.context.hasPalloc) {
             try {
                 /* 
@@ -1779,10 +2277,14 @@ export abstract class Variable {
 export class VariablesRoot extends Variable {
     static variableRootName = '$variables root$';
 
+    /**
+     * @param parent Group of frame variables, when variables of several
+     *               frames are shown (it is not searched as a variable)
+     */
     constructor(public topLevelVariables: Variable[],
-                context: ExecContext) {
+                context: ExecContext, parent?: Variable) {
         super(VariablesRoot.variableRootName, '', '', '', context, invalidFrameId,
-              undefined);
+              parent);
     }
 
     async doGetChildren(): Promise<Variable[] | undefined> {
@@ -1824,6 +2326,36 @@ class InvalidVariable extends Variable {
     }
 }
 
+/**
+ * Pointer variable which value looks like garbage: it is not aligned,
+ * points to memory with invalid NodeTag, etc...  It's members would be
+ * garbage too, so it is not expanded.
+ */
+class GarbageVariable extends InvalidVariable {
+    /* Why we think pointer is garbage, i.e. 'pointer is not aligned' */
+    reason: string;
+
+    constructor(reason: string, args: RealVariableArgs) {
+        super(args);
+        this.reason = reason;
+    }
+
+    protected async getDescription() {
+        return `${this.value} <invalid: ${this.reason}>`;
+    }
+
+    protected getContextValue() {
+        return 'garbage';
+    }
+
+    async getTreeItem() {
+        const item = await super.getTreeItem();
+        item.tooltip = `Pointer looks like garbage: ${this.reason}`;
+        item.iconPath = new vscode.ThemeIcon('warning');
+        return item;
+    }
+}
+
 type DescriptionFormatter = (variable: Variable) => Promise<string | null | undefined>;
 
 /* Utility structure used to reduce the number of function arguments */
@@ -1958,6 +2490,11 @@ export class RealVariable extends Variable {
         return this.realMembersCache;
     }
 
+    resetChildren() {
+        super.resetChildren();
+        this.realMembersCache = undefined;
+    }
+
     /* Cached value of `this.descriptionFormatter` */
     customDescriptionCache?: string;
     async getDescription() {
@@ -2139,6 +2676,19 @@ export class RealVariable extends Variable {
             } else {
                 return `${cast}${this.name}`;
             }
+        } else if (this.parent instanceof ExpressionsGroupVariable) {
+            /* Watch or Globals item - use expression it was evaluated from */
+            const expression = this.parent.getExpression(this.name);
+            if (!expression) {
+                return null;
+            }
+
+            /* Expression is arbitrary, i.e. '*root', so parenthesize it */
+            if (this.getTypeProperties().isValueStruct()) {
+                return `(${expression})`;
+            } else {
+                return `${cast}(${expression})`;
+            }
         } else if (   this.parent instanceof ListElementsMember
                   || this.parent instanceof LinkedListElementsMember) {
             if (this.getTypeProperties().pointerCanDeref()) {
@@ -2302,6 +2852,10 @@ export class NodeVariable extends RealVariable {
             : `${this.name}: ${this.declaredType} [${this.realNodeTag}]`;
     }
 
+    protected getContextValue(): string | undefined {
+        return `node ${this.realNodeTag}`;
+    }
+
     protected async checkNodeTagMatchType() {
         if (!this.tagsMatch()) {
             await this.castToNodeTag(this.realNodeTag);
@@ -2355,10 +2909,107 @@ export class NodeVariable extends RealVariable {
         return members;
     }
 
+    /**
+     * Find struct, that contains given member.  Some nodes (i.e. Plan or
+     * Path) embed their base structures as first member, i.e.
+     * SeqScan -> Scan -> Plan, so we traverse this chain until member is found.
+     *
+     * @returns Struct containing member or undefined if not found
+     */
+    protected async findEmbeddedStruct(member: string): Promise<RealVariable | undefined> {
+        /* 'undefined' means this node itself */
+        let struct: RealVariable | undefined;
+
+        /* Max depth is 3: HashJoin -> Join -> Plan or NestPath -> JoinPath -> Path */
+        for (let i = 0; i < 3; i++) {
+            const members = struct
+                ? await struct.getRealMembers()
+                : await this.getRealMembers();
+            if (!members?.length) {
+                return;
+            }
+
+            if (members.find(m => m.name === member)) {
+                return struct ?? this;
+            }
+
+            const base = members[0];
+            if (!(   base instanceof RealVariable
+                  && base.getTypeProperties().isValueStruct())) {
+                return;
+            }
+
+            struct = base;
+        }
+    }
+
+    protected async getEmbeddedMember(member: string) {
+        const struct = await this.findEmbeddedStruct(member);
+        if (!struct) {
+            return;
+        }
+
+        return await struct.getMember(member);
+    }
+
+    protected async getEmbeddedListElements(member: string) {
+        const struct = await this.findEmbeddedStruct(member);
+        if (!struct) {
+            return;
+        }
+
+        return await struct.getListMemberElements(member);
+    }
+
+    protected async getEmbeddedNumber(member: string) {
+        const m = await this.getEmbeddedMember(member);
+        if (!m) {
+            return;
+        }
+
+        const value = Number(m.value);
+        if (Number.isNaN(value)) {
+            throw new UnexpectedOutputError(`member ${member} output is not number`);
+        }
+        return value;
+    }
+
     static getTagFromType(type: string) {
         return dbg.getStructNameFromType(type);
     }
     
+    /**
+     * Check that Node is stored in chunk allocated in memory context,
+     * i.e. it is not pointer to stack or static memory.
+     * Chunk header is decoded only by reading memory, so pointer,
+     * which is not a start of chunk, is not passed to any function.
+     *
+     * @returns Reason why pointer is invalid or undefined if it is valid
+     */
+    private static async checkMemoryContext(pointer: string, frameId: number,
+                                            context: ExecContext) {
+        const address = /0x[0-9a-fA-F]+/.exec(pointer)?.[0];
+        if (!address) {
+            return;
+        }
+
+        try {
+            if (await getChunkMemoryContext(context, frameId, address)) {
+                return;
+            }
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            /* Header is unreadable - can not tell anything */
+            logger.debug('could not get memory context of', pointer, err);
+            return;
+        }
+
+        return 'pointer is not a chunk of memory context';
+    }
+
     static async tryCreateNode(variable: dap.DebugVariable, frameId: number,
                                context: ExecContext, args: RealVariableArgs) {
         if (!context.nodeVarRegistry.isNodeVar(args.type)) {
@@ -2373,13 +3024,15 @@ export class NodeVariable extends RealVariable {
          * XXX: it would be better to add some Node inheritance knowledge
          *      to reduce debugger invocations
          */
-        const expr = `((Node *)(${context.debug.getPointer(variable)}))->type`;
+        const pointer = context.debug.getPointer(variable);
+        const expr = `((Node *)(${pointer}))->type`;
         let response;
 
         try {
             response = await context.debug.evaluate(expr, frameId);
         } catch (err) {
             if (isEvaluationError(err)) {
+                /* Most likely, pointer to unmapped memory */
                 logger.error(err, 'could not get NodeTag for', expr);
                 return;
             }
@@ -2387,16 +3040,47 @@ export class NodeVariable extends RealVariable {
             throw err;
         }
 
+        /* 
+         * Debuggers show enum values out of NodeTag range as numbers,
+         * i.e. '2139062143' for 0x7F7F7F7F from freed memory.
+         */
         if (!response.result.startsWith('T_')) {
-            return;
+            return new GarbageVariable(`invalid NodeTag ${response.result}`, args);
         }
         
         /* Do not use replace('T_', ''), because this 'T_' can be inside identifier */
         const realTag = response.result.substring(2);
+        if (realTag === 'Invalid') {
+            /* Zeroed memory */
+            return new GarbageVariable('NodeTag is T_Invalid', args);
+        }
+
+        /* 
+         * Tag is not registered, but it is not garbage: debugger shows 'T_'
+         * name only for values from NodeTag enum of the binary.  Registry
+         * can just lack it, i.e. NodeTag files were not found or tag is
+         * added by newer version or extension, so show it as plain struct.
+         */
         if (!context.nodeVarRegistry.isNodeTag(realTag)) {
             return;
         }
 
+        /*
+         * MemoryContext headers are not always allocated by palloc (i.e.
+         * TopMemoryContext or AllocSet stored in it's first block), and
+         * Nodes embedded into structures or arrays (not pointers) are never
+         * start of chunk, so they are not checked.
+         */
+        if (   pointer
+            && VsCodeSettings.getCheckNodeMemoryContext()
+            && dbg.havePointersCount(args.type, 1)
+            && !isMemoryContextTag(response.result)) {
+            const reason = await NodeVariable.checkMemoryContext(pointer, frameId, context);
+            if (reason) {
+                return new GarbageVariable(reason, args);
+            }
+        }
+
         /* List */
         if (ListNodeVariable.isListVariable(realTag)) {
             return new ListNodeVariable(realTag, args);
@@ -2424,6 +3108,20 @@ export class NodeVariable extends RealVariable {
             return new ExprNodeVariable(realTag, args);
         }
 
+        /* Plan nodes with EXPLAIN-like description */
+        if (context.nodeVarRegistry.plans.has(realTag)) {
+            return new PlanNodeVariable(realTag, args);
+        }
+
+        /* Path nodes with summary of path tree */
+        if (context.nodeVarRegistry.paths.has(realTag)) {
+            return new PathNodeVariable(realTag, args);
+        }
+
+        if (realTag === 'Query') {
+            return new QueryNodeVariable(realTag, args);
+        }
+
         /* Check this is a tag of 'Value' */
         if (realTag === 'String' ||
             realTag === 'Integer' ||
@@ -2476,6 +3174,10 @@ class ExprNodeVariable extends NodeVariable {
             return null;
         }
 
+        if (this.context.isReadOnly) {
+            return getCatalogPlaceholder('func', oid);
+        }
+
         const result = await this.evaluateSysCache(`get_func_name((Oid) ${oid})`);
         const str = this.debug.extractString(result);
         if (str === null) {
@@ -2498,6 +3200,10 @@ class ExprNodeVariable extends NodeVariable {
             return null;
         }
 
+        if (this.context.isReadOnly) {
+            return getCatalogPlaceholder('op', oid);
+        }
+
         const result = await this.evaluateSysCache(`get_opname((Oid)${oid})`);
 
         const str = this.debug.extractString(result);
@@ -2655,7 +3361,8 @@ class ExprNodeVariable extends NodeVariable {
             return 'ROWID';
         }
 
-        const rtable = await this.getRtable();
+        const levelsUp = await this.getMemberValueNumber('varlevelsup');
+        const rtable = await ExprNodeVariable.getRtable(this, levelsUp);
         if (!rtable) {
             return '???.???';
         }
@@ -2710,7 +3417,9 @@ class ExprNodeVariable extends NodeVariable {
             const getAttnameExpr = `   ${rtePtr}->rtekind == ${rteRelation} 
                                     && ${rtePtr}->relid   != ${InvalidOid}`;
             const evalResult = await this.evaluate(getAttnameExpr);
-            const useGetAttname = this.debug.extractBool(evalResult);
+            /* In post-mortem mode only 'eref' can be used */
+            const useGetAttname =    !this.context.isReadOnly
+                                  && this.debug.extractBool(evalResult);
             if (useGetAttname) {
                 let r;
                 let attname;
@@ -2797,6 +3506,11 @@ class ExprNodeVariable extends NodeVariable {
             return 'NULL';
         }
 
+        if (this.context.isReadOnly) {
+            /* Output function can not be invoked, so show type at least */
+            return getCatalogPlaceholder('const of type', await this.getMemberValueNumber('consttype'));
+        }
+
         const tupOutput = await this.palloc('sizeof(Oid)');
         const tupIsVarlena = await this.palloc('sizeof(Oid)');
 
@@ -2820,11 +3534,13 @@ class ExprNodeVariable extends NodeVariable {
         let tupOutputType;
         let tupIsVarLenaType;
         let tupIOParamType;
-        if (this.debug.type === dbg.DebuggerType.CppDbg) {
+        if (   this.debug.type === dbg.DebuggerType.CppDbg
+            || this.debug.type === dbg.DebuggerType.GdbDap) {
             tupOutputType = tupIsVarLenaType = tupIOParamType = 'void *';
         } else {
-            console.assert(this.debug.type === dbg.DebuggerType.CodeLLDB,
-                           'The only other option for DebuggerType is CodeLLDB but passed %d', this.debug.type);
+            const isLldb =    this.debug.type === dbg.DebuggerType.CodeLLDB
+                           || this.debug.type === dbg.DebuggerType.LldbDap;
+            console.assert(isLldb, 'Other options for DebuggerType are lldb based but passed %d', this.debug.type);
             tupOutputType = 'Oid *';
             if (this.context.hasBoolAsChar) {
                 tupIsVarLenaType = 'char *';
@@ -3907,9 +4623,50 @@ class ExprNodeVariable extends NodeVariable {
         return await this.getReprInternal();
     }
 
-    private async getRtable() {
-        if (this.context.step.rtable.exists) {
-            return this.context.step.rtable.rtable;
+    /*
+     * Find Query, which contains given expression, i.e. subquery in FROM
+     * or CTE.  'levelsUp' is the same as 'varlevelsup' of Var.
+     */
+    private static findParentQuery(variable: Variable, levelsUp: number) {
+        let node = variable.parent;
+        while (node && !(node instanceof VariablesRoot)) {
+            if (node instanceof QueryNodeVariable) {
+                if (levelsUp === 0) {
+                    return node;
+                }
+
+                levelsUp--;
+            }
+
+            node = node.parent;
+        }
+    }
+
+    /**
+     * Get range table for expression.  If expression is part of Query, then
+     * it's range table is used, otherwise range table found for current step.
+     * Result is cached for current step, so can be called multiple times.
+     *
+     * @param levelsUp Amount of Query levels up, i.e. 'varlevelsup' of Var
+     * @returns Elements of range table or undefined if not found
+     */
+    static async getRtable(variable: Variable, levelsUp = 0) {
+        /* Each Query (i.e. subquery or CTE) has it's own range table */
+        const query = ExprNodeVariable.findParentQuery(variable, levelsUp);
+        if (query) {
+            return await query.getQueryRtable() as NodeVariable[];
+        }
+
+        /*
+         * Range table of current step belongs to the innermost level, so
+         * it can not be used for outer-level Var.
+         */
+        if (levelsUp > 0) {
+            return;
+        }
+
+        if (variable.context.step.rtable.exists) {
+            return variable.context.step.rtable.rtable;
         }
 
         /* 
@@ -3934,28 +4691,28 @@ class ExprNodeVariable extends NodeVariable {
          * We know that NodeJS is single-threaded so it is safe to update
          * 'waiter' member without any locks.
          */
-        if (this.context.step.rtable.waiter) {
-            await this.context.step.rtable.waiter;
+        if (variable.context.step.rtable.waiter) {
+            await variable.context.step.rtable.waiter;
         } else {
             /* eslint-disable-next-line no-async-promise-executor */
             const waiter = new Promise<void>(async (resolve, reject) => {
                 try {
-                    const rtable = await this.findRtable() as NodeVariable[] | undefined;
-                    this.context.step.rtable.rtable = rtable;
-                    this.context.step.rtable.exists = true;
+                    const rtable = await ExprNodeVariable.findRtable(variable) as NodeVariable[] | undefined;
+                    variable.context.step.rtable.rtable = rtable;
+                    variable.context.step.rtable.exists = true;
                     resolve();
                 } catch (error) {
                     reject(error);
                 }
             });
-            this.context.step.rtable.waiter = waiter;
+            variable.context.step.rtable.waiter = waiter;
             await waiter;
         }
 
-        return this.context.step.rtable.rtable;
+        return variable.context.step.rtable.rtable;
     }
 
-    private async findRtable() {
+    private static async findRtable(variable: Variable) {
         /*
          * We can go in 4 ways:
          *
@@ -4000,7 +4757,7 @@ class ExprNodeVariable extends NodeVariable {
             return;
         };
 
-        let node = this.parent;
+        let node = variable.parent;
         while (node && !(node instanceof VariablesRoot)) {
             if (isRtableContainingNode(node)) {
                 /* Found suitable Node directly */
@@ -4105,6 +4862,13 @@ class ExprNodeVariable extends NodeVariable {
             }
         }
 
+        /* Query or PlannerInfo can be in one of the callers */
+        const caller = await variable.context.findVariableUpTheStack(
+            variable.frameId, isRtableContainingNode);
+        if (caller) {
+            return await tryGetRtable(caller as NodeVariable);
+        }
+
         /* Did not find anything */
     }
 
@@ -4123,2087 +4887,4455 @@ class ExprNodeVariable extends NodeVariable {
     }
 }
 
-class ListElementsMember extends Variable {
+/**
+ * Get EXPLAIN name of join plan node with it's join type, i.e. 'Hash Left Join'
+ * (src/backend/commands/explain.c:ExplainNode).
+ *
+ * @param name Name of plan node, i.e. 'Hash'
+ * @param tag NodeTag of plan node
+ * @param jointype Value of 'jointype' member, i.e. 'JOIN_LEFT'
+ */
+export function formatJoinPlanName(name: string, tag: string, jointype: string | undefined) {
+    const joinName = jointype?.startsWith('JOIN_')
+        ? jointype.substring('JOIN_'.length)
+        : undefined;
+    if (joinName && joinName !== 'INNER') {
+        const pretty = joinName.split('_')
+                               .map(x => x.charAt(0) + x.substring(1).toLowerCase())
+                               .join(' ');
+        return `${name} ${pretty} Join`;
+    }
+
+    /* Inner Nested Loop is shown without 'Join' */
+    return tag === 'NestLoop' ? name : `${name} Join`;
+}
+
+/**
+ * Format costs of plan node as EXPLAIN does,
+ * i.e. '(cost=0.00..35.50 rows=2550 width=4)'
+ */
+export function formatPlanCost(startup: number, total: number, rows: number, width: number) {
+    return `(cost=${startup.toFixed(2)}..${total.toFixed(2)} ` +
+           `rows=${rows.toFixed(0)} width=${width})`;
+}
+
+/**
+ * Plan node (SeqScan, HashJoin, Agg, etc...) with EXPLAIN-like description.
+ */
+export class PlanNodeVariable extends NodeVariable {
     /*
-     * Members of this list
+     * Additional expressions shown in EXPLAIN for particular nodes.
+     * Pairs of member name and label in EXPLAIN output.
      */
-    members: Variable[] | undefined;
+    private static planClauses = new Map<string, [string, string][]>([
+        ['IndexScan', [['indexqualorig', 'Index Cond'], ['indexorderbyorig', 'Order By']]],
+        ['IndexOnlyScan', [['indexqual', 'Index Cond'], ['indexorderby', 'Order By']]],
+        ['BitmapIndexScan', [['indexqualorig', 'Index Cond']]],
+        ['BitmapHeapScan', [['bitmapqualorig', 'Recheck Cond']]],
+        ['TidScan', [['tidquals', 'TID Cond']]],
+        ['TidRangeScan', [['tidrangequals', 'TID Cond']]],
+        ['NestLoop', [['joinqual', 'Join Filter']]],
+        ['MergeJoin', [['mergeclauses', 'Merge Cond'], ['joinqual', 'Join Filter']]],
+        ['HashJoin', [['hashclauses', 'Hash Cond'], ['joinqual', 'Join Filter']]],
+        ['Result', [['resconstantqual', 'One-Time Filter']]],
+    ]);
 
-    /**
-     * Member of ListCell to use.
-     * @example int_value, oid_value
+    /*
+     * Members with child plans which are stored in List.
+     * 'lefttree' and 'righttree' are handled separately.
      */
-    cellValue: string;
+    private static childPlansMembers = new Map<string, string>([
+        ['Append', 'appendplans'],
+        ['MergeAppend', 'mergeplans'],
+        ['BitmapAnd', 'bitmapplans'],
+        ['BitmapOr', 'bitmapplans'],
+        ['CustomScan', 'custom_plans'],
+        /* Up to 14 version */
+        ['ModifyTable', 'plans'],
+    ]);
 
-    /**
-     * Real type of stored data
-     * @example int, Oid, Node * (or custom)
+    /*
+     * Get range table index of relation shown in description: scanned
+     * relation or target of ModifyTable.
      */
-    listCellType: string;
+    private async getRelationIndex() {
+        if (this.realNodeTag !== 'ModifyTable') {
+            return await this.getEmbeddedNumber('scanrelid');
+        }
 
-    /**
-     * Parent List variable to which we belong
-     */
-    listParent: ListNodeVariable;
+        /* Relation named in query, i.e. partitioned table */
+        const nominalRelation = await this.getMemberValueNumber('nominalRelation');
+        if (nominalRelation) {
+            return nominalRelation;
+        }
 
-    constructor(listParent: ListNodeVariable, cellValue: string,
-                listCellType: string, args: RealVariableArgs) {
-        super('$elements$', '', '', '', args.context, args.frameId, listParent);
-        this.listParent = listParent;
-        this.cellValue = cellValue;
-        this.listCellType = listCellType;
-    }
+        const resultRelations = await this.getMember('resultRelations');
+        if (!(resultRelations instanceof ListNodeVariable)) {
+            return;
+        }
 
-    protected isExpandable() {
-        return !this.listParent.isEmpty();
+        const first = await resultRelations.getElement(0);
+        return first ? Number(first.value) : undefined;
     }
 
-    async getPointerElements() {
-        const length = await this.listParent.getListLength();
-        if (!length) {
+    /**
+     * Get name of scanned relation from range table using 'scanrelid'
+     * or name of modified relation for ModifyTable.
+     */
+    private async getScanRelationName() {
+        /* Bitmap Index Scan shows index name, which requires syscache */
+        if (this.realNodeTag === 'BitmapIndexScan') {
             return;
         }
 
-        const listType = this.listParent.getMemberExpression('elements');
-        const expression = `(${this.listCellType} *)(${listType})`;
-        return super.getArrayMembers(expression, length);
-    }
-
-    async getIntegerElements() {
-        const length = await this.listParent.getListLength();
-        if (!length) {
+        const scanrelid = await this.getRelationIndex();
+        if (!scanrelid) {
             return;
         }
 
-        /*
-         * We can not just cast `elements' to 'int *' or 'Oid *'
-         * due to padding in union.  For these we iterate
-         * each element and evaluate each item independently
-         */
-        
-        const elements: RealVariable[] = [];
-        const elementsMemberExpr = `((ListCell *)${this.listParent.getMemberExpression('elements')})`;
-        for (let i = 0; i < length; i++) {
-            const expression = `${elementsMemberExpr}[${i}].${this.cellValue}`;
-            const response = await this.debug.evaluate(expression, this.frameId);
-            elements.push(new RealVariable({
-                name: getNameForArrayElement(i),
-                type: this.listCellType,
-                declaredType: this.listCellType,
-                variablesReference: response.variablesReference,
-                value: response.result,
-                memoryReference: response.memoryReference,
-                frameId: this.frameId,
-                context: this.context,
-                parent: this,
-            }));
+        const rtable = await ExprNodeVariable.getRtable(this);
+        if (!rtable || rtable.length < scanrelid) {
+            return '???';
         }
 
-        return elements;
+        const rte = rtable[scanrelid - 1];
+        const eref = await getNullableAliasValue(await rte.getMember('eref'));
+        const alias = await getNullableAliasValue(await rte.getMember('alias'));
+        if (alias && alias !== eref) {
+            return `${eref} ${alias}`;
+        }
+        return eref ?? '???';
     }
 
-    async doGetChildren() {
-        if (this.members !== undefined) {
-            return this.members;
+    private async getNodeName() {
+        /* Node name must exist - otherwise we would not have created this object */
+        let name = unnullify(this.context.nodeVarRegistry.plans.get(this.realNodeTag),
+                             'plan node name');
+        switch (this.realNodeTag) {
+            case 'NestLoop':
+            case 'MergeJoin':
+            case 'HashJoin': {
+                const jointype = await this.getEmbeddedMember('jointype');
+                name = formatJoinPlanName(name, this.realNodeTag, jointype?.value);
+                break;
+            }
+            case 'Agg': {
+                const strategy = await this.getMemberValueEnum('aggstrategy');
+                switch (strategy) {
+                    case 'AGG_SORTED':
+                        name = 'GroupAggregate';
+                        break;
+                    case 'AGG_HASHED':
+                        name = 'HashAggregate';
+                        break;
+                    case 'AGG_MIXED':
+                        name = 'MixedAggregate';
+                        break;
+                }
+                break;
+            }
+            case 'ModifyTable': {
+                const operation = await this.getMemberValueEnum('operation');
+                if (operation.startsWith('CMD_')) {
+                    const op = operation.substring('CMD_'.length);
+                    name = op.charAt(0) + op.substring(1).toLowerCase();
+                }
+                break;
+            }
         }
 
-        this.members = await (
-            this.listParent.realNodeTag === 'List'
-                ? this.getPointerElements()
-                : this.getIntegerElements()
-        );
+        const relname = await this.getScanRelationName();
+        if (relname) {
+            name += ` on ${relname}`;
+        }
 
-        return this.members;
+        return name;
     }
-}
 
-/*
- * Show elements of List for Linked List implementation (head/tail).
- * Suitable for Postgres version prior to 13.
- */
-class LinkedListElementsMember extends Variable {
-    /* Members of this List */
-    members: Variable[] | undefined;
+    private async getCostRepr() {
+        const startup = await this.getEmbeddedNumber('startup_cost');
+        const total = await this.getEmbeddedNumber('total_cost');
+        const rows = await this.getEmbeddedNumber('plan_rows');
+        const width = await this.getEmbeddedNumber('plan_width');
+        if (   startup === undefined || total === undefined
+            || rows === undefined || width === undefined) {
+            return;
+        }
 
-    /**
-     * Member of ListCell to use.
-     * @example int_value, oid_value, ptr_value, xid_value
-     */
-    cellValue: string;
+        return formatPlanCost(startup, total, rows, width);
+    }
 
     /**
-     * Real type of stored data
-     * @example int, Oid, Node *, Xid
+     * Get one-line EXPLAIN-like header of this node,
+     * i.e. 'Seq Scan on t1  (cost=0.00..35.50 rows=2550 width=4)'
      */
-    realType: string;
+    async getPlanHeader() {
+        const name = await this.getNodeName();
+        const cost = await this.getCostRepr();
+        return cost ? `${name}  ${cost}` : name;
+    }
 
     /**
-     * List structure we observing
+     * Get expressions lines shown under node header:
+     * 'Output', 'Filter' and node specific clauses.
      */
-    listParent: ListNodeVariable;
+    async getPlanDetails() {
+        const details: [string, string][] = [];
+        const addClause = async (member: string, label: string, separator: string) => {
+            let elements: Variable[] | undefined;
+            try {
+                elements = await this.getEmbeddedListElements(member);
+            } catch (err) {
+                if (!isEvaluationError(err)) {
+                    throw err;
+                }
 
-    constructor(listParent: ListNodeVariable, cellValue: string,
-                realType: string, context: ExecContext) {
-        super('$elements$', '', '', '', context, listParent.frameId, listParent);
-        this.listParent = listParent;
-        this.cellValue = cellValue;
-        this.realType = realType;
-    }
+                logger.error(err, 'could not get elements of', member);
+                return;
+            }
 
-    async getLinkedListElements() {
-        /*
-         * Traverse through linked list until we get NULL
-         * and read each element from List manually.
-         * So we do not need to evaluate length.
-         */
-        const elements: dap.DebugVariable[] = [];
-        const headExpression = this.listParent.getMemberExpression('head');
-        let evaluateName = headExpression;
-        let cell = await this.debug.evaluate(headExpression, this.frameId);
-        let i = 0;
-        do {
-            const valueExpression = `(${this.realType})((${evaluateName})->data.${this.cellValue})`;
-            const response = await this.debug.evaluate(valueExpression, this.frameId);
-            elements.push({
-                name: getNameForArrayElement(i),
-                value: response.result,
-                type: this.realType,
-                variablesReference: response.variablesReference,
-                memoryReference: response.memoryReference,
-            });
-            evaluateName = `${evaluateName}->next`;
-            cell = await this.debug.evaluate(evaluateName, this.frameId);
-            ++i;
-        } while (!this.debug.isNull(cell));
+            if (!elements?.length) {
+                return;
+            }
 
-        return await Variable.mapVariables(elements, this.frameId, this.context,
-                                           this.listParent);
-    }
+            const reprs = [];
+            for (const e of elements) {
+                reprs.push(await getExprRepr(e));
+            }
+            details.push([label, reprs.join(separator)]);
+        };
 
-    async doGetChildren() {
-        if (this.members !== undefined) {
-            return this.members;
+        await addClause('targetlist', 'Output', ', ');
+        for (const [member, label] of PlanNodeVariable.planClauses.get(this.realNodeTag) ?? []) {
+            await addClause(member, label, ' AND ');
         }
-
-        this.members = await this.getLinkedListElements();
-        return this.members;
+        await addClause('qual', 'Filter', ' AND ');
+        return details;
     }
 
-    protected isExpandable(): boolean {
-        return true;
-    }
-}
+    /**
+     * Get child plans of this node in order they are shown in EXPLAIN
+     */
+    async getChildPlans() {
+        const children: PlanNodeVariable[] = [];
+        for (const member of ['lefttree', 'righttree']) {
+            const child = await this.getEmbeddedMember(member);
+            if (child instanceof PlanNodeVariable) {
+                children.push(child);
+            }
+        }
 
-/**
- * Special class to represent various Lists: Node, int, Oid, Xid...
- */
-export class ListNodeVariable extends NodeVariable {
-    /* Special member, that manages elements of this List */
-    listElements?: ListElementsMember | LinkedListElementsMember;
+        if (this.realNodeTag === 'SubqueryScan') {
+            const subplan = await this.getMember('subplan');
+            if (subplan instanceof PlanNodeVariable) {
+                children.push(subplan);
+            }
+        }
 
-    getMemberExpression(member: string) {
-        return `((${this.getType()})${this.getPointer()})->${member}`;
-    }
+        const listMember = PlanNodeVariable.childPlansMembers.get(this.realNodeTag);
+        if (listMember) {
+            let elements: Variable[] | undefined;
+            try {
+                elements = await this.getListMemberElements(listMember);
+            } catch (err) {
+                if (!(err instanceof NoMemberFoundError)) {
+                    throw err;
+                }
+            }
 
-    isEmpty() {
-        /* Empty 'List *' is NIL (== NULL) */
-        return this.getTypeProperties().pointerIsNull();
-    }
-    
-    getListInfo() {
-        switch (this.realNodeTag) {
-            case 'List': 
-                return {member: 'ptr_value', type: 'void *'};
-            case 'IntList': 
-                return {member: 'int_value', type: 'int'};
-            case 'OidList': 
-                return {member: 'oid_value', type: 'Oid'};
-            case 'XidList': 
-                return {member: 'xid_value', type: 'TransactionId'};
+            for (const e of elements ?? []) {
+                if (e instanceof PlanNodeVariable) {
+                    children.push(e);
+                }
+            }
         }
+
+        return children;
     }
 
-    async getListInfoSafe() {
-        if (this.realNodeTag === 'List') {
-            const realType = await this.findTypeForPtr();
-            if (realType) {
-                return {
-                    member: 'ptr_value',
-                    type: realType,
-                };
-            }
-            
-            return {member: 'ptr_value', type: 'void *'};
+    /**
+     * Format the whole plan tree starting from this node as EXPLAIN text.
+     *
+     * @param indent Indentation of this node
+     * @param isChild Whether this node is not top-level, so '->' is added
+     * @param lines Output lines of EXPLAIN
+     */
+    async formatPlanTree(indent: number, isChild: boolean, lines: string[]) {
+        /* src/backend/commands/explain.c:ExplainNode (text format) */
+        const header = await this.getPlanHeader();
+        if (isChild) {
+            lines.push(`${' '.repeat(indent)}->  ${header}`);
+            indent += 6;
+        } else {
+            lines.push(header);
+            indent += 2;
         }
-        
-        switch (this.realNodeTag) {
-            case 'IntList': 
-                return {member: 'int_value', type: 'int'};
-            case 'OidList': 
-                return {member: 'oid_value', type: 'Oid'};
-            case 'XidList': 
-                return {member: 'xid_value', type: 'TransactionId'};
+
+        for (const [label, value] of await this.getPlanDetails()) {
+            lines.push(`${' '.repeat(indent)}${label}: ${value}`);
+        }
+
+        for (const child of await this.getChildPlans()) {
+            await child.formatPlanTree(indent, true, lines);
         }
-        
-        logger.debug('failed to determine List tag for', this.name, '->elements. using ptr value');
-        return {member: 'ptr_value', type: 'void *'};
     }
 
-    protected isExpandable(): boolean {
-        return !this.isEmpty();
+    protected getContextValue() {
+        return `${super.getContextValue()} plan`;
     }
 
-    private async findTypeForPtr() {
-        /*
-         * Usually pointer value in List is a Node variable (Node *),
-         * but in general it can be any pointer, so declared as 'void *'.
-         *
-         * As such situations are more exceptional, so we treat List as
-         * Node storing, but other non-Node can be identified by:
-         *
-         * 1. Function name + variable name (if this is top level variable)
-         * 2. Structure name + member name (if this is a member of structure)
-         * 
-         * Such cases are only manually searched from source code - there is
-         * no information at runtime.
-         * 
-         * To make search faster, first check member/variable name, because
-         * it is cheaper than sending requests to debugger or parsing type
-         * name of parent.
-         */
-        const defaultType = 'Node *';
-        const map = this.context.specialMemberRegistry.listCustomPtrs.get(this.name);
-        if (!map) {
-            return defaultType;
+    async getDescription() {
+        if (this.customDescriptionCache) {
+            return this.customDescriptionCache;
         }
 
-        if (!this.parent) {
-            /*
-             * All valid Variable objects must have 'parent' set
-             * except special case 'VariablesRoot', but we are 'List',
-             * not 'VariablesRoot'.
-             */
-            return defaultType;
-        }
+        try {
+            this.customDescriptionCache = await this.getPlanHeader();
+            return this.customDescriptionCache;
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
 
-        let parent;
-        if (this.parent instanceof VariablesRoot) {
-            parent = await this.context.getCurrentFunctionName();
-        } else {
-            parent = dbg.getStructNameFromType(this.parent.type);
-        }
-        
-        if (!parent) {
-            return defaultType;
+            logger.error(err, 'could not get plan description for', this.name);
         }
 
-        return map.get(parent)?.type ?? defaultType;
+        return await super.getDescription();
     }
+}
 
-    private async createArrayNodeElementsMember(elementsMember: RealVariable) {
-        const {member, type} = await this.getListInfoSafe();
-        return new ListElementsMember(this, member, type, {
-            ...elementsMember.getRealVariableArgs(),
-            frameId: this.frameId,
-            parent: this,
-            context: this.context,
-        });
+/**
+ * Format costs of Path node, i.e. 'cost=1.00..42.30 rows=10'
+ */
+export function formatPathCost(startup: number, total: number, rows: number) {
+    return `cost=${startup.toFixed(2)}..${total.toFixed(2)} rows=${rows.toFixed(0)}`;
+}
+
+/**
+ * Get suffix of PathKey representation with sort ordering, i.e. ' DESC'.
+ *
+ * @param strategy Value of 'pk_strategy' (up to 17) or 'pk_cmptype' member:
+ *                 btree strategy number or CompareType
+ * @param nullsFirst Value of 'pk_nulls_first' member
+ */
+export function formatPathKeyOrdering(strategy: string | undefined, nullsFirst: boolean) {
+    let suffix = '';
+    if (strategy === '5' || strategy === 'COMPARE_GT') {
+        suffix += ' DESC';
     }
 
-    private async createLinkedListNodeElementsMember() {
-        const {member, type} = await this.getListInfoSafe();
-        return new LinkedListElementsMember(this, member, type, this.context);
+    if (nullsFirst) {
+        suffix += ' NULLS FIRST';
     }
 
-    override computeEffectiveType(): string {
-        const declaredTag = dbg.getStructNameFromType(this.type);
-        if (declaredTag !== 'List') {
-            return dbg.substituteStructName(this.type, 'List');
+    return suffix;
+}
+
+/**
+ * Path node with summary of it's path tree as description,
+ * i.e. 'HashJoin(SeqScan t1, IndexScan t2 idx) cost=1.00..42.30 rows=10'
+ */
+export class PathNodeVariable extends NodeVariable {
+    /* Members of Path nodes, which store single child path */
+    private static childPathMembers = [
+        'outerjoinpath',
+        'innerjoinpath',
+        'subpath',
+        'leftpath',
+        'rightpath',
+        'bitmapqual',
+    ];
+
+    /* Members of Path nodes, which store List of child paths */
+    private static childPathListMembers = [
+        'subpaths',
+        'bitmapquals',
+        'custom_paths',
+    ];
+
+    /* Max depth of nested path summary */
+    private static maxSummaryDepth = 3;
+
+    async getChildPaths() {
+        const children: PathNodeVariable[] = [];
+        for (const member of PathNodeVariable.childPathMembers) {
+            const child = await this.getEmbeddedMember(member);
+            if (child instanceof PathNodeVariable) {
+                children.push(child);
+            }
         }
-        return this.type;
+
+        for (const member of PathNodeVariable.childPathListMembers) {
+            const elements = await this.getEmbeddedListElements(member);
+            for (const e of elements ?? []) {
+                if (e instanceof PathNodeVariable) {
+                    children.push(e);
+                }
+            }
+        }
+
+        return children;
     }
 
-    private async castToList() {
-        const realType = this.getType();
-        const castExpression = `(${realType}) (${this.getPointer()})`;
-        const response = await this.debug.evaluate(castExpression, this.frameId);
-        if (!Number.isInteger(response.variablesReference)) {
-            logger.warn('failed to cast', this.name, 'to List - got unexpected result:', response.result);
+    /**
+     * Get names of relations in 'parent->relids'
+     */
+    async getRelationNames() {
+        const parent = await this.getEmbeddedMember('parent');
+        if (!(parent instanceof NodeVariable)) {
             return;
         }
 
-        /* Also update type - it will be used  */
-        this.variablesReference = response.variablesReference;
-    }
+        const relids = await parent.getMember('relids');
+        if (!(relids instanceof BitmapSetSpecialMember)) {
+            return;
+        }
 
-    protected tagsMatch(): boolean {
-        /* Check only for 'List' - there are no 'IntList', etc... */
-        return dbg.getStructNameFromType(this.type) === 'List';
+        return await relids.getRelationNames();
     }
 
-    async doGetChildren() {
-        if (this.isEmpty()) {
-            /* Just show empty members */
-            return await this.doGetRealMembers();
+    private async getIndexName() {
+        const indexinfo = await this.getMember('indexinfo');
+        if (!(indexinfo instanceof RealVariable) || this.debug.isNull(indexinfo)) {
+            return;
         }
 
-        /* 
-         * This does 'Node *' -> 'List *' conversion. We have to override
-         * default 'tagsMatch' because there is no 'IntList' structure,
-         * otherwise we will get an exception.
-         */
-        if (!this.tagsMatch()) {
-            await this.castToList();
+        const oid = await indexinfo.getMemberValueNumber('indexoid');
+        if (!oidIsValid(oid)) {
+            return;
         }
 
-        const m = await this.getRealMembers();
-        if (!m?.length) {
-            return m;
-        }
+        try {
+            const result = await this.evaluateSysCache(`get_rel_name((Oid) ${oid})`);
+            const str = this.debug.extractString(result);
+            if (str !== null) {
+                const ptr = this.debug.extractPtrFromString(result);
+                if (ptr) {
+                    await this.pfree(ptr);
+                }
+                return str;
+            }
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
 
-        /* 
-         * Do not show implementation specific fields: head/tail for linked list
-         * and initial_elements/elements (FLA) for array.
-         */
-        const e = m.find(v => v.name === 'elements');
-        if (!e) {
-            this.listElements = await this.createLinkedListNodeElementsMember();
-            return [
-                ...m.filter(v => !(v.name === 'head' || v.name === 'tail')),
-                this.listElements,
-            ];
+            /* Not safe to use syscache or index is not created yet - use oid */
         }
 
-        if (!(e && e instanceof RealVariable)) {
-            return m;
+        return oid.toString();
+    }
+
+    private async getPathType() {
+        const pathtype = await this.getEmbeddedMember('pathtype');
+        if (pathtype?.value.startsWith('T_')) {
+            return pathtype.value.substring(2);
         }
 
-        this.listElements = await this.createArrayNodeElementsMember(e);
-        return [
-            ...m.filter(v => !(v.name === 'elements' || v.name === 'initial_elements')),
-            this.listElements,
-        ];
+        return this.realNodeTag;
     }
 
-    async getListLength() {
-        if (this.isEmpty()) {
-            return 0;
-        }
+    /**
+     * Get compact summary of path tree without costs,
+     * i.e. 'HashJoin(SeqScan t1, IndexScan t2 idx)'
+     */
+    async getPathTreeSummary(depth = 0): Promise<string> {
+        const pathtype = await this.getPathType();
+        const children = await this.getChildPaths();
+        if (children.length) {
+            if (PathNodeVariable.maxSummaryDepth <= depth) {
+                return `${pathtype}(...)`;
+            }
 
-        const lengthExpression = this.getMemberExpression('length');
-        const evalResult = await this.debug.evaluate(lengthExpression, this.frameId);
-        const length = Number(evalResult.result);
-        if (Number.isNaN(length)) {
-            logger.warn('failed to obtain list size for', this.name);
-            return;
+            const summaries = [];
+            for (const child of children) {
+                summaries.push(await child.getPathTreeSummary(depth + 1));
+            }
+            return `${pathtype}(${summaries.join(', ')})`;
         }
-        
-        return clampContainerLength(length);
+
+        return await this.getLeafPathName(pathtype);
     }
 
-    async getListElements() {
-        if (this.isEmpty()) {
-            return [];
+    /*
+     * Name of leaf path with scanned relation, i.e. 'IndexScan t2 idx'
+     */
+    private async getLeafPathName(pathtype: string) {
+        const parts = [pathtype];
+        const relations = await this.getRelationNames();
+        if (relations?.length) {
+            parts.push(relations.join(' '));
         }
 
-        if (!this.listElements) {
-            /* Initialize members */
-            await this.getChildren();
-            if (!this.listElements) {
-                /* Failed to initialize */
-                return;
+        if (this.realNodeTag === 'IndexPath') {
+            const index = await this.getIndexName();
+            if (index) {
+                parts.push(index);
             }
         }
 
-        return await this.listElements.getChildren();
-    }
-    
-    static isListVariable(nodetag: string) {
-        return (
-            nodetag === 'List' ||
-            nodetag === 'IntList' ||
-            nodetag === 'XidList' ||
-            nodetag === 'OidList'
-        );
+        return parts.join(' ');
     }
-}
-
 
-class ArrayVariable extends RealVariable {
     /**
-     * Expression to evaluate to obtain array length.
-     * Appended to target struct from right.
-     * First element is length member name, but after
-     * can be correction expressions i.e. '+ 1'.
+     * Get one-line header of this node without child paths,
+     * i.e. 'HashJoin  cost=1.00..42.30 rows=10'
      */
-    info: ArrayVariableInfo;
+    async getPathHeader() {
+        const pathtype = await this.getPathType();
+        let header = (await this.getChildPaths()).length
+            ? pathtype
+            : await this.getLeafPathName(pathtype);
+        const costs = await this.getCosts();
+        if (costs) {
+            header += `  ${formatPathCost(costs.startup, costs.total, costs.rows)}`;
+        }
+        return header;
+    }
+
+    async getCosts() {
+        const startup = await this.getEmbeddedNumber('startup_cost');
+        const total = await this.getEmbeddedNumber('total_cost');
+        const rows = await this.getEmbeddedNumber('rows');
+        if (startup === undefined || total === undefined || rows === undefined) {
+            return;
+        }
 
-    constructor(info: ArrayVariableInfo, args: RealVariableArgs) {
-        super(args);
-        this.info = info;
-    }
-    
-    protected isExpandable(): boolean {
-        /* 
-         * It should be always expandable, because we might be working with
-         * flexible array members
-         */
-        return true;
+        return {startup, total, rows};
     }
 
-    getLengthExpr() {
-        const parentExpr = `((${this.parent?.type})${this.parent?.getPointer()})`;
+    /**
+     * Get text representation of 'pathkeys', i.e. 't1.x, t2.y DESC'
+     */
+    async getPathKeysRepr() {
+        const pathkeys = await this.getEmbeddedListElements('pathkeys');
+        if (!pathkeys?.length) {
+            return '';
+        }
 
-        /* 
-         * ES2021 has 'string.replaceAll' function, which perfectly suites.
-         * But extension supports VS Code 1.67.0, which has only ES2020.
-         * So just use 'replace' with global regexp.
-         */
-        const lengthExpr = this.info.lengthExpression.replace(/{}/g, parentExpr);
+        const reprs = [];
+        for (const pathkey of pathkeys) {
+            if (!(pathkey instanceof NodeVariable)) {
+                reprs.push('???');
+                continue;
+            }
 
-        /* 
-         * To be more flexible and (simultaneously) simple we have 2 forms
-         * of expressions:
-         * 
-         * 1. Parent member expression: `lengthExpr` concatenated to `parent->`
-         * 2. Generic expression: `lengthExpr` is arbitrary expression
-         * 
-         * Generic expression starts with `!` (because parent member expression
-         * will never be member expression in that way).
-         * Also, to be able to reference parent `{}` is used as a placeholder,
-         * so we can reference parent (members) multiple times or use function
-         * invocation instead of simple member.
-         */
-        if (lengthExpr.startsWith('!')) {
-            return lengthExpr.substring(1);
-        } else {
-            return `${parentExpr}->${lengthExpr}`;
+            /* First member of EquivalenceClass is enough to identify it */
+            let repr = '???';
+            const eclass = await pathkey.getMember('pk_eclass');
+            if (eclass instanceof NodeVariable) {
+                const members = await eclass.getListMemberElements('ec_members');
+                if (members.length && members[0] instanceof NodeVariable) {
+                    repr = await getExprRepr(await members[0].getMember('em_expr'));
+                }
+            }
+
+            /*
+             * Up to 17 version sort direction stored as btree strategy
+             * number, but after - as CompareType.
+             */
+            const strategy = (await pathkey.getRealMembers())?.find(
+                m => m.name === 'pk_strategy' || m.name === 'pk_cmptype');
+            const nullsFirst = await pathkey.getMemberValueBool('pk_nulls_first');
+            reprs.push(repr + formatPathKeyOrdering(strategy?.value, nullsFirst));
         }
+
+        return reprs.join(', ');
     }
 
-    async doGetRealMembers() {
-        const lengthExpr = this.getLengthExpr();
-        let length;
+    /**
+     * Get names of relations from 'param_info->ppi_req_outer'
+     */
+    async getRequiredOuterRepr() {
+        const paramInfo = await this.getEmbeddedMember('param_info');
+        if (!(paramInfo instanceof NodeVariable)) {
+            /* NULL - not parameterized */
+            return '';
+        }
+
+        const reqOuter = await paramInfo.getMember('ppi_req_outer');
+        if (!(reqOuter instanceof BitmapSetSpecialMember)) {
+            return '';
+        }
+
+        const names = await reqOuter.getRelationNames();
+        return names?.join(', ') ?? '???';
+    }
+
+    protected getContextValue() {
+        return `${super.getContextValue()} path`;
+    }
+
+    async getDescription() {
+        if (this.customDescriptionCache) {
+            return this.customDescriptionCache;
+        }
+
         try {
-            const evalResult = await this.evaluate(lengthExpr);
-            length = Number(evalResult.result);
+            let description = await this.getPathTreeSummary();
+            const costs = await this.getCosts();
+            if (costs) {
+                description += ` ${formatPathCost(costs.startup, costs.total, costs.rows)}`;
+            }
+            this.customDescriptionCache = description;
+            return description;
         } catch (err) {
             if (!isEvaluationError(err)) {
                 throw err;
             }
 
-            logger.error(err, 'failed to evaluate length expr "', lengthExpr, '" for', this.name);
-            return await super.doGetRealMembers();
+            logger.error(err, 'could not get path description for', this.name);
         }
 
-        if (!Number.isInteger(length) || length <= 0) {
-            /* This covers both cases: error in 'result' and invalid length value. */
-            return await super.doGetRealMembers();
-        }
+        return await super.getDescription();
+    }
+}
 
-        /* Yes, we may have garbage, but what if the array is that huge? */
-        length = clampContainerLength(length);
+/**
+ * Get SQL keyword for JoinExpr, i.e. 'LEFT JOIN'
+ *
+ * @param jointype Value of 'jointype' member, i.e. 'JOIN_LEFT'
+ * @param hasQuals Join has ON clause or it is NATURAL join, so
+ *                 inner join is not a CROSS JOIN
+ */
+export function formatJoinKeyword(jointype: string, hasQuals: boolean) {
+    switch (jointype) {
+        case 'JOIN_INNER':
+            return hasQuals ? 'JOIN' : 'CROSS JOIN';
+        case 'JOIN_LEFT':
+            return 'LEFT JOIN';
+        case 'JOIN_FULL':
+            return 'FULL JOIN';
+        case 'JOIN_RIGHT':
+            return 'RIGHT JOIN';
+    }
+
+    /* Semi/Anti joins can appear after pull-up */
+    return jointype.startsWith('JOIN_')
+        ? `${jointype.substring('JOIN_'.length).replace('_', ' ')} JOIN`
+        : `${jointype} JOIN`;
+}
 
-        const parent = unnullify(this.parent, 'this.parent');
-        const memberExpr = `((${parent.type})${parent.getPointer()})->${this.info.memberName}`;
-        const debugVariables = await this.debug.getArrayVariables(memberExpr,
-                                                                  length, this.frameId);
-        return await Variable.mapVariables(debugVariables, this.frameId, this.context,
-                                           this);
+/**
+ * Format target list entry with it's alias, i.e. 't.x + 1 AS y'.
+ * Alias is omitted if it is the same as column name.
+ */
+export function formatTargetEntryAlias(repr: string, resname: string | null | undefined) {
+    if (!resname || repr === resname || repr.endsWith(`.${resname}`)) {
+        return repr;
     }
+    return `${repr} AS ${resname}`;
 }
 
-/*
- * Bitmapset variable
+/**
+ * Query node with short SQL summary as description.  Also can be deparsed
+ * back to SQL text.
+ *
+ * Deparsing is performed using only Query members and Expr representations,
+ * so no catalog access is performed (unlike 'pg_get_querydef').  Thus
+ * relation names are taken from 'eref' and sort directions are not shown.
  */
-class BitmapSetSpecialMember extends NodeVariable {
-    constructor(args: RealVariableArgs) {
-        super('Bitmapset', args);
+class QueryNodeVariable extends NodeVariable {
+    private rtableCache?: Variable[];
+
+    async getQueryRtable() {
+        return this.rtableCache ??= await this.getListMemberElements('rtable');
     }
 
-    async isValidSet(members: Variable[]): Promise<boolean> {
-        /* This check is enough (if it exists) */
-        if (this.context.hasBmsIsValidSet) {
-            const expression = `bms_is_valid_set((Bitmapset *)${this.getPointer()})`;
-            try {
-                const response = await this.evaluate(expression);
-                return this.debug.extractBool(response) ?? false;
-            } catch (err) {
-                if (!isEvaluationError(err)) {
-                    throw err;
-                }
+    private async getRte(rtindex: number) {
+        const rtable = await this.getQueryRtable();
+        if (!(0 < rtindex && rtindex <= rtable.length)) {
+            return;
+        }
 
-                /*
-                 * `bms_is_valid_set' introduced in 17.
-                 * On other versions `type` member will be not set (undefined).
-                 * We assume it is valid, because for NULL variables we do not
-                 * create Variable instances.
-                 */
-                this.context.hasBmsIsValidSet = false;
-                return true;
-            }
+        const rte = rtable[rtindex - 1];
+        return rte instanceof NodeVariable ? rte : undefined;
+    }
+
+    private isNullMember(v: Variable) {
+        return v instanceof InvalidVariable || this.debug.isNull(v);
+    }
+
+    /**
+     * Get repr of expression which can be stored as implicit-AND List
+     */
+    private async getQualRepr(qual: Variable) {
+        if (this.isNullMember(qual)) {
+            return;
         }
-        
-        /* Fallback checking children members for validity/look normal */
 
-        if (this.context.hasBmsNodeTag) {
-            /* Check NodeTag is the most straight-forward approach */
-            const nodeTag = members.find(m => m.name === 'type');
-            if (nodeTag) {
-                return nodeTag.value === 'T_Bitmapset';
+        if (qual instanceof ListNodeVariable) {
+            const elements = await qual.getListElements();
+            if (!elements?.length) {
+                return;
             }
-            
-            this.context.hasBmsNodeTag = false;
+
+            const reprs = [];
+            for (const e of elements) {
+                reprs.push(await getExprRepr(e));
+            }
+            return reprs.join(' AND ');
         }
-        
-        /* If we do not have NodeTag, then check that member values looks normally */
-        const nwords = members.find(m => m.name === 'nwords');
-        if (!nwords) {
-            return false;
+
+        return await getExprRepr(qual);
+    }
+
+    private async getRteAliasName(rte: NodeVariable) {
+        return await getNullableAliasValue(await rte.getMember('eref')) ?? '???';
+    }
+
+    /**
+     * Get short name of RTE without deparsing subqueries
+     */
+    private async getRteShortName(rte: NodeVariable) {
+        const rtekind = await rte.getMemberValueEnum('rtekind');
+        const name = await this.getRteAliasName(rte);
+        if (rtekind === 'RTE_SUBQUERY') {
+            return `(...) ${name}`;
         }
-        
-        const n = Number(nwords.value);
+        return name;
+    }
 
-        /* 
-         * For 64-bit system even 50 is large number: 50 * 64 = 3200.
-         * But actually this is *potential* size, so can we allow such
-         * large value - in reality it can contain only 1 element, just
-         * in last word, but this acts like a pretty good correctness check.
-         */
-        const maxNWords = 50;
-        if (Number.isNaN(n) || maxNWords <= n) {
-            return false;
+    private async formatRte(rte: NodeVariable, indent: string) {
+        const rtekind = await rte.getMemberValueEnum('rtekind');
+        const name = await this.getRteAliasName(rte);
+        switch (rtekind) {
+            case 'RTE_SUBQUERY': {
+                const subquery = await rte.getMember('subquery');
+                if (subquery instanceof QueryNodeVariable) {
+                    const sql = await subquery.deparse(indent + '    ');
+                    return `(\n${sql}\n${indent}) ${name}`;
+                }
+                return `(...) ${name}`;
+            }
+            case 'RTE_FUNCTION': {
+                const reprs = [];
+                for (const f of await rte.getListMemberElements('functions')) {
+                    if (f instanceof NodeVariable) {
+                        reprs.push(await getExprRepr(await f.getMember('funcexpr')));
+                    }
+                }
+                return `${reprs.join(', ')} ${name}`;
+            }
+            case 'RTE_VALUES': {
+                const rows = [];
+                for (const row of await rte.getListMemberElements('values_lists')) {
+                    if (row instanceof ListNodeVariable) {
+                        const reprs = [];
+                        for (const e of await row.getListElements() ?? []) {
+                            reprs.push(await getExprRepr(e));
+                        }
+                        rows.push(`(${reprs.join(', ')})`);
+                    }
+                }
+                return `(VALUES ${rows.join(', ')}) ${name}`;
+            }
+            case 'RTE_CTE': {
+                const ctename = await rte.getMemberValueCharString('ctename');
+                return ctename && ctename !== name
+                    ? `${ctename} ${name}`
+                    : name;
+            }
         }
 
-        return true;
+        return name;
     }
-    
-    isBreakpointDangerous(bp: vscode.Breakpoint) {
-        /*
-         * Fastest way is just to iterate all breakpoints and check if
-         * breakpoint is dangerous, meaning that if we will stop, then can
-         * end up in infinite loop or precondition (state) can be violated.
-         * 
-         * For now such breakpoints includes all functions inside bitmapset.c -
-         * main file with all Bitmapset manipulation logic.
-         */
-        if (!bp.enabled) {
-            return false;
-        }
 
-        if (bp instanceof vscode.SourceBreakpoint) {
-            return bp.location.uri.path.endsWith('bitmapset.c');
+    /**
+     * Format element of 'jointree': RangeTblRef, JoinExpr or FromExpr
+     */
+    private async formatFromItem(item: Variable, indent: string): Promise<string> {
+        if (!(item instanceof NodeVariable)) {
+            return '???';
         }
 
-        if (bp instanceof vscode.FunctionBreakpoint) {
-            /*
-             * All Bitmapset functions have 'bms_' prefix.
-             * I can track which ones are dangerous, but if someday someone
-             * will create another dangerous function then logic will be broken,
-             * so add such simple check, so code will live longer.
-             */
-            return bp.functionName.startsWith('bms_');
+        switch (item.realNodeTag) {
+            case 'RangeTblRef': {
+                const rte = await this.getRte(await item.getMemberValueNumber('rtindex'));
+                return rte ? await this.formatRte(rte, indent) : '???';
+            }
+            case 'JoinExpr': {
+                const larg = await this.formatFromItem(await item.getMember('larg'), indent);
+                const rarg = await this.formatFromItem(await item.getMember('rarg'), indent);
+                const jointype = await item.getMemberValueEnum('jointype');
+                const natural = await item.getMemberValueBool('isNatural') ? 'NATURAL ' : '';
+                const quals = await this.getQualRepr(await item.getMember('quals'));
+                const join = formatJoinKeyword(jointype, !!(quals || natural));
+
+                let using = '';
+                const usingClause = await item.getListMemberElements('usingClause');
+                if (usingClause.length) {
+                    const names = [];
+                    for (const u of usingClause) {
+                        names.push(u instanceof ValueVariable
+                            ? await u.getStringRepr() ?? '???'
+                            : '???');
+                    }
+                    using = ` USING (${names.join(', ')})`;
+                }
+
+                const on = !using && !natural && quals ? ` ON ${quals}` : '';
+                return `${larg} ${natural}${join} ${rarg}${using}${on}`;
+            }
+            case 'FromExpr': {
+                const items = [];
+                for (const i of await item.getListMemberElements('fromlist')) {
+                    items.push(await this.formatFromItem(i, indent));
+                }
+                return `(${items.join(', ')})`;
+            }
         }
-        
-        /* Other breakpoints must be safe */
-        return false;
-    }
-    
-    safeToObserve() {
-        return this.context.step.isSafeToObserveBitmapset 
-            ??= !vscode.debug.breakpoints.find(this.isBreakpointDangerous);
+
+        return '???';
     }
 
-    async getSetElements(members: Variable[]): Promise<number[] | undefined> {
-        /*
-         * Must check we do not have breakpoints set in `bms_next_member`.
-         * Otherwise, we will get infinite recursion and backend will crash.
-         */
-        if (!this.safeToObserve()) {
-            return;
+    /**
+     * Find TargetEntry with 'ressortgroupref' equal to 'tleSortGroupRef'
+     * of given SortGroupClause and get it's repr.
+     */
+    private async formatSortGroupClause(clause: Variable, targetList: Variable[]) {
+        if (!(clause instanceof NodeVariable)) {
+            return '???';
         }
 
-        /*
-         * We MUST check validity of set, because, otherwise,
-         * `Assert` will fail or SEGFAULT si thrown and whole
-         * backend will crash.
-         * 
-         * Check performed using `bms_is_valid_set`, but if it
-         * is missing, then check members to look normally.
-         */
-        if (!await this.isValidSet(members)) {
-            return;
-        }
+        const ref = await clause.getMemberValueNumber('tleSortGroupRef');
+        for (const tle of targetList) {
+            if (!(tle instanceof NodeVariable)) {
+                continue;
+            }
 
-        /*
-         * Most likely, we use new Bitmapset API, but fallback with old-styled
-         */
-        let result;
-        if (this.context.hasBmsNextMember) {
-            result = await this.getSetElementsNextMember();
-            if (result !== undefined) {
-                return result;
+            if (await tle.getMemberValueNumber('ressortgroupref') === ref) {
+                let repr = await getExprRepr(tle);
+                if (await clause.getMemberValueBool('nulls_first')) {
+                    repr += ' NULLS FIRST';
+                }
+                return repr;
             }
         }
 
-        result = await this.getSetElementsFirstMember();
-        if (result !== undefined) {
-            this.context.hasBmsNextMember = false;
+        return '???';
+    }
+
+    private async formatSortGroupClauses(member: string, targetList: Variable[]) {
+        const clauses = await this.getListMemberElements(member);
+        const reprs = [];
+        for (const clause of clauses) {
+            reprs.push(await this.formatSortGroupClause(clause, targetList));
         }
+        return reprs.join(', ');
+    }
 
-        return result;
+    private async formatTargetEntry(tle: NodeVariable) {
+        const repr = await getExprRepr(tle);
+        const resname = await tle.getMemberValueCharString('resname');
+        return formatTargetEntryAlias(repr, resname);
     }
 
-    private async getSetElementsNextMember(): Promise<number[] | undefined> {
-        /*
-         * Current style (from 9.3) of reading Bitmapset values:
-         *
-         * Bitmapset *bms;
-         * int x = -1;
-         * while ((x = bms_next_member(bms, x)) > 0)
-         * {
-         *    ...
-         * }
-         */
-
-        let number = -1;
-        const numbers = [];
-        const maxLength = getMaxContainerLength();
-        do {
-            const expression = `bms_next_member((Bitmapset *)${this.getPointer()}, ${number})`;
-            try {
-                const response = await this.evaluate(expression);
-                number = Number(response.result);
-                if (Number.isNaN(number)) {
-                    logger.warn('failed to get set elements for', this.name);
-                    return;
-                }
-            } catch (err) {
-                if (!isEvaluationError(err)) {
-                    throw err;
-                }
+    private async getResultRelationName() {
+        const resultRelation = await this.getMemberValueNumber('resultRelation');
+        const rte = await this.getRte(resultRelation);
+        return rte ? await this.getRteAliasName(rte) : '???';
+    }
 
-                logger.error(err, 'failed to get set elements for', this.name);
-                return;
-            }
+    /**
+     * Format set operations tree: UNION/INTERSECT/EXCEPT
+     */
+    private async formatSetOperation(node: Variable, indent: string): Promise<string> {
+        if (!(node instanceof NodeVariable)) {
+            return '???';
+        }
 
-            if (number < 0) {
-                break;
+        if (node.realNodeTag === 'RangeTblRef') {
+            const rte = await this.getRte(await node.getMemberValueNumber('rtindex'));
+            const subquery = await rte?.getMember('subquery');
+            if (subquery instanceof QueryNodeVariable) {
+                return await subquery.deparse(indent);
             }
+            return `${indent}???`;
+        }
 
-            numbers.push(number);
-        } while (number >= 0 && numbers.length < maxLength);
+        if (node.realNodeTag !== 'SetOperationStmt') {
+            return `${indent}???`;
+        }
 
-        return numbers;
+        const op = await node.getMemberValueEnum('op');
+        const all = await node.getMemberValueBool('all') ? ' ALL' : '';
+        const opname = op.startsWith('SETOP_') ? op.substring('SETOP_'.length) : op;
+        const larg = await this.formatSetOperation(await node.getMember('larg'), indent + '    ');
+        const rarg = await this.formatSetOperation(await node.getMember('rarg'), indent + '    ');
+        return `${indent}(\n${larg}\n${indent})\n${indent}${opname}${all}\n${indent}(\n${rarg}\n${indent})`;
     }
 
-    private async getSetElementsFirstMember(): Promise<number[] | undefined> {
-        await this.checkCanAlloc();
+    /**
+     * Deparse this Query to SQL text.
+     *
+     * @param indent Indentation prefix of each line, used for subqueries
+     */
+    async deparse(indent = ''): Promise<string> {
+        const lines: string[] = [];
+        const add = (line: string) => lines.push(`${indent}${line}`);
 
-        /*
-         * Old style (prior to 9.2) of reading Bitmapset values:
-         *
-         * Bitmapset *bms;
-         * Bitmapset *tmp;
-         * tmp = bms_copy(bms);
-         *
-         * int x;
-         * while ((x = bms_first_member(tmp)) > 0)
-         * {
-         *    ...
-         * }
-         *
-         * pfree(tmp);
-         */
-        const e = await this.evaluate(`bms_copy((Bitmapset *)${this.getPointer()})`);
-        if (this.debug.isNull(e)) {
-            /* NULL means empty */
-            return [];
+        const commandType = await this.getMemberValueEnum('commandType');
+        if (commandType === 'CMD_UTILITY') {
+            const utility = await this.getMember('utilityStmt');
+            const tag = utility instanceof NodeVariable ? utility.realNodeTag : '???';
+            return `${indent}/* UTILITY: ${tag} */`;
         }
 
-        const expression = `bms_first_member((Bitmapset *)${e.result})`;
-        const maxLength = getMaxContainerLength();
-        let number = -1;
-        const numbers = [];
-        do {
-            const response = await this.evaluate(expression);
-            number = Number(response.result);
-            if (Number.isNaN(number)) {
-                logger.warn('failed to get set elements for "', this.name, '" - got unexpected result:', response.result);
-                return;
-            }
+        /* WITH */
+        const ctes = await this.getListMemberElements('cteList');
+        if (ctes.length) {
+            const reprs = [];
+            for (const cte of ctes) {
+                if (!(cte instanceof NodeVariable)) {
+                    continue;
+                }
 
-            if (number < 0) {
-                break;
+                const ctename = await cte.getMemberValueCharString('ctename');
+                const ctequery = await cte.getMember('ctequery');
+                const sql = ctequery instanceof QueryNodeVariable
+                    ? await ctequery.deparse(indent + '    ')
+                    : `${indent}    ...`;
+                reprs.push(`${ctename} AS (\n${sql}\n${indent})`);
             }
+            add(`WITH ${reprs.join(', ')}`);
+        }
 
-            numbers.push(number);
-        } while (number >= 0 && numbers.length < maxLength);
+        /* UNION/INTERSECT/EXCEPT */
+        const setOperations = await this.getMember('setOperations');
+        if (!this.isNullMember(setOperations)) {
+            lines.push(await this.formatSetOperation(setOperations, indent));
+        }
 
-        await this.pfree(e.result);
+        const targetList = await this.getListMemberElements('targetList');
+        const visibleTargets = [];
+        for (const tle of targetList) {
+            if (   tle instanceof NodeVariable
+                && !await tle.getMemberValueBool('resjunk')) {
+                visibleTargets.push(tle);
+            }
+        }
 
-        return numbers;
-    }
+        /* Target list and result relation */
+        switch (commandType) {
+            case 'CMD_SELECT': {
+                if (!this.isNullMember(setOperations)) {
+                    break;
+                }
 
-    async getBmsRef() {
-        if (!this.parent) {
-            return;
+                const distinct = (await this.getListMemberElements('distinctClause')).length
+                    ? 'DISTINCT '
+                    : '';
+                const reprs = [];
+                for (const tle of visibleTargets) {
+                    reprs.push(await this.formatTargetEntry(tle));
+                }
+                add(`SELECT ${distinct}${reprs.join(', ')}`);
+                break;
+            }
+            case 'CMD_INSERT': {
+                const reprs = [];
+                for (const tle of visibleTargets) {
+                    reprs.push(await getExprRepr(tle));
+                }
+                add(`INSERT INTO ${await this.getResultRelationName()}`);
+                add(`SELECT ${reprs.join(', ')}`);
+                break;
+            }
+            case 'CMD_UPDATE': {
+                const reprs = [];
+                for (const tle of visibleTargets) {
+                    const resname = await tle.getMemberValueCharString('resname');
+                    reprs.push(`${resname ?? '???'} = ${await getExprRepr(tle)}`);
+                }
+                add(`UPDATE ${await this.getResultRelationName()}`);
+                add(`SET ${reprs.join(', ')}`);
+                break;
+            }
+            case 'CMD_DELETE':
+                add(`DELETE FROM ${await this.getResultRelationName()}`);
+                break;
+            default:
+                add(`/* ${commandType} */`);
+                break;
         }
 
-        const ref = this.context.nodeVarRegistry.findBmsReference(this);
-        if (!ref) {
-            return;
+        /* FROM and WHERE */
+        const jointree = await this.getMember('jointree');
+        if (jointree instanceof NodeVariable) {
+            const fromlist = await jointree.getListMemberElements('fromlist');
+            const resultRelation = await this.getMemberValueNumber('resultRelation');
+            const items = [];
+            for (const item of fromlist) {
+                /* Result relation is already shown for INSERT/UPDATE/DELETE */
+                if (   item instanceof NodeVariable && item.realNodeTag === 'RangeTblRef'
+                    && await item.getMemberValueNumber('rtindex') === resultRelation) {
+                    continue;
+                }
+                items.push(await this.formatFromItem(item, indent));
+            }
+
+            if (items.length) {
+                add(`${commandType === 'CMD_SELECT' ? 'FROM' : 'USING'} ${items.join(', ')}`);
+            }
+
+            const quals = await this.getQualRepr(await jointree.getMember('quals'));
+            if (quals) {
+                add(`WHERE ${quals}`);
+            }
         }
 
-        let type;
-        if (this.parent instanceof NodeVariable) {
-            type = this.parent.getType();
-        } else {
-            type = this.parent.type;
+        /* GROUP BY and HAVING */
+        const groupBy = await this.formatSortGroupClauses('groupClause', targetList);
+        if (groupBy) {
+            add(`GROUP BY ${groupBy}`);
         }
-        if (!(   dbg.getStructNameFromType(type) === ref.type
-              && dbg.havePointersCount(type, 1))) {
-            return;
+
+        const having = await this.getQualRepr(await this.getMember('havingQual'));
+        if (having) {
+            add(`HAVING ${having}`);
         }
 
-        return ref;
-    }
+        /* ORDER BY, LIMIT and OFFSET */
+        const orderBy = await this.formatSortGroupClauses('sortClause', targetList);
+        if (orderBy) {
+            add(`ORDER BY ${orderBy}`);
+        }
 
-    async doGetChildren() {
-        /* All existing members */
-        const members: Variable[] = await Variable.getVariables(this.variablesReference,
-                                                                this.frameId, this.context,
-                                                                this);
-        if (!members?.length) {
-            return members;
+        const limit = await this.getQualRepr(await this.getMember('limitCount'));
+        if (limit) {
+            add(`LIMIT ${limit}`);
         }
 
-        /* Add special members to explore set elements */
-        const setMembers = await this.getSetElements(members);
-        if (setMembers !== undefined) {
-            const ref = await this.getBmsRef();
-    
-            members.push(new ScalarVariable('$length$', setMembers.length.toString(),
-                                            '', this.context, this));
-            members.push(new BitmapSetSpecialMember.BmsArrayVariable(this, setMembers, ref));
+        const offset = await this.getQualRepr(await this.getMember('limitOffset'));
+        if (offset) {
+            add(`OFFSET ${offset}`);
         }
 
-        /* Do not show 'words' flexible array member */
-        return members.filter(v => v.name !== 'words');
+        return lines.join('\n');
     }
 
-    static BmsElementVariable = class extends Variable {
-        /*
-         * `value` as number. needed for refs
-         */
-        relid: number;
-
-        bmsParent: BitmapSetSpecialMember;
-
-        /*
-         * Which objects this Bitmapset references
-         */
-        ref?: constants.BitmapsetReference;
-
-        constructor(index: number,
-                    parent: Variable,
-                    bmsParent: BitmapSetSpecialMember,
-                    value: number,
-                    context: ExecContext,
-                    ref: constants.BitmapsetReference | undefined) {
-            super(value.toString(), '', '', '', context, parent.frameId, parent);
-            this.relid = value;
-            this.bmsParent = bmsParent;
-            this.ref = ref;
+    /**
+     * Get short summary of query: command type with relations in
+     * FROM clause, i.e. 'SELECT FROM t1, t2'
+     */
+    async getSqlSummary() {
+        const commandType = await this.getMemberValueEnum('commandType');
+        switch (commandType) {
+            case 'CMD_UTILITY':
+                return 'UTILITY';
+            case 'CMD_INSERT':
+                return `INSERT INTO ${await this.getResultRelationName()}`;
+            case 'CMD_UPDATE':
+                return `UPDATE ${await this.getResultRelationName()}`;
+            case 'CMD_DELETE':
+                return `DELETE FROM ${await this.getResultRelationName()}`;
+            case 'CMD_MERGE':
+                return `MERGE INTO ${await this.getResultRelationName()}`;
+        }
+
+        const setOperations = await this.getMember('setOperations');
+        if (!this.isNullMember(setOperations)) {
+            return 'SELECT ... UNION/INTERSECT/EXCEPT ...';
         }
 
-        findStartElement(ref: constants.BitmapsetReference) {
-            if (ref.start === 'Self') {
-                return this.bmsParent.parent;
-            } else if (ref.start === 'Parent') {
-                return this.bmsParent.parent?.parent;
+        const names = [];
+        for (const rte of await this.getQueryRtable()) {
+            if (!(rte instanceof NodeVariable)) {
+                continue;
             }
 
-            /* Find PlannerInfo in parents */
-            let parent = this.bmsParent.parent;
-
-            while (parent) {
-                if (parent.type.indexOf('PlannerInfo') !== -1 &&
-                    parent instanceof NodeVariable &&
-                    parent.realNodeTag === 'PlannerInfo') {
-                    return parent;
-                }
-
-                /*
-                 * If this is last variable, it must be 'VariablesRoot'.
-                 * As last chance, find 'PlannerInfo' in declared variables,
-                 * not direct parent.
-                 */
-                if (!parent.parent) {
-                    if (parent.name === VariablesRoot.variableRootName &&
-                        parent instanceof VariablesRoot) {
-                        for (const v of parent.topLevelVariables) {
-                            if (v instanceof NodeVariable &&
-                                v.realNodeTag === 'PlannerInfo') {
-                                return v;
-                            }
-                        }
-                    }
+            /* Skip JOIN and GROUP RTEs - their relations are already in rtable */
+            if (await rte.getMemberValueBool('inFromCl')) {
+                const rtekind = await rte.getMemberValueEnum('rtekind');
+                if (rtekind !== 'RTE_JOIN' && rtekind !== 'RTE_GROUP') {
+                    names.push(await this.getRteShortName(rte));
                 }
-
-                parent = parent.parent;
             }
+        }
 
-            return undefined;
+        return names.length
+            ? `SELECT FROM ${names.join(', ')}`
+            : 'SELECT';
+    }
+
+    async getDescription() {
+        if (this.customDescriptionCache) {
+            return this.customDescriptionCache;
         }
 
-        async findReferenceFields() {
-            if (!this.ref) {
-                return;
+        try {
+            this.customDescriptionCache = await this.getSqlSummary();
+            return this.customDescriptionCache;
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
             }
 
-            const root = this.findStartElement(this.ref);
-            if (!root) {
-                return;
-            }
+            logger.error(err, 'could not get SQL summary for', this.name);
+        }
 
-            const resultFields: [Variable, number?][] = [];
+        return await super.getDescription();
+    }
+}
 
-            for (const path of this.ref.paths) {
-                let variable: Variable = root;
-                for (const p of path.path) {
-                    let member;
+class ListElementsMember extends Variable {
+    /*
+     * Members of this list
+     */
+    members: Variable[] | undefined;
 
-                    /* Separation made for speed performance */
-                    if (variable instanceof RealVariable) {
-                        try {
-                            member = await variable.getMember(p);
-                        } catch (e) {
-                            if (!isEvaluationError(e)) {
-                                throw e;
-                            }
+    /* First elements, when other range is shown, see 'getLeadingElements' */
+    leadingMembers: Variable[] | undefined;
 
-                            member = undefined;
-                        }
-                    } else {
-                        const members = await variable.getChildren();
-                        if (members)
-                        {member = members.find((v) => v.name === p);}
-                    }
+    /**
+     * Member of ListCell to use.
+     * @example int_value, oid_value
+     */
+    cellValue: string;
 
-                    if (!member) {
-                        break;
-                    }
+    /**
+     * Real type of stored data
+     * @example int, Oid, Node * (or custom)
+     */
+    listCellType: string;
 
-                    variable = member;
-                }
+    /**
+     * Parent List variable to which we belong
+     */
+    listParent: ListNodeVariable;
 
-                if (variable) {
-                    resultFields.push([variable, path.indexDelta]);
-                }
-            }
+    /* Range of shown elements */
+    range = new ElementsRange();
 
-            if (resultFields.length) {
-                return resultFields;
-            }
+    constructor(listParent: ListNodeVariable, cellValue: string,
+                listCellType: string, args: RealVariableArgs) {
+        super('$elements$', '', '', '', args.context, args.frameId, listParent);
+        this.listParent = listParent;
+        this.cellValue = cellValue;
+        this.listCellType = listCellType;
+    }
+
+    protected isExpandable() {
+        return !this.listParent.isEmpty();
+    }
+
+    protected getContextValue() {
+        return 'container';
+    }
+
+    resetChildren() {
+        super.resetChildren();
+        this.members = undefined;
+        this.leadingMembers = undefined;
+    }
+
+    async getPointerElements(range: ElementsRange) {
+        const length = await this.listParent.getListLength();
+        if (!length) {
             return;
         }
 
-        async getArrayElement(field: Variable, indexDelta?: number) {
-            const index = this.relid + (indexDelta ?? 0);
+        const end = range.clamp(length);
+        if (end <= range.start) {
+            return [];
+        }
 
-            if (field instanceof ListNodeVariable) {
-                const members = await field.getListElements();
-                if (members && index < members.length) {
-                    return members[index];
-                }
-            } else if (field instanceof ArrayVariable) {
-                const members = await field.getChildren();
-                if (members && index < members.length) {
-                    return members[index];
-                }
-            } else if (field instanceof RealVariable) {
-                if (field.type === 'List *') {
-                    /* Empty 'List *' will be created as RealVariable */
-                    return;
-                }
+        const listType = this.listParent.getMemberExpression('elements');
+        const expression = `(${this.listCellType} *)(${listType})`;
+        return super.getArrayMembers(expression, end - range.start, range.start);
+    }
 
-                const expr = `((${field.type})${field.getPointer()})[${index}]`;
-                const result = await this.debug.evaluate(expr, this.bmsParent.frameId);
-                return await Variable.create({
-                    ...result,
-                    name: `ref(${field.name})`,
-                    value: result.result,
-                }, this.bmsParent.frameId, this.context, this);
-            }
+    async getIntegerElements(range: ElementsRange) {
+        const length = await this.listParent.getListLength();
+        if (!length) {
+            return;
         }
 
-        async doGetChildren(): Promise<Variable[] | undefined> {
-            if (!this.ref) {
-                return;
-            }
+        const end = range.clamp(length);
 
-            const fields = await this.findReferenceFields();
+        /*
+         * We can not just cast `elements' to 'int *' or 'Oid *'
+         * due to padding in union.  For these we iterate
+         * each element and evaluate each item independently
+         */
+        
+        const elements: RealVariable[] = [];
+        for (let i = range.start; i < end; i++) {
+            elements.push(await this.getIntegerElement(i));
+        }
 
-            if (!fields) {
-                return;
-            }
+        return elements;
+    }
 
-            const values = [];
-            for (const [field, delta] of fields) {
-                const value = await this.getArrayElement(field, delta);
-                if (value) {
-                    values.push(value);
-                }
-            }
+    private async getIntegerElement(index: number) {
+        const elementsMemberExpr = `((ListCell *)${this.listParent.getMemberExpression('elements')})`;
+        const expression = `${elementsMemberExpr}[${index}].${this.cellValue}`;
+        const response = await this.debug.evaluate(expression, this.frameId);
+        return new RealVariable({
+            name: getNameForArrayElement(index),
+            type: this.listCellType,
+            declaredType: this.listCellType,
+            variablesReference: response.variablesReference,
+            value: response.result,
+            memoryReference: response.memoryReference,
+            frameId: this.frameId,
+            context: this.context,
+            parent: this,
+        });
+    }
 
-            return values.length ? values : undefined;
+    /**
+     * Get element by it's index regardless of shown range
+     */
+    async getElement(index: number) {
+        const length = await this.listParent.getListLength();
+        if (!length || !(0 <= index && index < length)) {
+            return;
         }
 
-        protected isExpandable(): boolean {
-            return this.ref !== undefined;
+        if (this.listParent.realNodeTag !== 'List') {
+            return await this.getIntegerElement(index);
         }
-    };
 
-    static BmsArrayVariable = class extends Variable {
-        setElements: number[];
-        bmsParent: BitmapSetSpecialMember;
-        constructor(parent: BitmapSetSpecialMember,
-                    setElements: number[],
-                    private ref?: constants.BitmapsetReference) {
-            super('$elements$', '', '', '', parent.context, parent.frameId, parent);
-            this.setElements = setElements;
-            this.bmsParent = parent;
-        }
+        const listType = this.listParent.getMemberExpression('elements');
+        const expression = `(${this.listCellType} *)(${listType})`;
+        const elements = await super.getArrayMembers(expression, 1, index);
+        return elements[0];
+    }
 
-        private createElement(index: number, value: number) {
-            return new BitmapSetSpecialMember.BmsElementVariable(
-                index, this, this.bmsParent,
-                value, this.context, this.ref);
-        }
+    private async getElements(range: ElementsRange) {
+        return this.listParent.realNodeTag === 'List'
+            ? await this.getPointerElements(range)
+            : await this.getIntegerElements(range);
+    }
 
-        async doGetChildren(): Promise<Variable[] | undefined> {
-            return this.setElements.map((se, i) => this.createElement(i, se));
+    async doGetChildren() {
+        if (this.members !== undefined) {
+            return this.members;
         }
 
-        protected isExpandable(): boolean {
-            return true;
-        }
+        this.members = await this.getElements(this.range);
+        return this.members;
+    }
 
-        async getTreeItem() {
-            return {
-                label: '$elements$',
-                collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
-            } as vscode.TreeItem;
+    /**
+     * Get first elements of List regardless of range shown in view,
+     * so computations (i.e. RTE by index) do not depend on it.
+     */
+    async getLeadingElements() {
+        if (this.range.start === 0 && getMaxContainerLength() <= this.range.end) {
+            return await this.getChildren();
         }
-    };
 
-    static isBitmapsetType(type: string) {
-        const typename = dbg.getStructNameFromType(type);
-        if (typename === 'Bitmapset') {
-            /* Bitmapset* */
-            return dbg.havePointersCount(type, 1);
-        } else if (typename === 'Relids') {
-            /* Relids */
-            return dbg.havePointersCount(type, 0);
-        }
-        return false;
+        return this.leadingMembers ??= await this.getElements(new ElementsRange());
     }
 }
 
-/**
- * Represents Integer, String, Boolean, Float or BitString nodes.
- * In older systems there was single 'Value' struct for them,
- * but now separate.
- * This class contains logic for handling both cases
+/*
+ * Show elements of List for Linked List implementation (head/tail).
+ * Suitable for Postgres version prior to 13.
  */
-class ValueVariable extends NodeVariable {
-    protected async checkNodeTagMatchType() {
-        const structName = dbg.getStructNameFromType(this.type);
+class LinkedListElementsMember extends Variable {
+    /* Members of this List */
+    members: Variable[] | undefined;
 
-        if (structName === this.realNodeTag || structName === 'Value') {
-            /*
-             * If tag equal to it's tag, so it's already have
-             * valid type and no need to cast.
-             *
-             * 'Value' is not a tag, but in this case we do not
-             * need to do anything too - already right type.
-             */
-            return;
-        }
+    /**
+     * Member of ListCell to use.
+     * @example int_value, oid_value, ptr_value, xid_value
+     */
+    cellValue: string;
 
-        /* Try cast struct to corresponding tag */
-        if (!this.context.hasValueStruct) {
-            try {
-                await this.castToNodeTag(this.realNodeTag);
+    /**
+     * Real type of stored data
+     * @example int, Oid, Node *, Xid
+     */
+    realType: string;
 
-                /* Success */
-                return;
-            } catch (err: unknown) {
-                if (!isEvaluationError(err)) {
-                    throw err;
-                }
+    /**
+     * List structure we observing
+     */
+    listParent: ListNodeVariable;
 
-                logger.error(err, 'could not cast type "', this.type, '" to tag', this.realNodeTag);
-            }
-        }
+    /* First elements, when other range is shown, see 'getLeadingElements' */
+    leadingMembers: Variable[] | undefined;
 
-        /* 
-         * Older versions of PostgreSQL has single 'Value' node which
-         * contains all possible fields and decision based only on tag.
+    /* Range of shown elements */
+    range = new ElementsRange();
+
+    constructor(listParent: ListNodeVariable, cellValue: string,
+                realType: string, context: ExecContext) {
+        super('$elements$', '', '', '', context, listParent.frameId, listParent);
+        this.listParent = listParent;
+        this.cellValue = cellValue;
+        this.realType = realType;
+    }
+
+    protected getContextValue() {
+        return 'container';
+    }
+
+    resetChildren() {
+        super.resetChildren();
+        this.members = undefined;
+        this.leadingMembers = undefined;
+    }
+
+    async getLinkedListElements(range: ElementsRange) {
+        /*
+         * Traverse through linked list until we get NULL
+         * and read each element from List manually.
+         * So we do not need to evaluate length.
          */
-        try {
-            await this.castToNodeTag('Value');
+        const elements: dap.DebugVariable[] = [];
+        const headExpression = this.listParent.getMemberExpression('head');
+        let evaluateName = headExpression;
+        let cell = await this.debug.evaluate(headExpression, this.frameId);
+        let i = 0;
+        do {
+            if (!range.checkIndex(i)) {
+                break;
+            }
 
-            /* On success update flag indicating we have 'Value' structure */
-            this.context.hasValueStruct = true;
-        } catch (err) {
-            if (!isEvaluationError(err)) {
-                throw err;
+            if (range.includes(i)) {
+                const valueExpression = `(${this.realType})((${evaluateName})->data.${this.cellValue})`;
+                const response = await this.debug.evaluate(valueExpression, this.frameId);
+                elements.push({
+                    name: getNameForArrayElement(i),
+                    value: response.result,
+                    type: this.realType,
+                    variablesReference: response.variablesReference,
+                    memoryReference: response.memoryReference,
+                });
             }
+            evaluateName = `${evaluateName}->next`;
+            cell = await this.debug.evaluate(evaluateName, this.frameId);
+            ++i;
+        } while (!this.debug.isNull(cell));
 
-            logger.error(err, 'could not cast type "', this.type, '" to tag "Value"');
+        return await Variable.mapVariables(elements, this.frameId, this.context,
+                                           this.listParent);
+    }
+
+    /**
+     * Get element by it's index regardless of shown range
+     */
+    async getElement(index: number) {
+        const length = await this.listParent.getListLength();
+        if (!length || !(0 <= index && index < length)) {
+            return;
         }
+
+        const cell = this.listParent.getMemberExpression('head') + '->next'.repeat(index);
+        const valueExpression = `(${this.realType})((${cell})->data.${this.cellValue})`;
+        const response = await this.debug.evaluate(valueExpression, this.frameId);
+        return await Variable.create({
+            name: getNameForArrayElement(index),
+            value: response.result,
+            type: this.realType,
+            variablesReference: response.variablesReference,
+            memoryReference: response.memoryReference,
+        }, this.frameId, this.context, this.listParent);
     }
 
     async doGetChildren() {
-        const children = await super.doGetChildren();
-        if (!children?.length) {
-            return children;
+        if (this.members !== undefined) {
+            return this.members;
         }
 
-        if (!this.context.hasValueStruct) {
-            /* Modern pg versions already have type knowledge (distinct NodeTags) */
-            return children;
+        this.members = await this.getLinkedListElements(this.range);
+        return this.members;
+    }
+
+    /**
+     * Get first elements of List regardless of range shown in view,
+     * so computations (i.e. RTE by index) do not depend on it.
+     */
+    async getLeadingElements() {
+        if (this.range.start === 0 && getMaxContainerLength() <= this.range.end) {
+            return await this.getChildren();
         }
 
-        const value = await this.getStringRepr();
-        return [
-            new ScalarVariable('$value$', value,
-                               '' /* no type for this */,
-                               this.context, this),
-            ...children.filter(v => v.name !== 'val'),
-        ];
+        return this.leadingMembers ??= await this.getLinkedListElements(new ElementsRange());
     }
 
-    private async getStringReprValueStruct() {
-        if (this.realNodeTag === 'Null') {
-            return 'NULL';
-        }
-
-        const valMember = await this.getMember('val');        
-        if (!(valMember instanceof RealVariable)) {
-            return '???';
-        }
-
-        if (this.realNodeTag === 'Integer') {
-            return (await valMember.getMemberValueNumber('ival')).toString();
-        }
-        
-        return await valMember.getMemberValueCharString('str');
-    }
-    
-    private async getStringReprDistinct() {
-        switch (this.realNodeTag) {
-            case 'Integer':
-                return (await this.getMemberValueNumber('ival')).toString();
-            case 'Float':
-                return await this.getMemberValueCharString('fval');
-            case 'Boolean':
-                return await this.getMemberValueBool('boolval') ? 'true' : 'false';
-            case 'String':
-                return await this.getMemberValueCharString('sval');
-            case 'BitString':
-                return await this.getMemberValueCharString('bsval');
-            case 'Null':
-                return 'NULL';
-        }
-
-        logger.warn('Unknown NodeTag for Value struct -', this.realNodeTag);
-        return '$UNKNOWN$';
-    }
-
-    cachedStringRepr?: string;
-
-    /*
-     * Get string representation of given Value (or Integer/String/etc...) struct
-     */
-    async getStringRepr() {
-        if (this.cachedStringRepr) {
-            return this.cachedStringRepr;
-        }
-        let repr;
-
-        /* It must be known by this time */
-        if (this.context.hasValueStruct) {
-            repr = await this.getStringReprValueStruct() ?? 'NULL';
-        } else {
-            repr = await this.getStringReprDistinct() ?? 'NULL';
-        }
-
-        this.cachedStringRepr = repr;
-        return repr;
+    protected isExpandable(): boolean {
+        return true;
     }
 }
 
-async function getDefElemArgString(defElemVar: NodeVariable) {
-    const arg = await defElemVar.getMember('arg');
-    if (!(arg instanceof NodeVariable)) {
-        logger.warn('DefElem->arg is not a Node variable, given:', arg.constructor.name);
-        return;
-    }
+/**
+ * Special class to represent various Lists: Node, int, Oid, Xid...
+ */
+export class ListNodeVariable extends NodeVariable {
+    /* Special member, that manages elements of this List */
+    listElements?: ListElementsMember | LinkedListElementsMember;
 
-    /* see src/backend/commands/define.c:defGetString */
-    if (arg instanceof ValueVariable) {
-        return await arg.getStringRepr();
+    getMemberExpression(member: string) {
+        return `((${this.getType()})${this.getPointer()})->${member}`;
     }
 
-    if (arg.realNodeTag === 'A_Star') {
-        return '*';
-    }
-    
-    if (arg.realNodeTag === 'TypeName') {
-        return await formatTypeNameRepr(arg);
+    isEmpty() {
+        /* Empty 'List *' is NIL (== NULL) */
+        return this.getTypeProperties().pointerIsNull();
     }
     
-    if (arg.realNodeTag === 'List' && arg instanceof ListNodeVariable) {
-        /* src/backend/catalog/namespace.c:NameListToString */
-        const elements = await arg.getListElements();
-        if (!elements) {
-            return;
+    getListInfo() {
+        switch (this.realNodeTag) {
+            case 'List': 
+                return {member: 'ptr_value', type: 'void *'};
+            case 'IntList': 
+                return {member: 'int_value', type: 'int'};
+            case 'OidList': 
+                return {member: 'oid_value', type: 'Oid'};
+            case 'XidList': 
+                return {member: 'xid_value', type: 'TransactionId'};
         }
+    }
 
-        const names = [];
-        for (const e of elements) {
-            if (e instanceof ValueVariable) {
-                names.push(e.getStringRepr());
-            } else if (e instanceof NodeVariable && e.realNodeTag === 'A_Star') {
-                names.push('*');
-            } else {
-                logger.warn('unknown type in NameList of DefElem:', e.constructor.name);
+    async getListInfoSafe() {
+        if (this.realNodeTag === 'List') {
+            const realType = await this.findTypeForPtr();
+            if (realType) {
+                return {
+                    member: 'ptr_value',
+                    type: realType,
+                };
             }
+            
+            return {member: 'ptr_value', type: 'void *'};
         }
-        return names.join('.');
+        
+        switch (this.realNodeTag) {
+            case 'IntList': 
+                return {member: 'int_value', type: 'int'};
+            case 'OidList': 
+                return {member: 'oid_value', type: 'Oid'};
+            case 'XidList': 
+                return {member: 'xid_value', type: 'TransactionId'};
+        }
+        
+        logger.debug('failed to determine List tag for', this.name, '->elements. using ptr value');
+        return {member: 'ptr_value', type: 'void *'};
     }
-}
 
-/**
- * Represents Hash Table (HTAB) variable.
- */
-class HTABSpecialMember extends RealVariable {
-    async findEntryType(): Promise<string | undefined> {
-        const map = this.context.hashTableTypes.htab.get(this.name);
+    protected isExpandable(): boolean {
+        return !this.isEmpty();
+    }
+
+    private async findTypeForPtr() {
+        /*
+         * Usually pointer value in List is a Node variable (Node *),
+         * but in general it can be any pointer, so declared as 'void *'.
+         *
+         * As such situations are more exceptional, so we treat List as
+         * Node storing, but other non-Node can be identified by:
+         *
+         * 1. Function name + variable name (if this is top level variable)
+         * 2. Structure name + member name (if this is a member of structure)
+         * 
+         * Such cases are only manually searched from source code - there is
+         * no information at runtime.
+         * 
+         * To make search faster, first check member/variable name, because
+         * it is cheaper than sending requests to debugger or parsing type
+         * name of parent.
+         */
+        const defaultType = 'Node *';
+        const map = this.context.specialMemberRegistry.listCustomPtrs.get(this.name);
         if (!map) {
-            return;
+            return defaultType;
         }
 
         if (!this.parent) {
-            return;
+            /*
+             * All valid Variable objects must have 'parent' set
+             * except special case 'VariablesRoot', but we are 'List',
+             * not 'VariablesRoot'.
+             */
+            return defaultType;
         }
 
         let parent;
         if (this.parent instanceof VariablesRoot) {
             parent = await this.context.getCurrentFunctionName();
-            if (!parent) {
-                return;
-            }
         } else {
             parent = dbg.getStructNameFromType(this.parent.type);
         }
+        
+        if (!parent) {
+            return defaultType;
+        }
 
-        const info = map.get(parent);
-        return info?.type;
+        return map.get(parent)?.type ?? defaultType;
     }
 
-    isDangerousBreakpoint(breakpoint: vscode.Breakpoint) {
-        if (!breakpoint.enabled) {
-            return false;
-        }
-        
-        if (breakpoint instanceof vscode.SourceBreakpoint) {
-            return breakpoint.location.uri.fsPath.endsWith('dynahash.c');
-        }
-        
-        if (breakpoint instanceof vscode.FunctionBreakpoint) {
-            return breakpoint.functionName.startsWith('hash_seq');
-        }
-        
-        return false;
+    private async createArrayNodeElementsMember(elementsMember: RealVariable) {
+        const {member, type} = await this.getListInfoSafe();
+        return new ListElementsMember(this, member, type, {
+            ...elementsMember.getRealVariableArgs(),
+            frameId: this.frameId,
+            parent: this,
+            context: this.context,
+        });
     }
 
-    safeToObserve(): boolean {
-        return this.context.step.isSafeToObserveHTAB
-            ??= !vscode.debug.breakpoints.find(this.isDangerousBreakpoint);
+    private async createLinkedListNodeElementsMember() {
+        const {member, type} = await this.getListInfoSafe();
+        return new LinkedListElementsMember(this, member, type, this.context);
     }
 
-    async doGetChildren(): Promise<Variable[] | undefined> {
-        const members = await super.doGetChildren();
-        if (!members) {
-            return members;
+    override computeEffectiveType(): string {
+        const declaredTag = dbg.getStructNameFromType(this.type);
+        if (declaredTag !== 'List') {
+            return dbg.substituteStructName(this.type, 'List');
         }
+        return this.type;
+    }
 
-        /* Hope, validity check is not necessary */
-        if (!this.safeToObserve()) {
-            return members;
+    private async castToList() {
+        const realType = this.getType();
+        const castExpression = `(${realType}) (${this.getPointer()})`;
+        const response = await this.debug.evaluate(castExpression, this.frameId);
+        if (!Number.isInteger(response.variablesReference)) {
+            logger.warn('failed to cast', this.name, 'to List - got unexpected result:', response.result);
+            return;
         }
 
-        const entryType = await this.findEntryType();
-        if (!entryType) {
-            return members;
-        }
+        /* Also update type - it will be used  */
+        this.variablesReference = response.variablesReference;
+    }
 
-        members.unshift(new HTABElementsMember(this, entryType));
-        return members;
+    protected tagsMatch(): boolean {
+        /* Check only for 'List' - there are no 'IntList', etc... */
+        return dbg.getStructNameFromType(this.type) === 'List';
     }
-}
 
-/**
- * Represents array of stored entries of Hash Table.
- * Loaded lazily when member is expanded.
- */
-class HTABElementsMember extends Variable {
-    /*
-     * Parent HTAB
-     */
-    htab: HTABSpecialMember;
+    async doGetChildren() {
+        if (this.isEmpty()) {
+            /* Just show empty members */
+            return await this.doGetRealMembers();
+        }
 
-    /**
-     * Type of entry of HTAB
-     */
-    entryType: string;
-
-    constructor(htab: HTABSpecialMember, entryType: string) {
-        super('$elements$', '', '', '', htab.context, htab.frameId, htab);
-        this.htab = htab;
-        this.entryType = entryType;
-    }
+        /* 
+         * This does 'Node *' -> 'List *' conversion. We have to override
+         * default 'tagsMatch' because there is no 'IntList' structure,
+         * otherwise we will get an exception.
+         */
+        if (!this.tagsMatch()) {
+            await this.castToList();
+        }
 
-    protected isExpandable(): boolean {
-        return true;
-    }
+        const m = await this.getRealMembers();
+        if (!m?.length) {
+            return m;
+        }
 
-    private async createHashSeqStatus(): Promise<string | undefined> {
-        /*
-         * HASH_SEQ_STATUS *status = palloc(sizeof(HASH_SEQ_STATUS));
-         * hash_seq_init(status, htab);
+        /* 
+         * Do not show implementation specific fields: head/tail for linked list
+         * and initial_elements/elements (FLA) for array.
          */
-        const memory = await this.palloc('sizeof(HASH_SEQ_STATUS)');
-        const pointer = this.htab.getPointer();
-        const expr = `hash_seq_init((HASH_SEQ_STATUS *)${memory}, (HTAB *)${pointer})`;
+        const e = m.find(v => v.name === 'elements');
+        if (!e) {
+            this.listElements = await this.createLinkedListNodeElementsMember();
+            return [
+                ...m.filter(v => !(v.name === 'head' || v.name === 'tail')),
+                this.listElements,
+            ];
+        }
 
-        try {
-            await this.evaluateVoid(expr);
-            return memory;
-        } catch (err) {
-            if (!isEvaluationError(err)) {
-                throw err;
-            }
-            
-            logger.error(err, 'failed to invoke hash_seq_init');
-            await this.pfree(memory);
+        if (!(e && e instanceof RealVariable)) {
+            return m;
         }
 
-        return memory;
+        this.listElements = await this.createArrayNodeElementsMember(e);
+        return [
+            ...m.filter(v => !(v.name === 'elements' || v.name === 'initial_elements')),
+            this.listElements,
+        ];
     }
 
-    private async finalizeHashSeqStatus(hashSeqStatus: string) {
-        /*
-         * hash_seq_term(status);
-         * pfree(status);
-         */
-        try {
-            await this.evaluateVoid(`hash_seq_term((HASH_SEQ_STATUS *)${hashSeqStatus})`);
-        } catch (err) {
-            if (!isEvaluationError(err)) {
-                throw err;
-            }
-            
-            logger.error(err, 'Could not invoke hash_seq_term');
+    async getListLength() {
+        if (this.isEmpty()) {
+            return 0;
         }
 
-        await this.pfree(hashSeqStatus);
-    }
-
-    private async getNextHashEntry(hashSeqStatus: string): Promise<string | undefined> {
-        const result = await this.evaluate(`hash_seq_search((HASH_SEQ_STATUS *)${hashSeqStatus})`);
-        if (this.debug.isNull(result)) {
-            return undefined;
+        const lengthExpression = this.getMemberExpression('length');
+        const evalResult = await this.debug.evaluate(lengthExpression, this.frameId);
+        const length = Number(evalResult.result);
+        if (Number.isNaN(length)) {
+            logger.warn('failed to obtain list size for', this.name);
+            return;
         }
         
-        return result.result;
+        return length;
     }
 
-    async doGetChildren(): Promise<Variable[] | undefined> {
-        const variables: Variable[] = [];
-        const hashSeqStatus = await this.createHashSeqStatus();
-        if (!hashSeqStatus) {
-            return;
+    /**
+     * Get first elements of List regardless of range shown in view.
+     * Use 'getChildren' to get elements shown in view.
+     */
+    async getListElements() {
+        if (this.isEmpty()) {
+            return [];
         }
 
-        const maxLength = getMaxContainerLength();
-        let entry;
-        while ((entry = await this.getNextHashEntry(hashSeqStatus))) {
-            let result;
-            try {
-                result = await this.evaluate(`(${this.entryType})${entry}`);
-            } catch (err) {
-                if (!isEvaluationError) {
-                    throw err;
-                }
-
-                /* user can specify non-existent type */
-                logger.error(err, 'Failed to create variable with type', this.entryType);
-                await this.finalizeHashSeqStatus(hashSeqStatus);
-                await this.pfree(hashSeqStatus);
-                return undefined;
+        if (!this.listElements) {
+            /* Initialize members */
+            await this.getChildren();
+            if (!this.listElements) {
+                /* Failed to initialize */
+                return;
             }
+        }
 
-            let variable;
-            try {
-                variable = await Variable.create({
-                    ...result,
-                    name: getNameForArrayElement(variables.length),
-                    value: result.result,
-                    memoryReference: result.memoryReference,
-                }, this.frameId, this.context, this);
-            } catch (error) {
-                if (!isEvaluationError(error)) {
-                    throw error;
-                }
-
-                await this.finalizeHashSeqStatus(hashSeqStatus);
-                await this.pfree(hashSeqStatus);
+        return await this.listElements.getLeadingElements();
+    }
 
-                throw error;
-            }
+    /**
+     * Get element by it's index regardless of range shown in view.
+     * If element is shown, then it is returned, so it can be revealed.
+     */
+    async getElement(index: number) {
+        if (this.isEmpty()) {
+            return;
+        }
 
-            variables.push(variable);
-            if (maxLength < variables.length) {
-                /* 
-                 * If we terminate iteration before iteration is completed,
-                 * we have to call finalizer function
-                 */
-                await this.finalizeHashSeqStatus(hashSeqStatus);
-                break;
+        if (!this.listElements) {
+            /* Initialize members */
+            await this.getChildren();
+            if (!this.listElements) {
+                return;
             }
         }
 
-        await this.pfree(hashSeqStatus);
-
-        return variables;
+        const name = getNameForArrayElement(index);
+        const shown = await this.listElements.getChildren();
+        return    shown?.find(e => e.name === name)
+               ?? await this.listElements.getElement(index);
+    }
+    
+    static isListVariable(nodetag: string) {
+        return (
+            nodetag === 'List' ||
+            nodetag === 'IntList' ||
+            nodetag === 'XidList' ||
+            nodetag === 'OidList'
+        );
     }
 }
 
-/**
- * Represents simplehash hash table, created using '#include "lib/simplehash.h"'
- */
-class SimplehashMember extends RealVariable {
-    /* 
-     * Stores information about simple hash table: prefix for identifier names,
-     * type of entry and flag, indicating if it has facility to iterate over it.
+
+class ArrayVariable extends RealVariable {
+    /**
+     * Expression to evaluate to obtain array length.
+     * Appended to target struct from right.
+     * First element is length member name, but after
+     * can be correction expressions i.e. '+ 1'.
      */
-    entry: SimplehashEntryInfo;
+    info: ArrayVariableInfo;
 
-    get prefix(): string {
-        return this.entry.prefix;
-    }
+    /* Range of shown elements */
+    range = new ElementsRange();
 
-    get elementType(): string {
-        return this.entry.type;
-    }
-  
-    constructor(entry: SimplehashEntryInfo, args: RealVariableArgs) {
+    constructor(info: ArrayVariableInfo, args: RealVariableArgs) {
         super(args);
-        this.entry = entry;
+        this.info = info;
     }
-    
-    async doGetChildren(): Promise<Variable[] | undefined> {
-        const members = await super.doGetChildren();
-        if (!members) {
-            return members;
-        }
 
-        members.unshift(new SimplehashElementsMember(this));
-        return members;
+    protected getContextValue() {
+        return 'container';
+    }
+    
+    protected isExpandable(): boolean {
+        /* 
+         * It should be always expandable, because we might be working with
+         * flexible array members
+         */
+        return true;
     }
 
-    static looksLikeSimpleHashTable(type: string) {
-        const index = type.indexOf('_hash');
+    getLengthExpr() {
+        const parentExpr = `((${this.parent?.type})${this.parent?.getPointer()})`;
 
         /* 
-         * If there is no '_hash' in typename then 
-         * this is definitely not simple hash table
+         * ES2021 has 'string.replaceAll' function, which perfectly suites.
+         * But extension supports VS Code 1.67.0, which has only ES2020.
+         * So just use 'replace' with global regexp.
          */
-        if (index === -1) {
-            return false;
-        }
+        const lengthExpr = this.info.lengthExpression.replace(/{}/g, parentExpr);
 
         /* 
-         * Check this is last part of typename, i.e. not part of whole typename
+         * To be more flexible and (simultaneously) simple we have 2 forms
+         * of expressions:
+         * 
+         * 1. Parent member expression: `lengthExpr` concatenated to `parent->`
+         * 2. Generic expression: `lengthExpr` is arbitrary expression
+         * 
+         * Generic expression starts with `!` (because parent member expression
+         * will never be member expression in that way).
+         * Also, to be able to reference parent `{}` is used as a placeholder,
+         * so we can reference parent (members) multiple times or use function
+         * invocation instead of simple member.
          */
-        const endOfType = index + '_hash'.length;
-        if (type.length < endOfType) {
-            /*
-             * I assume, every hash table object is a pointer type,
-             * not allocated on stack.
-             */
-            return false;
+        if (lengthExpr.startsWith('!')) {
+            return lengthExpr.substring(1);
+        } else {
+            return `${parentExpr}->${lengthExpr}`;
         }
+    }
 
-        /* 
-         * Next character after '_hash' must be non alphanumerical,
-         * so typename actually ends with '_hash'.
-         * In real life only available continuation is space or star.
-         */
-        const nextChar = type[endOfType];
-        return nextChar === ' ' || nextChar === '*';
+    async doGetRealMembers() {
+        const lengthExpr = this.getLengthExpr();
+        let length;
+        try {
+            const evalResult = await this.evaluate(lengthExpr);
+            length = Number(evalResult.result);
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            logger.error(err, 'failed to evaluate length expr "', lengthExpr, '" for', this.name);
+            return await super.doGetRealMembers();
+        }
+
+        if (!Number.isInteger(length) || length <= 0) {
+            /* This covers both cases: error in 'result' and invalid length value. */
+            return await super.doGetRealMembers();
+        }
+
+        /* Yes, we may have garbage, but what if the array is that huge? */
+        const end = this.range.clamp(length);
+        if (end <= this.range.start) {
+            return [];
+        }
+
+        return await this.getArrayMembers(this.getMemberExpr(), end - this.range.start,
+                                          this.range.start);
+    }
+
+    private getMemberExpr() {
+        const parent = unnullify(this.parent, 'this.parent');
+        return `((${parent.type})${parent.getPointer()})->${this.info.memberName}`;
+    }
+
+    /**
+     * Get element by it's index regardless of shown range
+     */
+    async getElement(index: number) {
+        const evalResult = await this.evaluate(this.getLengthExpr());
+        const length = Number(evalResult.result);
+        if (!(Number.isInteger(length) && 0 <= index && index < length)) {
+            return;
+        }
+
+        const elements = await this.getArrayMembers(this.getMemberExpr(), 1, index);
+        return elements[0];
+    }
+}
+
+/**
+ * Decode members of Bitmapset stored in single word of 'words' array:
+ * set bit 'i' in 'words[index]' means 'index * BITS_PER_BITMAPWORD + i'
+ * is member of set.
+ */
+export function getBitmapwordMembers(word: bigint, index: number, bitsPerWord: number) {
+    const numbers = [];
+    for (let bit = 0; word !== 0n && bit < bitsPerWord; ++bit) {
+        if (word & 1n) {
+            numbers.push(index * bitsPerWord + bit);
+        }
+        word >>= 1n;
+    }
+    return numbers;
+}
+
+/*
+ * Bitmapset variable
+ */
+class BitmapSetSpecialMember extends NodeVariable {
+    constructor(args: RealVariableArgs) {
+        super('Bitmapset', args);
+    }
+
+    async isValidSet(members: Variable[]): Promise<boolean> {
+        /* This check is enough (if it exists and we can call it) */
+        if (this.context.hasBmsIsValidSet && !this.context.isReadOnly) {
+            const expression = `bms_is_valid_set((Bitmapset *)${this.getPointer()})`;
+            try {
+                const response = await this.evaluate(expression);
+                return this.debug.extractBool(response) ?? false;
+            } catch (err) {
+                if (!isEvaluationError(err)) {
+                    throw err;
+                }
+
+                /*
+                 * `bms_is_valid_set' introduced in 17.
+                 * On other versions `type` member will be not set (undefined).
+                 * We assume it is valid, because for NULL variables we do not
+                 * create Variable instances.
+                 */
+                this.context.hasBmsIsValidSet = false;
+                return true;
+            }
+        }
+        
+        /* Fallback checking children members for validity/look normal */
+
+        if (this.context.hasBmsNodeTag) {
+            /* Check NodeTag is the most straight-forward approach */
+            const nodeTag = members.find(m => m.name === 'type');
+            if (nodeTag) {
+                return nodeTag.value === 'T_Bitmapset';
+            }
+            
+            this.context.hasBmsNodeTag = false;
+        }
+        
+        /* If we do not have NodeTag, then check that member values looks normally */
+        const nwords = members.find(m => m.name === 'nwords');
+        if (!nwords) {
+            return false;
+        }
+        
+        const n = Number(nwords.value);
+
+        /* 
+         * For 64-bit system even 50 is large number: 50 * 64 = 3200.
+         * But actually this is *potential* size, so can we allow such
+         * large value - in reality it can contain only 1 element, just
+         * in last word, but this acts like a pretty good correctness check.
+         */
+        const maxNWords = 50;
+        if (Number.isNaN(n) || maxNWords <= n) {
+            return false;
+        }
+
+        return true;
+    }
+    
+    isBreakpointDangerous(bp: vscode.Breakpoint) {
+        /*
+         * Fastest way is just to iterate all breakpoints and check if
+         * breakpoint is dangerous, meaning that if we will stop, then can
+         * end up in infinite loop or precondition (state) can be violated.
+         * 
+         * For now such breakpoints includes all functions inside bitmapset.c -
+         * main file with all Bitmapset manipulation logic.
+         */
+        if (!bp.enabled) {
+            return false;
+        }
+
+        if (bp instanceof vscode.SourceBreakpoint) {
+            return bp.location.uri.path.endsWith('bitmapset.c');
+        }
+
+        if (bp instanceof vscode.FunctionBreakpoint) {
+            /*
+             * All Bitmapset functions have 'bms_' prefix.
+             * I can track which ones are dangerous, but if someday someone
+             * will create another dangerous function then logic will be broken,
+             * so add such simple check, so code will live longer.
+             */
+            return bp.functionName.startsWith('bms_');
+        }
+        
+        /* Other breakpoints must be safe */
+        return false;
+    }
+    
+    safeToObserve() {
+        return this.context.step.isSafeToObserveBitmapset 
+            ??= !vscode.debug.breakpoints.find(this.isBreakpointDangerous);
+    }
+
+    async getSetElements(members: Variable[],
+                         maxLength = getMaxContainerLength()): Promise<number[] | undefined> {
+        /*
+         * Must check we do not have breakpoints set in `bms_next_member`.
+         * Otherwise, we will get infinite recursion and backend will crash.
+         * In post-mortem mode functions are not invoked, so it is always safe.
+         */
+        if (!this.context.isReadOnly && !this.safeToObserve()) {
+            return;
+        }
+
+        /*
+         * We MUST check validity of set, because, otherwise,
+         * `Assert` will fail or SEGFAULT si thrown and whole
+         * backend will crash.
+         * 
+         * Check performed using `bms_is_valid_set`, but if it
+         * is missing, then check members to look normally.
+         */
+        if (!await this.isValidSet(members)) {
+            return;
+        }
+
+        if (this.context.isReadOnly) {
+            return await this.getSetElementsReadMemory(members, maxLength);
+        }
+
+        /*
+         * Most likely, we use new Bitmapset API, but fallback with old-styled
+         */
+        let result;
+        if (this.context.hasBmsNextMember) {
+            result = await this.getSetElementsNextMember(maxLength);
+            if (result !== undefined) {
+                return result;
+            }
+        }
+
+        result = await this.getSetElementsFirstMember(maxLength);
+        if (result !== undefined) {
+            this.context.hasBmsNextMember = false;
+        }
+
+        return result;
+    }
+
+    private async getSetElementsNextMember(maxLength: number): Promise<number[] | undefined> {
+        /*
+         * Current style (from 9.3) of reading Bitmapset values:
+         *
+         * Bitmapset *bms;
+         * int x = -1;
+         * while ((x = bms_next_member(bms, x)) > 0)
+         * {
+         *    ...
+         * }
+         */
+
+        let number = -1;
+        const numbers = [];
+        do {
+            const expression = `bms_next_member((Bitmapset *)${this.getPointer()}, ${number})`;
+            try {
+                const response = await this.evaluate(expression);
+                number = Number(response.result);
+                if (Number.isNaN(number)) {
+                    logger.warn('failed to get set elements for', this.name);
+                    return;
+                }
+            } catch (err) {
+                if (!isEvaluationError(err)) {
+                    throw err;
+                }
+
+                logger.error(err, 'failed to get set elements for', this.name);
+                return;
+            }
+
+            if (number < 0) {
+                break;
+            }
+
+            numbers.push(number);
+        } while (number >= 0 && numbers.length < maxLength);
+
+        return numbers;
+    }
+
+    private async getSetElementsReadMemory(members: Variable[],
+                                           maxLength: number): Promise<number[] | undefined> {
+        /*
+         * Used when we can not invoke functions (post-mortem mode):
+         * decode 'words' array by ourselves.
+         */
+        const nwords = Number(members.find(m => m.name === 'nwords')?.value);
+        if (!Number.isInteger(nwords) || nwords < 0) {
+            return;
+        }
+
+        const sizeResult = await this.evaluate('sizeof(bitmapword)');
+        const bitsPerWord = Number(sizeResult.result) * 8;
+        if (!Number.isInteger(bitsPerWord) || bitsPerWord <= 0) {
+            logger.warn('failed to get size of bitmapword, got:', sizeResult.result);
+            return;
+        }
+
+        const numbers = [];
+        for (let w = 0; w < nwords && numbers.length < maxLength; ++w) {
+            const expression = `(unsigned long long)((Bitmapset *)${this.getPointer()})->words[${w}]`;
+            const response = await this.evaluate(expression);
+
+            let word;
+            try {
+                word = BigInt(response.result);
+            } catch {
+                logger.warn('failed to parse bitmapword for', this.name, 'got:', response.result);
+                return;
+            }
+
+            numbers.push(...getBitmapwordMembers(word, w, bitsPerWord));
+        }
+
+        return numbers.slice(0, maxLength);
+    }
+
+    private async getSetElementsFirstMember(maxLength: number): Promise<number[] | undefined> {
+        await this.checkCanAlloc();
+
+        /*
+         * Old style (prior to 9.2) of reading Bitmapset values:
+         *
+         * Bitmapset *bms;
+         * Bitmapset *tmp;
+         * tmp = bms_copy(bms);
+         *
+         * int x;
+         * while ((x = bms_first_member(tmp)) > 0)
+         * {
+         *    ...
+         * }
+         *
+         * pfree(tmp);
+         */
+        const e = await this.evaluate(`bms_copy((Bitmapset *)${this.getPointer()})`);
+        if (this.debug.isNull(e)) {
+            /* NULL means empty */
+            return [];
+        }
+
+        const expression = `bms_first_member((Bitmapset *)${e.result})`;
+        let number = -1;
+        const numbers = [];
+        do {
+            const response = await this.evaluate(expression);
+            number = Number(response.result);
+            if (Number.isNaN(number)) {
+                logger.warn('failed to get set elements for "', this.name, '" - got unexpected result:', response.result);
+                return;
+            }
+
+            if (number < 0) {
+                break;
+            }
+
+            numbers.push(number);
+        } while (number >= 0 && numbers.length < maxLength);
+
+        await this.pfree(e.result);
+
+        return numbers;
+    }
+
+    async getBmsRef() {
+        if (!this.parent) {
+            return;
+        }
+
+        const ref = this.context.nodeVarRegistry.findBmsReference(this);
+        if (!ref) {
+            return;
+        }
+
+        let type;
+        if (this.parent instanceof NodeVariable) {
+            type = this.parent.getType();
+        } else {
+            type = this.parent.type;
+        }
+        if (!(   dbg.getStructNameFromType(type) === ref.type
+              && dbg.havePointersCount(type, 1))) {
+            return;
+        }
+
+        return ref;
+    }
+
+    /**
+     * Get names of relations referenced by elements of this set, i.e. for
+     * 'relids'.  Name of relation is a description of referenced
+     * RangeTblEntry.  If reference is not found, then number itself is used.
+     *
+     * @returns Names of relations or undefined if failed to get set elements
+     */
+    async getRelationNames() {
+        const children = await this.getChildren();
+        const elementsMember = children?.find(c => c instanceof BitmapSetSpecialMember.BmsArrayVariable);
+        if (!elementsMember) {
+            return;
+        }
+
+        const names = [];
+        for (const element of await elementsMember.getChildren() ?? []) {
+            const refs = await element.getChildren();
+            const rte = refs?.find(r => r instanceof NodeVariable && r.realNodeTag === 'RangeTblEntry');
+            if (rte instanceof NodeVariable) {
+                names.push(await rte.getDescription());
+            } else {
+                names.push(element.name);
+            }
+        }
+
+        return names;
+    }
+
+    async doGetChildren() {
+        /* All existing members */
+        const members: Variable[] = await Variable.getVariables(this.variablesReference,
+                                                                this.frameId, this.context,
+                                                                this);
+        if (!members?.length) {
+            return members;
+        }
+
+        /* Add special members to explore set elements */
+        const setMembers = await this.getSetElements(members);
+        if (setMembers !== undefined) {
+            const ref = await this.getBmsRef();
+    
+            members.push(new ScalarVariable('$length$', setMembers.length.toString(),
+                                            '', this.context, this));
+            members.push(new BitmapSetSpecialMember.BmsArrayVariable(this, setMembers, ref));
+        }
+
+        /* Do not show 'words' flexible array member */
+        return members.filter(v => v.name !== 'words');
+    }
+
+    static BmsElementVariable = class extends Variable {
+        /*
+         * `value` as number. needed for refs
+         */
+        relid: number;
+
+        bmsParent: BitmapSetSpecialMember;
+
+        /*
+         * Which objects this Bitmapset references
+         */
+        ref?: constants.BitmapsetReference;
+
+        constructor(index: number,
+                    parent: Variable,
+                    bmsParent: BitmapSetSpecialMember,
+                    value: number,
+                    context: ExecContext,
+                    ref: constants.BitmapsetReference | undefined) {
+            super(value.toString(), '', '', '', context, parent.frameId, parent);
+            this.relid = value;
+            this.bmsParent = bmsParent;
+            this.ref = ref;
+        }
+
+        async findStartElement(ref: constants.BitmapsetReference) {
+            if (ref.start === 'Self') {
+                return this.bmsParent.parent;
+            } else if (ref.start === 'Parent') {
+                return this.bmsParent.parent?.parent;
+            }
+
+            const isPlannerInfo = (v: Variable) =>
+                v instanceof NodeVariable && v.realNodeTag === 'PlannerInfo';
+
+            /* Find PlannerInfo in parents */
+            let parent = this.bmsParent.parent;
+
+            while (parent) {
+                if (parent.type.indexOf('PlannerInfo') !== -1 &&
+                    isPlannerInfo(parent)) {
+                    return parent;
+                }
+
+                /*
+                 * Reached top level - 'VariablesRoot'.
+                 * As last chance, find 'PlannerInfo' in declared variables,
+                 * not direct parent, and then in callers.
+                 */
+                if (parent instanceof VariablesRoot) {
+                    return    parent.topLevelVariables.find(isPlannerInfo)
+                           ?? await this.context.findVariableUpTheStack(
+                               this.bmsParent.frameId, isPlannerInfo);
+                }
+
+                parent = parent.parent;
+            }
+
+            return undefined;
+        }
+
+        async findReferenceFields() {
+            if (!this.ref) {
+                return;
+            }
+
+            const root = await this.findStartElement(this.ref);
+            if (!root) {
+                return;
+            }
+
+            const resultFields: [Variable, number?][] = [];
+
+            for (const path of this.ref.paths) {
+                let variable: Variable = root;
+                for (const p of path.path) {
+                    let member;
+
+                    /* Separation made for speed performance */
+                    if (variable instanceof RealVariable) {
+                        try {
+                            member = await variable.getMember(p);
+                        } catch (e) {
+                            if (!isEvaluationError(e)) {
+                                throw e;
+                            }
+
+                            member = undefined;
+                        }
+                    } else {
+                        const members = await variable.getChildren();
+                        if (members)
+                        {member = members.find((v) => v.name === p);}
+                    }
+
+                    if (!member) {
+                        break;
+                    }
+
+                    variable = member;
+                }
+
+                if (variable) {
+                    resultFields.push([variable, path.indexDelta]);
+                }
+            }
+
+            if (resultFields.length) {
+                return resultFields;
+            }
+            return;
+        }
+
+        async getArrayElement(field: Variable, indexDelta?: number) {
+            const index = this.relid + (indexDelta ?? 0);
+
+            /*
+             * Shown element is reused, so it can be revealed in view.  But
+             * user can show range of elements, which does not include it.
+             * 'ListNodeVariable.getElement' does the same.
+             */
+            const findElement = (members: Variable[] | undefined) =>
+                members?.find(m =>    m.name.startsWith('[')
+                                   && getIndexFromArrayElementName(m.name) === index);
+
+            if (field instanceof ListNodeVariable) {
+                return await field.getElement(index);
+            } else if (field instanceof ArrayVariable) {
+                return    findElement(await field.getChildren())
+                       ?? await field.getElement(index);
+            } else if (field instanceof RealVariable) {
+                if (field.type === 'List *') {
+                    /* Empty 'List *' will be created as RealVariable */
+                    return;
+                }
+
+                const expr = `((${field.type})${field.getPointer()})[${index}]`;
+                const result = await this.debug.evaluate(expr, this.bmsParent.frameId);
+                return await Variable.create({
+                    ...result,
+                    name: `ref(${field.name})`,
+                    value: result.result,
+                }, this.bmsParent.frameId, this.context, this);
+            }
+        }
+
+        async doGetChildren(): Promise<Variable[] | undefined> {
+            if (!this.ref) {
+                return;
+            }
+
+            const fields = await this.findReferenceFields();
+
+            if (!fields) {
+                return;
+            }
+
+            const values = [];
+            for (const [field, delta] of fields) {
+                const value = await this.getArrayElement(field, delta);
+                if (value) {
+                    values.push(value);
+                }
+            }
+
+            return values.length ? values : undefined;
+        }
+
+        protected isExpandable(): boolean {
+            return this.ref !== undefined;
+        }
+    };
+
+    static BmsArrayVariable = class extends Variable {
+        setElements: number[];
+        bmsParent: BitmapSetSpecialMember;
+
+        /* Range of shown elements */
+        range = new ElementsRange();
+
+        /* 'setElements' contains all elements of set, not only first ones */
+        complete: boolean;
+
+        constructor(parent: BitmapSetSpecialMember,
+                    setElements: number[],
+                    private ref?: constants.BitmapsetReference) {
+            super('$elements$', '', '', '', parent.context, parent.frameId, parent);
+            this.setElements = setElements;
+            this.bmsParent = parent;
+            this.complete = setElements.length < getMaxContainerLength();
+        }
+
+        private createElement(index: number, value: number) {
+            return new BitmapSetSpecialMember.BmsElementVariable(
+                index, this, this.bmsParent,
+                value, this.context, this.ref);
+        }
+
+        private async getSetElements() {
+            if (this.complete || this.range.end < this.setElements.length) {
+                return this.setElements;
+            }
+
+            /* Parent obtained only first elements, also get one after end */
+            const members = await this.bmsParent.getRealMembers();
+            if (!members) {
+                return this.setElements;
+            }
+
+            const elements = await this.bmsParent.getSetElements(members, this.range.end + 1);
+            if (!elements) {
+                return this.setElements;
+            }
+
+            this.setElements = elements;
+            this.complete = elements.length <= this.range.end;
+            return elements;
+        }
+
+        async doGetChildren(): Promise<Variable[] | undefined> {
+            const elements = await this.getSetElements();
+            this.range.truncated = this.range.end < elements.length;
+            if (this.complete) {
+                this.range.total = elements.length;
+            }
+
+            return elements
+                .slice(this.range.start, this.range.end)
+                .map((se, i) => this.createElement(this.range.start + i, se));
+        }
+
+        protected isExpandable(): boolean {
+            return true;
+        }
+
+        protected getContextValue() {
+            return 'container';
+        }
+
+        async getTreeItem() {
+            return {
+                label: '$elements$',
+                collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+                contextValue: this.getContextValue(),
+            } as vscode.TreeItem;
+        }
+    };
+
+    static isBitmapsetType(type: string) {
+        const typename = dbg.getStructNameFromType(type);
+        if (typename === 'Bitmapset') {
+            /* Bitmapset* */
+            return dbg.havePointersCount(type, 1);
+        } else if (typename === 'Relids') {
+            /* Relids */
+            return dbg.havePointersCount(type, 0);
+        }
+        return false;
+    }
+}
+
+/**
+ * Represents Integer, String, Boolean, Float or BitString nodes.
+ * In older systems there was single 'Value' struct for them,
+ * but now separate.
+ * This class contains logic for handling both cases
+ */
+class ValueVariable extends NodeVariable {
+    protected async checkNodeTagMatchType() {
+        const structName = dbg.getStructNameFromType(this.type);
+
+        if (structName === this.realNodeTag || structName === 'Value') {
+            /*
+             * If tag equal to it's tag, so it's already have
+             * valid type and no need to cast.
+             *
+             * 'Value' is not a tag, but in this case we do not
+             * need to do anything too - already right type.
+             */
+            return;
+        }
+
+        /* Try cast struct to corresponding tag */
+        if (!this.context.hasValueStruct) {
+            try {
+                await this.castToNodeTag(this.realNodeTag);
+
+                /* Success */
+                return;
+            } catch (err: unknown) {
+                if (!isEvaluationError(err)) {
+                    throw err;
+                }
+
+                logger.error(err, 'could not cast type "', this.type, '" to tag', this.realNodeTag);
+            }
+        }
+
+        /* 
+         * Older versions of PostgreSQL has single 'Value' node which
+         * contains all possible fields and decision based only on tag.
+         */
+        try {
+            await this.castToNodeTag('Value');
+
+            /* On success update flag indicating we have 'Value' structure */
+            this.context.hasValueStruct = true;
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            logger.error(err, 'could not cast type "', this.type, '" to tag "Value"');
+        }
+    }
+
+    async doGetChildren() {
+        const children = await super.doGetChildren();
+        if (!children?.length) {
+            return children;
+        }
+
+        if (!this.context.hasValueStruct) {
+            /* Modern pg versions already have type knowledge (distinct NodeTags) */
+            return children;
+        }
+
+        const value = await this.getStringRepr();
+        return [
+            new ScalarVariable('$value$', value,
+                               '' /* no type for this */,
+                               this.context, this),
+            ...children.filter(v => v.name !== 'val'),
+        ];
+    }
+
+    private async getStringReprValueStruct() {
+        if (this.realNodeTag === 'Null') {
+            return 'NULL';
+        }
+
+        const valMember = await this.getMember('val');        
+        if (!(valMember instanceof RealVariable)) {
+            return '???';
+        }
+
+        if (this.realNodeTag === 'Integer') {
+            return (await valMember.getMemberValueNumber('ival')).toString();
+        }
+        
+        return await valMember.getMemberValueCharString('str');
+    }
+    
+    private async getStringReprDistinct() {
+        switch (this.realNodeTag) {
+            case 'Integer':
+                return (await this.getMemberValueNumber('ival')).toString();
+            case 'Float':
+                return await this.getMemberValueCharString('fval');
+            case 'Boolean':
+                return await this.getMemberValueBool('boolval') ? 'true' : 'false';
+            case 'String':
+                return await this.getMemberValueCharString('sval');
+            case 'BitString':
+                return await this.getMemberValueCharString('bsval');
+            case 'Null':
+                return 'NULL';
+        }
+
+        logger.warn('Unknown NodeTag for Value struct -', this.realNodeTag);
+        return '$UNKNOWN$';
+    }
+
+    cachedStringRepr?: string;
+
+    /*
+     * Get string representation of given Value (or Integer/String/etc...) struct
+     */
+    async getStringRepr() {
+        if (this.cachedStringRepr) {
+            return this.cachedStringRepr;
+        }
+        let repr;
+
+        /* It must be known by this time */
+        if (this.context.hasValueStruct) {
+            repr = await this.getStringReprValueStruct() ?? 'NULL';
+        } else {
+            repr = await this.getStringReprDistinct() ?? 'NULL';
+        }
+
+        this.cachedStringRepr = repr;
+        return repr;
+    }
+}
+
+async function getDefElemArgString(defElemVar: NodeVariable) {
+    const arg = await defElemVar.getMember('arg');
+    if (!(arg instanceof NodeVariable)) {
+        logger.warn('DefElem->arg is not a Node variable, given:', arg.constructor.name);
+        return;
+    }
+
+    /* see src/backend/commands/define.c:defGetString */
+    if (arg instanceof ValueVariable) {
+        return await arg.getStringRepr();
+    }
+
+    if (arg.realNodeTag === 'A_Star') {
+        return '*';
+    }
+    
+    if (arg.realNodeTag === 'TypeName') {
+        return await formatTypeNameRepr(arg);
+    }
+    
+    if (arg.realNodeTag === 'List' && arg instanceof ListNodeVariable) {
+        /* src/backend/catalog/namespace.c:NameListToString */
+        const elements = await arg.getListElements();
+        if (!elements) {
+            return;
+        }
+
+        const names = [];
+        for (const e of elements) {
+            if (e instanceof ValueVariable) {
+                names.push(e.getStringRepr());
+            } else if (e instanceof NodeVariable && e.realNodeTag === 'A_Star') {
+                names.push('*');
+            } else {
+                logger.warn('unknown type in NameList of DefElem:', e.constructor.name);
+            }
+        }
+        return names.join('.');
+    }
+}
+
+/**
+ * Represents Hash Table (HTAB) variable.
+ */
+class HTABSpecialMember extends RealVariable {
+    async findEntryType(): Promise<string | undefined> {
+        const map = this.context.hashTableTypes.htab.get(this.name);
+        if (!map) {
+            return;
+        }
+
+        if (!this.parent) {
+            return;
+        }
+
+        let parent;
+        if (this.parent instanceof VariablesRoot) {
+            parent = await this.context.getCurrentFunctionName();
+            if (!parent) {
+                return;
+            }
+        } else {
+            parent = dbg.getStructNameFromType(this.parent.type);
+        }
+
+        const info = map.get(parent);
+        return info?.type;
+    }
+
+    isDangerousBreakpoint(breakpoint: vscode.Breakpoint) {
+        if (!breakpoint.enabled) {
+            return false;
+        }
+        
+        if (breakpoint instanceof vscode.SourceBreakpoint) {
+            return breakpoint.location.uri.fsPath.endsWith('dynahash.c');
+        }
+        
+        if (breakpoint instanceof vscode.FunctionBreakpoint) {
+            return breakpoint.functionName.startsWith('hash_seq');
+        }
+        
+        return false;
+    }
+
+    safeToObserve(): boolean {
+        return this.context.step.isSafeToObserveHTAB
+            ??= !vscode.debug.breakpoints.find(this.isDangerousBreakpoint);
+    }
+
+    async doGetChildren(): Promise<Variable[] | undefined> {
+        const members = await super.doGetChildren();
+        if (!members) {
+            return members;
+        }
+
+        /* Hope, validity check is not necessary */
+        if (!this.context.isReadOnly && !this.safeToObserve()) {
+            return members;
+        }
+
+        const entryType = await this.findEntryType();
+        if (!entryType) {
+            return members;
+        }
+
+        members.unshift(new HTABElementsMember(this, entryType));
+        return members;
+    }
+}
+
+/**
+ * Represents array of stored entries of Hash Table.
+ * Loaded lazily when member is expanded.
+ */
+class HTABElementsMember extends Variable {
+    /*
+     * Parent HTAB
+     */
+    htab: HTABSpecialMember;
+
+    /**
+     * Type of entry of HTAB
+     */
+    entryType: string;
+
+    /* Range of shown elements */
+    range = new ElementsRange();
+
+    constructor(htab: HTABSpecialMember, entryType: string) {
+        super('$elements$', '', '', '', htab.context, htab.frameId, htab);
+        this.htab = htab;
+        this.entryType = entryType;
+    }
+
+    protected isExpandable(): boolean {
+        return true;
+    }
+
+    protected getContextValue() {
+        return 'container';
+    }
+
+    private async createHashSeqStatus(): Promise<string | undefined> {
+        /*
+         * HASH_SEQ_STATUS *status = palloc(sizeof(HASH_SEQ_STATUS));
+         * hash_seq_init(status, htab);
+         */
+        const memory = await this.palloc('sizeof(HASH_SEQ_STATUS)');
+        const pointer = this.htab.getPointer();
+        const expr = `hash_seq_init((HASH_SEQ_STATUS *)${memory}, (HTAB *)${pointer})`;
+
+        try {
+            await this.evaluateVoid(expr);
+            return memory;
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+            
+            logger.error(err, 'failed to invoke hash_seq_init');
+            await this.pfree(memory);
+        }
+
+        return memory;
+    }
+
+    private async finalizeHashSeqStatus(hashSeqStatus: string) {
+        /*
+         * hash_seq_term(status);
+         * pfree(status);
+         */
+        try {
+            await this.evaluateVoid(`hash_seq_term((HASH_SEQ_STATUS *)${hashSeqStatus})`);
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+            
+            logger.error(err, 'Could not invoke hash_seq_term');
+        }
+
+        await this.pfree(hashSeqStatus);
+    }
+
+    private async getNextHashEntry(hashSeqStatus: string): Promise<string | undefined> {
+        const result = await this.evaluate(`hash_seq_search((HASH_SEQ_STATUS *)${hashSeqStatus})`);
+        if (this.debug.isNull(result)) {
+            return undefined;
+        }
+        
+        return result.result;
+    }
+
+    /*
+     * Read entries directly from memory without 'hash_seq_search'.
+     * Used in post-mortem mode.  This is simplified version of
+     * 'hash_seq_search' logic:
+     * 
+     * for (bucket = 0; bucket <= hctl->max_bucket; ++bucket)
+     *     for (elem = dir[bucket >> sshift][bucket & (ssize - 1)]; elem; elem = elem->link)
+     *         entry = ELEMENTKEY(elem);
+     */
+    private async getElementsReadMemory(): Promise<Variable[] | undefined> {
+        const htab = `((HTAB *)${this.htab.getPointer()})`;
+        const readNumber = async (expr: string) => Number((await this.evaluate(expr)).result);
+        const maxBucket = await readNumber(`${htab}->hctl->max_bucket`);
+        const sshift = await readNumber(`${htab}->sshift`);
+        const ssize = await readNumber(`${htab}->ssize`);
+        if (!(   Number.isInteger(maxBucket)
+              && Number.isInteger(sshift)
+              && Number.isInteger(ssize) && 0 < ssize)) {
+            logger.warn('failed to read HTAB header for', this.htab.name);
+            return;
+        }
+
+        /* ELEMENTKEY: entry is stored right after MAXALIGN'ed HASHELEMENT */
+        const elementSize = await readNumber('sizeof(HASHELEMENT)');
+        const keyOffset = Math.ceil(elementSize / 8) * 8;
+
+        const variables: Variable[] = [];
+        let index = 0;
+        for (let bucket = 0; bucket <= maxBucket; ++bucket) {
+            const bucketExpr = `${htab}->dir[${bucket >> sshift}][${bucket & (ssize - 1)}]`;
+            let element = await this.evaluate(`(void *)${bucketExpr}`);
+            while (!this.debug.isNull(element)) {
+                if (!this.range.checkIndex(index)) {
+                    return variables;
+                }
+
+                const i = index++;
+                if (!this.range.includes(i)) {
+                    element = await this.evaluate(`(void *)((HASHELEMENT *)${element.result})->link`);
+                    continue;
+                }
+
+                let result;
+                try {
+                    result = await this.evaluate(`(${this.entryType})((char *)${element.result} + ${keyOffset})`);
+                } catch (err) {
+                    if (!isEvaluationError(err)) {
+                        throw err;
+                    }
+
+                    /* user can specify non-existent type */
+                    logger.error(err, 'Failed to create variable with type', this.entryType);
+                    return;
+                }
+
+                variables.push(await Variable.create({
+                    ...result,
+                    name: getNameForArrayElement(i),
+                    value: result.result,
+                    memoryReference: result.memoryReference,
+                }, this.frameId, this.context, this));
+
+                element = await this.evaluate(`(void *)((HASHELEMENT *)${element.result})->link`);
+            }
+        }
+
+        return variables;
+    }
+
+    async doGetChildren(): Promise<Variable[] | undefined> {
+        if (this.context.isReadOnly) {
+            return await this.getElementsReadMemory();
+        }
+
+        const variables: Variable[] = [];
+        const hashSeqStatus = await this.createHashSeqStatus();
+        if (!hashSeqStatus) {
+            return;
+        }
+
+        let index = 0;
+        let entry;
+        while ((entry = await this.getNextHashEntry(hashSeqStatus))) {
+            if (!this.range.checkIndex(index)) {
+                /* 
+                 * If we terminate iteration before iteration is completed,
+                 * we have to call finalizer function
+                 */
+                await this.finalizeHashSeqStatus(hashSeqStatus);
+                break;
+            }
+
+            const i = index++;
+            if (!this.range.includes(i)) {
+                continue;
+            }
+
+            let result;
+            try {
+                result = await this.evaluate(`(${this.entryType})${entry}`);
+            } catch (err) {
+                if (!isEvaluationError) {
+                    throw err;
+                }
+
+                /* user can specify non-existent type */
+                logger.error(err, 'Failed to create variable with type', this.entryType);
+                await this.finalizeHashSeqStatus(hashSeqStatus);
+                await this.pfree(hashSeqStatus);
+                return undefined;
+            }
+
+            let variable;
+            try {
+                variable = await Variable.create({
+                    ...result,
+                    name: getNameForArrayElement(i),
+                    value: result.result,
+                    memoryReference: result.memoryReference,
+                }, this.frameId, this.context, this);
+            } catch (error) {
+                if (!isEvaluationError(error)) {
+                    throw error;
+                }
+
+                await this.finalizeHashSeqStatus(hashSeqStatus);
+                await this.pfree(hashSeqStatus);
+
+                throw error;
+            }
+
+            variables.push(variable);
+        }
+
+        await this.pfree(hashSeqStatus);
+
+        return variables;
+    }
+}
+
+/**
+ * Represents simplehash hash table, created using '#include "lib/simplehash.h"'
+ */
+class SimplehashMember extends RealVariable {
+    /* 
+     * Stores information about simple hash table: prefix for identifier names,
+     * type of entry and flag, indicating if it has facility to iterate over it.
+     */
+    entry: SimplehashEntryInfo;
+
+    get prefix(): string {
+        return this.entry.prefix;
+    }
+
+    get elementType(): string {
+        return this.entry.type;
+    }
+  
+    constructor(entry: SimplehashEntryInfo, args: RealVariableArgs) {
+        super(args);
+        this.entry = entry;
+    }
+    
+    async doGetChildren(): Promise<Variable[] | undefined> {
+        const members = await super.doGetChildren();
+        if (!members) {
+            return members;
+        }
+
+        members.unshift(new SimplehashElementsMember(this));
+        return members;
+    }
+
+    static looksLikeSimpleHashTable(type: string) {
+        const index = type.indexOf('_hash');
+
+        /* 
+         * If there is no '_hash' in typename then 
+         * this is definitely not simple hash table
+         */
+        if (index === -1) {
+            return false;
+        }
+
+        /* 
+         * Check this is last part of typename, i.e. not part of whole typename
+         */
+        const endOfType = index + '_hash'.length;
+        if (type.length < endOfType) {
+            /*
+             * I assume, every hash table object is a pointer type,
+             * not allocated on stack.
+             */
+            return false;
+        }
+
+        /* 
+         * Next character after '_hash' must be non alphanumerical,
+         * so typename actually ends with '_hash'.
+         * In real life only available continuation is space or star.
+         */
+        const nextChar = type[endOfType];
+        return nextChar === ' ' || nextChar === '*';
+    }
+
+    static getPrefix(struct: string) {
+        if (!struct.endsWith('_hash')) {
+            return undefined;
+        }
+
+        return struct.substring(0, struct.length - '_hash'.length);
+    }
+}
+
+/**
+ * Represents members of simplehash variable, stored in $elements$
+ */
+class SimplehashElementsMember extends Variable {
+    /* 
+     * Parent simple hash table
+     */
+    hashTable: SimplehashMember;
+
+    /* Range of shown elements */
+    range = new ElementsRange();
+
+    constructor(hashTable: SimplehashMember) {
+        super('$elements$', '', '', '', hashTable.context, hashTable.frameId, 
+              hashTable);
+        this.hashTable = hashTable;
+    }
+    
+    protected isExpandable(): boolean {
+        return true;
+    }
+
+    protected getContextValue() {
+        return 'container';
+    }
+
+    private getHashTableType() {
+        return `${this.hashTable.prefix}_hash`;
+    }
+
+    private getIteratorFunction() {
+        return `${this.hashTable.prefix}_iterate`;
+    }
+
+    private getIteratorType() {
+        return `${this.hashTable.prefix}_iterator`;
+    }
+    
+    private removeFromContext() {
+        /* 
+         * If we can not iterate over this simplehash, i.e. because of
+         * iteration function was trimmed from debug symbols, then we
+         * just remove ourselves from context, so we will not be handled
+         * further again.
+         */
+        this.context.hashTableTypes.simplehash.delete(this.hashTable.prefix);
+    }
+
+    /* 
+     * Allocate memory for iterator struct and invoke initialization function on it.
+     */
+    async createIterator() {
+        const iteratorType = this.getIteratorType();
+        const hashTableType = this.getHashTableType();
+
+        /* 
+         * Using 'sizeof' can be first filter to define wheter it has any iteration facility.
+         */
+        let iteratorPtr;
+        try {
+            iteratorPtr = await this.palloc(`sizeof(${iteratorType})`);
+        } catch (error) {
+            if (isEvaluationError(error)) {
+                this.removeFromContext();
+                return undefined;
+            }
+            throw error;
+        }
+
+        /* 'start_iterate' seems not important to cache for optimization */
+        const hashTablePointer = `(${hashTableType} *) ${this.hashTable.getPointer()}`;
+        const iteratorPointer = `(${iteratorType} *)${iteratorPtr}`;
+        const expr = `${this.hashTable.prefix}_start_iterate(${hashTablePointer}, ${iteratorPointer})`;
+
+        try {
+            await this.evaluateVoid(expr);
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            await this.pfree(iteratorPtr);
+            this.removeFromContext();
+            return undefined;
+        }
+
+        return iteratorPtr;
+    }
+
+    async iterate(iterExpression: string) {
+        let result;
+        try {
+            result = await this.evaluate(iterExpression);
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            this.removeFromContext();
+            return undefined;
+        }
+        
+        if (this.debug.isNull(result)) {
+            return undefined;
+        }
+
+        return result;
+    }
+
+    private async createElement(iterator: string, index: number,
+                                result: dap.EvaluateResponse) {
+        try {
+            return await Variable.create({
+                ...result,
+                name: getNameForArrayElement(index),
+                value: result.result,
+                memoryReference: result.memoryReference,
+            }, this.frameId, this.context, this);
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            await this.pfree(iterator);
+            throw err;
+        }
+    }
+
+    /*
+     * Read elements directly from 'data' array without '_iterate' function.
+     * Used in post-mortem mode.  Each element has 'status' member and
+     * SH_STATUS_IN_USE (1) means that this bucket is occupied.
+     */
+    private async getElementsReadMemory(): Promise<Variable[] | undefined> {
+        const table = `((${this.getHashTableType()} *) ${this.hashTable.getPointer()})`;
+        const size = Number((await this.evaluate(`${table}->size`)).result);
+        const members = Number((await this.evaluate(`${table}->members`)).result);
+        if (!Number.isInteger(size) || !Number.isInteger(members)) {
+            logger.warn('failed to read size of simplehash', this.hashTable.name);
+            return;
+        }
+
+        const elementType = this.hashTable.elementType;
+        const end = this.range.clamp(members);
+        const variables = [];
+        let index = 0;
+        for (let i = 0; i < size && index < end; ++i) {
+            const element = `(&${table}->data[${i}])`;
+            const status = await this.evaluate(`(int)${element}->status`);
+            if (Number(status.result) !== 1) {
+                continue;
+            }
+
+            const position = index++;
+            if (!this.range.includes(position)) {
+                continue;
+            }
+
+            const result = await this.evaluate(`(${elementType})${element}`);
+            variables.push(await Variable.create({
+                ...result,
+                name: getNameForArrayElement(position),
+                value: result.result,
+                memoryReference: result.memoryReference,
+            }, this.frameId, this.context, this));
+        }
+
+        return variables;
+    }
+
+    async doGetChildren(): Promise<Variable[] | undefined> {
+        if (this.context.isReadOnly) {
+            return await this.getElementsReadMemory();
+        }
+
+        /* 
+         * Iteration pattern:
+         * 
+         * SH_ITERATOR iterator;
+         * SH_ELEMENT_TYPE element;
+         * SH_START_ITERATE(table, &iterator);
+         * 
+         * while ((element = SH_ITERATE(table, &iterator)) != NULL)
+         * {
+         *     // Processing
+         * }
+         * 
+         * 
+         * NOTE: in contrast to HTAB there is no need to call to terminate
+         *       iteration before end of iteration.
+         */
+
+        const iterator = await this.createIterator();
+        if (!iterator) {
+            return;
+        }
+
+        const iterFunction = this.getIteratorFunction();
+        const hashTableType = `(${this.getHashTableType()} *) ${this.hashTable.getPointer()}`;
+        const iteratorArg = `(${this.getIteratorType()} *) ${iterator}`;
+        const elementType = this.hashTable.elementType;
+        /* Iteration expression does not change, so cache it here and pass as arg */
+        const expression = `(${elementType}) ${iterFunction}(${hashTableType}, ${iteratorArg})`;
+        const variables = [];
+        let index = 0;
+        let result;
+        while ((result = await this.iterate(expression))) {
+            if (!this.range.checkIndex(index)) {
+                break;
+            }
+
+            if (this.range.includes(index)) {
+                variables.push(await this.createElement(iterator, index, result));
+            }
+            ++index;
+        }
+
+        await this.pfree(iterator);
+        return variables;
+    }
+}
+
+/* 
+ * Represents values of attributes in TupleTableSlot with tupoutput applied.
+ */
+class TupleTableSlotAttributesVariable extends Variable {
+    /* TupleTableSlot variable which we are rendering */
+    slot: TupleTableSlotVariable;
+    constructor(slot: TupleTableSlotVariable) {
+        super('$attributes$', '', '', '', slot.context, slot.frameId, slot);
+        this.slot = slot;
+    }
+
+    isExpandable() {
+        return true;
+    }
+
+    async getTupleDesc() {
+        const tupdesc = await this.slot.getMember('tts_tupleDescriptor');
+        return tupdesc as RealVariable;
+    }
+
+    async getDatums(nvalid: number) {
+        const expr = `((TupleTableSlot *)${this.slot.getPointer()})->tts_values`;
+        const datums = await this.debug.getArrayVariables(expr, nvalid, this.frameId);
+        return datums.map(dv => dv.value);
+    }
+
+    async getNulls(nvalid: number) {
+        const expr = `((TupleTableSlot *)${this.slot.getPointer()})->tts_isnull`;
+        const datums = await this.debug.getArrayVariables(expr, nvalid, this.frameId);
+        return datums.map(dv => this.debug.extractBool(dv));
+    }
+
+    async getAttribute(tupdesc: RealVariable, i: number) {
+        if (this.context.hasTupleDescAttrFunction) {
+            const expr = `TupleDescAttr((TupleDesc)${tupdesc.getPointer()}, ${i})`;
+            try {
+                const result = await this.evaluate(expr);
+                /*
+                 * Pass simple pointer, because Variable.create is too heavy for
+                 * such short operation. Anyway we know what we want to get (name
+                 * of member).
+                 */
+                return result.memoryReference;
+            } catch (err) {
+                if (!isEvaluationError(err)) {
+                    throw err;
+                }
+            }
+
+            this.context.hasTupleDescAttrFunction = false;
+
+            /*
+             * We can get here even if we DO have TupleDescAttr function, but
+             * some unknown error occurred. It means that after setting this
+             * feature flag we will break this codepath, because there will be
+             * no 'attrs' - only 'compact_attrs'.
+             * 
+             * For now I avoid adding too compex checking here, because I know
+             * that I will not test it and definetely will not be able to write
+             * auto test for it, but complexity will increase which hurts
+             * maintainability. Anyway we can just restart debugger.
+             */
+        }
+
+        /* Older versions store Form_pg_attribute pointers itself, not structures */
+        let expr;
+        if (this.context.pgVersionAtLeast(110000)) {
+            expr = `&((TupleDesc)${tupdesc.getPointer()})->attrs[${i}]`;
+        } else {
+            expr = `((TupleDesc)${tupdesc.getPointer()})->attrs[${i}]`;
+        }
+
+        const result = await this.evaluate(expr);
+        return result.memoryReference;
+    }
+    
+    async getStruct(ptr: string) {
+        const heaptupptr = `((const HeapTupleData *)${ptr})`;
+        if (this.context.hasGetStructFunction) {
+            try {
+                const expr = `GETSTRUCT(${heaptupptr})`;
+                const typeform = await this.evaluate(expr);
+                return typeform.memoryReference;
+            } catch (err) {
+                if (!isEvaluationError(err)) {
+                    throw err;
+                }
+            }
+            
+            this.context.hasGetStructFunction = false;
+        }
+        
+        const expr = `((char *)(${heaptupptr}->t_data) + ${heaptupptr}->t_data->t_hoff)`;
+        const form = await this.evaluate(expr);
+        return form.memoryReference;
+    }
+
+    /* 
+     * Search output function information for given type.
+     * 
+     * 'needoutput' is set to 'true' if we also should search for output
+     * function, otherwise it returned 'undefined'. This is done because
+     * we can get all type information in 1 call, but if value is 'NULL', then
+     * output is 'NULL'.
+     */
+    async getTypeInfo(formpgattribute: string, needoutput: boolean) {
+        let expr = `((Form_pg_attribute)${formpgattribute})->atttypid`;
+        let result = await this.evaluate(expr);
+        const atttyp = Number(result.result);
+        if (!oidIsValid(atttyp)) {
+            return;
+        }
+
+        /* 
+         * Now we must get typoutput Oid to get output representation of value.
+         * But know it is not safe to use 'getTypeOutputInfo', because if
+         * it's value is not valid Oid, then it throws ERROR, which is not
+         * good here.  So we must search syscache directly.
+         */
+        const syscacheTuple = await this.searchSysCache1('TYPEOID', atttyp);
+        if (!syscacheTuple) {
+            return;
+        }
+
+        const typeform = await this.getStruct(syscacheTuple);
+        expr = `(char *)((Form_pg_type)${typeform})->typname.data`;
+        result = await this.evaluate(expr);
+        const typname = this.debug.extractString(result);
+
+        /* such early filter saves some us */
+        let typoutput: number | undefined;
+        if (needoutput) {
+            expr = `((Form_pg_type)${typeform})->typoutput`;
+            const typoutputResult = await this.evaluate(expr);
+            typoutput = Number(typoutputResult.result);
+            if (!oidIsValid(typoutput)) {
+                typoutput = undefined;
+            }
+        }
+
+        await this.evaluateVoid(`ReleaseSysCache((HeapTuple)${syscacheTuple})`);
+        return {
+            typoutput,
+            typname,
+        };
+    }
+    
+    async doGetChildren() {
+        if (!this.context.isReadOnly) {
+            await this.checkCanAlloc();
+        }
+        
+        const nvalid = await this.slot.getMemberValueNumber('tts_nvalid');
+        if (nvalid == 0) {
+            return [];
+        }
+
+        const datums = await this.getDatums(nvalid);
+        const nulls = await this.getNulls(nvalid);
+
+        if (this.context.isReadOnly) {
+            /* Output functions can not be invoked, so show raw Datums */
+            return datums.map((datum, i) => new ScalarVariable(nulls[i] ? 'NULL' : datum,
+                                                               getCatalogPlaceholder('type'),
+                                                               '', this.context, this));
+        }
+
+        const tupdesc = await this.getTupleDesc();
+
+        const attrs = [];
+        for (let i = 0; i < nvalid; ++i) {
+            const isnull = nulls[i];
+
+            const attr = await this.getAttribute(tupdesc, i);
+            const typeInfo = await this.getTypeInfo(attr, !isnull);
+
+            let value;
+            let type;
+            if (typeInfo) {
+                const {typoutput, typname} = typeInfo;
+
+                type = typname;
+                if (isnull) {
+                    value = 'NULL';
+                } else if (typoutput) {
+                    /* getTypeInfo must check that typoutput is valid */
+                    console.assert(oidIsValid(typoutput));
+                    value = await this.oidOutputFunctionCall(typoutput, datums[i]);
+                }
+            } else if (isnull) {
+                value = 'NULL';
+            }
+
+            /* fallback with default values */
+            value ??= '???';
+            type ??= '';
+
+            /* 'value: type' */
+            attrs.push(new ScalarVariable(value, type, '', this.context, this));
+        }
+        
+        return attrs;
+    }
+}
+
+class TupleTableSlotVariable extends NodeVariable {
+    constructor(args: RealVariableArgs) {
+        super('TupleTableSlot', args); 
+    }
+
+    async doGetChildren() {
+        const children = await super.doGetChildren();
+        if (!children?.length) {
+            return children;
+        }
+
+        return [
+            ...children,
+            new TupleTableSlotAttributesVariable(this),
+        ];
+    }
+}
+
+/* 
+ * Represents scalar integer field, that acts like value of enumeration
+ * (maybe bitmask), but defined using macros instead of enum values.
+ * Also, in such integer fields some parts stores some value, i.e. length.
+ * Example is 't_infomask2' which stores both flags and number of attributes.
+ * 
+ * NOTE: it extends RealVariable (not ScalarVariable), because this member
+ * can be used in 'watch' window, otherwise we can not get reference to it.
+ */
+class FlagsMemberVariable extends RealVariable {
+    /* 
+     * In a good way, we should use macros in expressions, but default debug
+     * symbols (at least compiled with '-g') do not include this information,
+     * so we get 'undeclared symbol' error. For this you should enable extra
+     * debug symbols (i.e. for gdb use '-g3' level).
+     * 
+     * But even if we know numeric value of enum member and have the same
+     * endianness we still have to evaluate all expressions in debugger, because
+     * 1) due to another major pg version numeric values can change
+     * 2) we can debug coredump collected from another machine, so we should not
+     *    assume this PC is binary compatible with one that is debugged  
+     */
+
+    constructor(public bitmaskInfo: BitmaskMemberInfo, args: RealVariableArgs) {
+        super(args);
+    }
+
+    protected isExpandable(): boolean {
+        /* 
+         * Mask values are shown in description, but for fields it is
+         * more convenient to show as children elements.
+         */
+        return !!this.bitmaskInfo.fields?.length;
+    }
+    
+    async getTreeItem() {
+        const item = await super.getTreeItem();
+        /*
+         * Show original integer value in tooltip, because user may
+         * want to know it, i.e. because our flags seem strange and
+         * he would like to recheck.
+         */
+        item.tooltip = this.value;
+        return item;
+    }
+
+    private async collectFlagValuesInternal(exprFormatter: (m: FlagMemberInfo) => string) {
+        if (!this.bitmaskInfo.flags) {
+            return;
+        }
+        
+        const flags = [];
+        
+        for (const f of this.bitmaskInfo.flags) {
+            const expr = exprFormatter(f);
+            const result = await this.evaluate(expr);
+            if (result.result === '1') {
+                flags.push(f.flag);
+            }
+        }
+
+        return flags;
+    }
+
+    private async collectFlagValues() {
+        const flagStrategy = (f: FlagMemberInfo) => {
+            return `((${this.value}) & (${f.flag})) == (${f.flag})
+                        ? 1
+                        : 0`;
+        };
+
+        const valueStrategy = (f: FlagMemberInfo) => {
+            if (f.numeric === undefined) {
+                throw new EvaluationError(`no numeric value for enum member ${f.flag}`);
+            }
+
+            return `((${this.value}) & (${f.numeric})) == (${f.numeric})
+                        ? 1
+                        : 0`;
+        };
+
+        if (this.context.canUseMacros) {
+            try {
+                return await this.collectFlagValuesInternal(flagStrategy);
+            } catch (err) {
+                if (!isEvaluationError(err)) {
+                    throw err;
+                }
+                
+                this.context.canUseMacros = false;
+            }
+        }
+
+        return await this.collectFlagValuesInternal(valueStrategy);
+    }
+    
+    private async collectFieldValuesInternal(exprFormatter: (m: FieldMemberInfo) => string) {
+        if (!this.bitmaskInfo.fields) {
+            return;
+        }
+        
+        const fields: [string, string][] = [];
+        
+        for (const f of this.bitmaskInfo.fields) {
+            const expr = exprFormatter(f);
+            const result = await this.evaluate(expr);
+
+            /*
+             * Fields can contain '0' and it's OK, but if there is an error
+             * occurred we will get Error, so 'value' must contain only valid
+             * value.
+             */
+            fields.push([f.name, result.result]);
+        }
+        
+        return fields;
+    }
+    
+    private async collectFieldsValues() {
+        const flagStrategy = (f: FieldMemberInfo) => {
+            return `(${this.value}) & (${f.mask})`;
+        };
+
+        const valueStrategy = (f: FieldMemberInfo) => {
+            if (f.numeric === undefined) {
+                throw new EvaluationError(
+                    `no numeric value for enum field ${f.name} of ${this.name}`);
+            }
+
+            return `(${this.value}) & (${f.numeric})`;
+        };
+
+        if (this.context.canUseMacros) {
+            try {
+                return await this.collectFieldValuesInternal(flagStrategy);
+            } catch (err) {
+                if (!isEvaluationError(err)) {
+                    throw err;
+                }
+
+                this.context.canUseMacros = false;
+            }
+        }
+
+        return await this.collectFieldValuesInternal(valueStrategy);
+    }
+
+    async getDescription(): Promise<string> {
+        if (!this.bitmaskInfo.flags?.length) {
+            return await super.getDescription();
+        }
+
+        let flagValues;
+        try {
+            flagValues = await this.collectFlagValues();
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            logger.error(err, 'failed to evaluate flags for', this.name);
+            this.context.canUseMacros = false;
+            return await super.getDescription();
+        }
+        
+        /* 
+         * XXX: for large amount of flags it is better to show
+         * as child elements, otherwise desciption will be too long
+         */
+        return flagValues?.join(' | ') ?? await super.getDescription();
+    }
+    
+    async doGetChildren() {
+        if (!this.bitmaskInfo.fields?.length) {
+            return [];
+        }
+        
+        try {
+            const fields = await this.collectFieldsValues();
+            return fields?.map(([name, value]) => 
+                new ScalarVariable(name, value, '', this.context, this)) ?? [];
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            logger.error(err, 'failed to evaluate fields for', this.name);
+            this.context.canUseMacros = false;
+            return [];
+        }
+    }
+}
+
+/*
+ * Values of 'lp_flags' member of ItemIdData (storage/itemid.h).
+ * They have not changed since 8.3, before that 'lp_flags' was a bitmask.
+ */
+const linePointerFlags = ['LP_UNUSED', 'LP_NORMAL', 'LP_REDIRECT', 'LP_DEAD'];
+
+export function getLinePointerFlagsName(flags: number) {
+    return linePointerFlags[flags] ?? flags.toString();
+}
+
+/**
+ * Format line pointer (ItemIdData), i.e. 'LP_NORMAL (off=8152, len=40)'
+ */
+export function formatLinePointer(flags: number, off: number, len: number) {
+    const name = getLinePointerFlagsName(flags);
+    if (name === 'LP_REDIRECT') {
+        /* 'lp_off' stores offset number of tuple it redirects to */
+        return `${name} -> ${off}`;
     }
 
-    static getPrefix(struct: string) {
-        if (!struct.endsWith('_hash')) {
-            return undefined;
-        }
+    return `${name} (off=${off}, len=${len})`;
+}
 
-        return struct.substring(0, struct.length - '_hash'.length);
+/**
+ * Get attribute numbers of NULL attributes from null bitmap ('t_bits')
+ * of heap tuple.  As in 'att_isnull', bit is NOT set for NULL attribute.
+ *
+ * @param bits Bytes of null bitmap, at least '(natts + 7) / 8'
+ * @param natts Number of attributes in tuple
+ */
+export function decodeNullBitmap(bits: number[], natts: number) {
+    const nulls = [];
+    for (let attnum = 1; attnum <= natts; attnum++) {
+        const byte = bits[(attnum - 1) >> 3];
+        if (!(byte & (1 << ((attnum - 1) & 0x07)))) {
+            nulls.push(attnum);
+        }
     }
+    return nulls;
 }
 
 /**
- * Represents members of simplehash variable, stored in $elements$
+ * Represents disk page: 'Page' or 'PageHeader' variable.
+ * 'Page' is just a 'char *', so it is shown as 'PageHeaderData *' (this
+ * way 'pd_flags' are decoded) with additional member for line pointers.
  */
-class SimplehashElementsMember extends Variable {
-    /* 
-     * Parent simple hash table
-     */
-    hashTable: SimplehashMember;
-
-    constructor(hashTable: SimplehashMember) {
-        super('$elements$', '', '', '', hashTable.context, hashTable.frameId, 
-              hashTable);
-        this.hashTable = hashTable;
-    }
-    
-    protected isExpandable(): boolean {
-        return true;
+class PageVariable extends RealVariable {
+    constructor(args: RealVariableArgs) {
+        super({
+            ...args,
+            type: 'PageHeaderData *',
+        });
     }
 
-    private getHashTableType() {
-        return `${this.hashTable.prefix}_hash`;
-    }
+    static isPageType(type: string) {
+        const struct = dbg.getStructNameFromType(type);
+        if (struct === 'PageHeaderData') {
+            return dbg.havePointersCount(type, 1);
+        }
 
-    private getIteratorFunction() {
-        return `${this.hashTable.prefix}_iterate`;
+        /* Both are typedefs for pointers */
+        return    (struct === 'Page' || struct === 'PageHeader')
+               && dbg.havePointersCount(type, 0);
     }
 
-    private getIteratorType() {
-        return `${this.hashTable.prefix}_iterator`;
+    protected isExpandable() {
+        return true;
     }
-    
-    private removeFromContext() {
-        /* 
-         * If we can not iterate over this simplehash, i.e. because of
-         * iteration function was trimmed from debug symbols, then we
-         * just remove ourselves from context, so we will not be handled
-         * further again.
-         */
-        this.context.hashTableTypes.simplehash.delete(this.hashTable.prefix);
+
+    protected async doGetRealMembers() {
+        /* 'Page' is 'char *', so we must cast it to see header members */
+        const result = await this.evaluate(`(PageHeaderData *)${this.getPointer()}`);
+        this.variablesReference = result.variablesReference;
+        return await super.doGetRealMembers();
     }
 
-    /* 
-     * Allocate memory for iterator struct and invoke initialization function on it.
+    /**
+     * Check that page does not have special space, so it is a heap page
+     * and tuples are HeapTupleHeaders. Otherwise it is an index page.
      */
-    async createIterator() {
-        const iteratorType = this.getIteratorType();
-        const hashTableType = this.getHashTableType();
+    async isHeapPage() {
+        const special = await this.getMemberValueNumber('pd_special');
+        const pagesize = await this.evaluate(
+            `(int)(((PageHeaderData *)${this.getPointer()})->pd_pagesize_version & 0xFF00)`);
+        return special === Number(pagesize.result);
+    }
 
-        /* 
-         * Using 'sizeof' can be first filter to define wheter it has any iteration facility.
-         */
-        let iteratorPtr;
-        try {
-            iteratorPtr = await this.palloc(`sizeof(${iteratorType})`);
-        } catch (error) {
-            if (isEvaluationError(error)) {
-                this.removeFromContext();
-                return undefined;
-            }
-            throw error;
+    /**
+     * Get number of line pointers on page - PageGetMaxOffsetNumber
+     */
+    async getMaxOffsetNumber() {
+        const page = `((PageHeaderData *)${this.getPointer()})`;
+        const result = await this.evaluate(
+            `(int)(((char *)${page} + ${page}->pd_lower - (char *)${page}->pd_linp) / sizeof(ItemIdData))`);
+        const count = Number(result.result);
+        if (!Number.isInteger(count)) {
+            throw new UnexpectedOutputError(`failed to get max offset number: ${result.result}`);
         }
 
-        /* 'start_iterate' seems not important to cache for optimization */
-        const hashTablePointer = `(${hashTableType} *) ${this.hashTable.getPointer()}`;
-        const iteratorPointer = `(${iteratorType} *)${iteratorPtr}`;
-        const expr = `${this.hashTable.prefix}_start_iterate(${hashTablePointer}, ${iteratorPointer})`;
-
-        try {
-            await this.evaluateVoid(expr);
-        } catch (err) {
-            if (!isEvaluationError(err)) {
-                throw err;
-            }
+        /* New page (all zeroes) has pd_lower = 0 */
+        return count < 0 ? 0 : count;
+    }
 
-            await this.pfree(iteratorPtr);
-            this.removeFromContext();
-            return undefined;
+    async getDescription() {
+        if (this.customDescriptionCache) {
+            return this.customDescriptionCache;
         }
 
-        return iteratorPtr;
-    }
-
-    async iterate(iterator: string, index: number, iterExpression: string) {
-        let result;
         try {
-            result = await this.evaluate(iterExpression);
-        } catch (err) {
-            if (!isEvaluationError(err)) {
-                throw err;
+            const lower = await this.getMemberValueNumber('pd_lower');
+            const upper = await this.getMemberValueNumber('pd_upper');
+            if (upper === 0) {
+                /* PageIsNew */
+                return this.customDescriptionCache = 'new page';
             }
 
-            this.removeFromContext();
-            return undefined;
-        }
-        
-        if (this.debug.isNull(result)) {
-            return undefined;
-        }
-
-        try {
-            return await Variable.create({
-                ...result,
-                name: getNameForArrayElement(index),
-                value: result.result,
-                memoryReference: result.memoryReference,
-            }, this.frameId, this.context, this);
+            const count = await this.getMaxOffsetNumber();
+            return this.customDescriptionCache = `${count} items; ${upper - lower} free`;
         } catch (err) {
             if (!isEvaluationError(err)) {
                 throw err;
             }
 
-            await this.pfree(iterator);
-            throw err;
+            logger.error(err, 'could not get description for Page', this.name);
+            return await super.getDescription();
         }
     }
 
-    async doGetChildren(): Promise<Variable[] | undefined> {
-        /* 
-         * Iteration pattern:
-         * 
-         * SH_ITERATOR iterator;
-         * SH_ELEMENT_TYPE element;
-         * SH_START_ITERATE(table, &iterator);
-         * 
-         * while ((element = SH_ITERATE(table, &iterator)) != NULL)
-         * {
-         *     // Processing
-         * }
-         * 
-         * 
-         * NOTE: in contrast to HTAB there is no need to call to terminate
-         *       iteration before end of iteration.
-         */
-
-        const iterator = await this.createIterator();
-        if (!iterator) {
-            return;
-        }
-
-        const iterFunction = this.getIteratorFunction();
-        const hashTableType = `(${this.getHashTableType()} *) ${this.hashTable.getPointer()}`;
-        const iteratorArg = `(${this.getIteratorType()} *) ${iterator}`;
-        const elementType = this.hashTable.elementType;
-        /* Iteration expression does not change, so cache it here and pass as arg */
-        const expression = `(${elementType}) ${iterFunction}(${hashTableType}, ${iteratorArg})`;
-        const maxLength = getMaxContainerLength();
-        const variables = [];
-        let id = 0;
-        let variable;
-        while (   variables.length < maxLength 
-               && (variable = await this.iterate(iterator, id, expression))) {
-            ++id;
-            variables.push(variable);
+    async doGetChildren() {
+        const members = await super.doGetChildren();
+        if (!members) {
+            return members;
         }
 
-        await this.pfree(iterator);
-        return variables;
+        members.push(new PageLinePointersVariable(this));
+        return members;
     }
 }
 
-/* 
- * Represents values of attributes in TupleTableSlot with tupoutput applied.
+/**
+ * Pseudo-member of Page with all line pointers (ItemIdData) on it.
  */
-class TupleTableSlotAttributesVariable extends Variable {
-    /* TupleTableSlot variable which we are rendering */
-    slot: TupleTableSlotVariable;
-    constructor(slot: TupleTableSlotVariable) {
-        super('$attributes$', '', '', '', slot.context, slot.frameId, slot);
-        this.slot = slot;
+class PageLinePointersVariable extends Variable {
+    page: PageVariable;
+
+    constructor(page: PageVariable) {
+        super('$line pointers$', '', '', '', page.context, page.frameId, page);
+        this.page = page;
     }
 
-    isExpandable() {
+    protected isExpandable() {
         return true;
     }
 
-    async getTupleDesc() {
-        const tupdesc = await this.slot.getMember('tts_tupleDescriptor');
-        return tupdesc as RealVariable;
+    async doGetChildren() {
+        const count = await this.page.getMaxOffsetNumber();
+        if (count === 0) {
+            return [];
+        }
+
+        const isHeap = await this.page.isHeapPage();
+        const expr = `((PageHeaderData *)${this.page.getPointer()})->pd_linp`;
+        const itemIds = await this.debug.getArrayVariables(expr, clampContainerLength(count),
+                                                           this.frameId);
+        const pointers = [];
+        for (const [i, itemId] of itemIds.entries()) {
+            const members = await this.debug.getMembers(itemId.variablesReference);
+            const getValue = (name: string) => {
+                const value = Number(members.find(m => m.name === name)?.value);
+                if (!Number.isInteger(value)) {
+                    throw new UnexpectedOutputError(`could not get ${name} of line pointer ${i + 1}`);
+                }
+                return value;
+            };
+
+            /* OffsetNumber starts from 1 */
+            pointers.push(new LinePointerVariable(this, i + 1, getValue('lp_flags'),
+                                                  getValue('lp_off'), getValue('lp_len'),
+                                                  isHeap));
+        }
+
+        return pointers;
     }
+}
 
-    async getDatums(nvalid: number) {
-        const expr = `((TupleTableSlot *)${this.slot.getPointer()})->tts_values`;
-        const datums = await this.debug.getArrayVariables(expr, nvalid, this.frameId);
-        return datums.map(dv => dv.value);
+/**
+ * Single line pointer (ItemIdData) of page with tuple it points to.
+ */
+class LinePointerVariable extends Variable {
+    constructor(private linp: PageLinePointersVariable,
+                private offnum: number,
+                private flags: number,
+                private off: number,
+                private len: number,
+                private isHeap: boolean) {
+        super(getNameForArrayElement(offnum), '', '', '', linp.context, linp.frameId, linp);
     }
 
-    async getNulls(nvalid: number) {
-        const expr = `((TupleTableSlot *)${this.slot.getPointer()})->tts_isnull`;
-        const datums = await this.debug.getArrayVariables(expr, nvalid, this.frameId);
-        return datums.map(dv => this.debug.extractBool(dv));
+    /* Only normal line pointers have storage */
+    get hasStorage() {
+        return getLinePointerFlagsName(this.flags) === 'LP_NORMAL' && 0 < this.len;
     }
 
-    async getAttribute(tupdesc: RealVariable, i: number) {
-        if (this.context.hasTupleDescAttrFunction) {
-            const expr = `TupleDescAttr((TupleDesc)${tupdesc.getPointer()}, ${i})`;
-            try {
-                const result = await this.evaluate(expr);
-                /*
-                 * Pass simple pointer, because Variable.create is too heavy for
-                 * such short operation. Anyway we know what we want to get (name
-                 * of member).
-                 */
-                return result.memoryReference;
-            } catch (err) {
-                if (!isEvaluationError(err)) {
-                    throw err;
-                }
-            }
+    protected isExpandable() {
+        return this.hasStorage;
+    }
 
-            this.context.hasTupleDescAttrFunction = false;
+    protected async getDescription() {
+        return formatLinePointer(this.flags, this.off, this.len);
+    }
 
-            /*
-             * We can get here even if we DO have TupleDescAttr function, but
-             * some unknown error occurred. It means that after setting this
-             * feature flag we will break this codepath, because there will be
-             * no 'attrs' - only 'compact_attrs'.
-             * 
-             * For now I avoid adding too compex checking here, because I know
-             * that I will not test it and definetely will not be able to write
-             * auto test for it, but complexity will increase which hurts
-             * maintainability. Anyway we can just restart debugger.
-             */
+    async doGetChildren() {
+        if (!this.hasStorage) {
+            return [];
         }
 
-        /* Older versions store Form_pg_attribute pointers itself, not structures */
-        let expr;
-        if (this.context.pgVersionAtLeast(110000)) {
-            expr = `&((TupleDesc)${tupdesc.getPointer()})->attrs[${i}]`;
-        } else {
-            expr = `((TupleDesc)${tupdesc.getPointer()})->attrs[${i}]`;
-        }
+        const type = this.isHeap ? 'HeapTupleHeaderData *' : 'IndexTupleData *';
+        const page = this.linp.page.getPointer();
+        const result = await this.evaluate(`(${type})((char *)${page} + ${this.off})`);
+        const tuple = await Variable.create({
+            ...result,
+            name: this.isHeap ? 'tuple' : 'itup',
+            value: result.result,
+            memoryReference: result.memoryReference,
+        }, this.frameId, this.context, this);
+        return [tuple];
+    }
+}
 
-        const result = await this.evaluate(expr);
-        return result.memoryReference;
+/**
+ * Represents 'HeapTupleHeader' variable. It is shown as 'HeapTupleHeaderData *'
+ * (to decode 't_infomask' and 't_infomask2') with null bitmap.
+ */
+class HeapTupleHeaderVariable extends RealVariable {
+    constructor(args: RealVariableArgs) {
+        super({
+            ...args,
+            type: 'HeapTupleHeaderData *',
+        });
     }
-    
-    async getStruct(ptr: string) {
-        const heaptupptr = `((const HeapTupleData *)${ptr})`;
-        if (this.context.hasGetStructFunction) {
-            try {
-                const expr = `GETSTRUCT(${heaptupptr})`;
-                const typeform = await this.evaluate(expr);
-                return typeform.memoryReference;
-            } catch (err) {
-                if (!isEvaluationError(err)) {
-                    throw err;
-                }
-            }
-            
-            this.context.hasGetStructFunction = false;
+
+    static isHeapTupleHeaderType(type: string) {
+        const struct = dbg.getStructNameFromType(type);
+        if (struct === 'HeapTupleHeaderData') {
+            return dbg.havePointersCount(type, 1);
         }
-        
-        const expr = `((char *)(${heaptupptr}->t_data) + ${heaptupptr}->t_data->t_hoff)`;
-        const form = await this.evaluate(expr);
-        return form.memoryReference;
+
+        return struct === 'HeapTupleHeader' && dbg.havePointersCount(type, 0);
     }
 
-    /* 
-     * Search output function information for given type.
-     * 
-     * 'needoutput' is set to 'true' if we also should search for output
-     * function, otherwise it returned 'undefined'. This is done because
-     * we can get all type information in 1 call, but if value is 'NULL', then
-     * output is 'NULL'.
+    protected isExpandable() {
+        return true;
+    }
+
+    /*
+     * Get numeric value of flag/field from versioned flags table.
+     * If we do not know PostgreSQL version, then there is no table.
      */
-    async getTypeInfo(formpgattribute: string, needoutput: boolean) {
-        let expr = `((Form_pg_attribute)${formpgattribute})->atttypid`;
-        let result = await this.evaluate(expr);
-        const atttyp = Number(result.result);
-        if (!oidIsValid(atttyp)) {
+    private getFlagValue(member: string, name: string) {
+        const info = this.context.specialMemberRegistry.getFlagsMember('HeapTupleHeaderData',
+                                                                       member);
+        const flag = info?.flags?.find(f => f.flag === name)?.numeric
+                  ?? info?.fields?.find(f => f.name === name)?.numeric;
+        return flag === undefined ? undefined : Number(flag);
+    }
+
+    /**
+     * Get attribute numbers of NULL attributes using null bitmap ('t_bits').
+     * Returns 'undefined' if tuple does not have null bitmap.
+     */
+    async getNullAttributes() {
+        const hasNull = this.getFlagValue('t_infomask', 'HEAP_HASNULL');
+        const nattsMask = this.getFlagValue('t_infomask2', 'natts');
+        if (hasNull === undefined || nattsMask === undefined) {
             return;
         }
 
-        /* 
-         * Now we must get typoutput Oid to get output representation of value.
-         * But know it is not safe to use 'getTypeOutputInfo', because if
-         * it's value is not valid Oid, then it throws ERROR, which is not
-         * good here.  So we must search syscache directly.
-         */
-        const syscacheTuple = await this.searchSysCache1('TYPEOID', atttyp);
-        if (!syscacheTuple) {
+        const infomask = await this.getMemberValueNumber('t_infomask');
+        if (!(infomask & hasNull)) {
             return;
         }
 
-        const typeform = await this.getStruct(syscacheTuple);
-        expr = `(char *)((Form_pg_type)${typeform})->typname.data`;
-        result = await this.evaluate(expr);
-        const typname = this.debug.extractString(result);
-
-        /* such early filter saves some us */
-        let typoutput: number | undefined;
-        if (needoutput) {
-            expr = `((Form_pg_type)${typeform})->typoutput`;
-            const typoutputResult = await this.evaluate(expr);
-            typoutput = Number(typoutputResult.result);
-            if (!oidIsValid(typoutput)) {
-                typoutput = undefined;
+        const natts = (await this.getMemberValueNumber('t_infomask2')) & nattsMask;
+        const bits = [];
+        for (let i = 0; i < (natts + 7) >> 3; i++) {
+            /* 
+             * 'bits8' is shown as char, so cast it to int to get
+             * plain number.
+             */
+            const expr = `(int)((HeapTupleHeaderData *)${this.getPointer()})->t_bits[${i}]`;
+            const result = await this.evaluate(expr);
+            const byte = Number(result.result);
+            if (!Number.isInteger(byte)) {
+                throw new UnexpectedOutputError(`could not get t_bits[${i}]`);
             }
+            bits.push(byte);
         }
 
-        await this.evaluateVoid(`ReleaseSysCache((HeapTuple)${syscacheTuple})`);
-        return {
-            typoutput,
-            typname,
-        };
+        return decodeNullBitmap(bits, natts);
     }
-    
+
     async doGetChildren() {
-        await this.checkCanAlloc();
-        
-        const nvalid = await this.slot.getMemberValueNumber('tts_nvalid');
-        if (nvalid == 0) {
-            return [];
+        const members = await super.doGetChildren();
+        if (!members) {
+            return members;
         }
 
-        const tupdesc = await this.getTupleDesc();
-        const datums = await this.getDatums(nvalid);
-        const nulls = await this.getNulls(nvalid);
-
-        const attrs = [];
-        for (let i = 0; i < nvalid; ++i) {
-            const isnull = nulls[i];
-
-            const attr = await this.getAttribute(tupdesc, i);
-            const typeInfo = await this.getTypeInfo(attr, !isnull);
+        try {
+            const nulls = await this.getNullAttributes();
+            if (nulls) {
+                members.push(new ScalarVariable('$nulls$', `{${nulls.join(', ')}}`, '',
+                                                this.context, this,
+                                                'Attribute numbers of NULL attributes'));
+            }
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
 
-            let value;
-            let type;
-            if (typeInfo) {
-                const {typoutput, typname} = typeInfo;
+            logger.error(err, 'could not get null bitmap for', this.name);
+        }
 
-                type = typname;
-                if (isnull) {
-                    value = 'NULL';
-                } else if (typoutput) {
-                    /* getTypeInfo must check that typoutput is valid */
-                    console.assert(oidIsValid(typoutput));
-                    value = await this.oidOutputFunctionCall(typoutput, datums[i]);
-                }
-            } else if (isnull) {
-                value = 'NULL';
-            }
+        return members;
+    }
+}
 
-            /* fallback with default values */
-            value ??= '???';
-            type ??= '';
+function pgVersionIsValid(version: number) {
+    /*
+     * PG_VERSION_NUM is a 6 digit number in form: MAJOR_MINOR_PATCH,
+     * so perform not only Integer check, but also a value range.
+     */
+    return Number.isInteger(version) && 1_00_00 < version && version < 99_99_99;
+}
 
-            /* 'value: type' */
-            attrs.push(new ScalarVariable(value, type, '', this.context, this));
-        }
-        
-        return attrs;
+/**
+ * Get range of shown elements if variable is a container, which
+ * elements are limited with 'maxContainerLength'.
+ */
+function getElementsRange(variable: Variable) {
+    if (   variable instanceof ListElementsMember
+        || variable instanceof LinkedListElementsMember
+        || variable instanceof ArrayVariable
+        || variable instanceof BitmapSetSpecialMember.BmsArrayVariable
+        || variable instanceof HTABElementsMember
+        || variable instanceof SimplehashElementsMember) {
+        return variable.range;
     }
 }
 
-class TupleTableSlotVariable extends NodeVariable {
-    constructor(args: RealVariableArgs) {
-        super('TupleTableSlot', args); 
+/**
+ * Last item of truncated container.  Click on it loads next
+ * 'maxContainerLength' elements.
+ */
+class LoadMoreVariable extends Variable {
+    constructor(public container: Variable, public range: ElementsRange) {
+        super('$more$', '', '', '', container.context, container.frameId, container);
     }
 
     async doGetChildren() {
-        const children = await super.doGetChildren();
-        if (!children?.length) {
-            return children;
-        }
+        return undefined;
+    }
 
-        return [
-            ...children,
-            new TupleTableSlotAttributesVariable(this),
-        ];
+    async getTreeItem() {
+        const more = this.range.total === undefined
+            ? 'more'
+            : `${this.range.total - this.range.end} more`;
+        return {
+            label: `… ${more} (load next ${getMaxContainerLength()})`,
+            collapsibleState: vscode.TreeItemCollapsibleState.None,
+            command: {
+                title: 'Load more',
+                command: Commands.LoadMoreElements,
+                arguments: [this],
+            },
+        } as vscode.TreeItem;
     }
 }
 
-/* 
- * Represents scalar integer field, that acts like value of enumeration
- * (maybe bitmask), but defined using macros instead of enum values.
- * Also, in such integer fields some parts stores some value, i.e. length.
- * Example is 't_infomask2' which stores both flags and number of attributes.
- * 
- * NOTE: it extends RealVariable (not ScalarVariable), because this member
- * can be used in 'watch' window, otherwise we can not get reference to it.
+/**
+ * Group of expressions shown on top of 'pg variables' view.  Unlike
+ * builtin 'Watch' view, results are shown with PG-aware representation
+ * (NodeTag, List, HTAB, Expr, etc...).
  */
-class FlagsMemberVariable extends RealVariable {
-    /* 
-     * In a good way, we should use macros in expressions, but default debug
-     * symbols (at least compiled with '-g') do not include this information,
-     * so we get 'undeclared symbol' error. For this you should enable extra
-     * debug symbols (i.e. for gdb use '-g3' level).
-     * 
-     * But even if we know numeric value of enum member and have the same
-     * endianness we still have to evaluate all expressions in debugger, because
-     * 1) due to another major pg version numeric values can change
-     * 2) we can debug coredump collected from another machine, so we should not
-     *    assume this PC is binary compatible with one that is debugged  
-     */
-
-    constructor(public bitmaskInfo: BitmaskMemberInfo, args: RealVariableArgs) {
-        super(args);
+class ExpressionsGroupVariable extends Variable {
+    constructor(name: string, private expressions: GlobalVariableInfo[],
+                context: ExecContext, frameId: number) {
+        super(name, '', '', '', context, frameId, undefined);
     }
 
-    protected isExpandable(): boolean {
-        /* 
-         * Mask values are shown in description, but for fields it is
-         * more convenient to show as children elements.
-         */
-        return !!this.bitmaskInfo.fields?.length;
+    protected isExpandable() {
+        return true;
     }
-    
-    async getTreeItem() {
-        const item = await super.getTreeItem();
-        /*
-         * Show original integer value in tooltip, because user may
-         * want to know it, i.e. because our flags seem strange and
-         * he would like to recheck.
-         */
-        item.tooltip = this.value;
-        return item;
+
+    /**
+     * Get expression, which child variable with given name was evaluated from
+     */
+    getExpression(name: string) {
+        return this.expressions.find(e => e.name === name)?.expression;
     }
 
-    private async collectFlagValuesInternal(exprFormatter: (m: FlagMemberInfo) => string) {
-        if (!this.bitmaskInfo.flags) {
-            return;
-        }
-        
-        const flags = [];
-        
-        for (const f of this.bitmaskInfo.flags) {
-            const expr = exprFormatter(f);
-            const result = await this.evaluate(expr);
-            if (result.result === '1') {
-                flags.push(f.flag);
+    private async evaluateExpression({name, expression}: GlobalVariableInfo) {
+        let result;
+        try {
+            result = await this.debug.evaluate(expression, this.frameId);
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
             }
+
+            /* Expression may be invalid in current frame - it's ok */
+            return new ScalarVariable(name, `<error: ${err.message}>`, '',
+                                      this.context, this, err.message);
         }
 
-        return flags;
+        return await Variable.create({
+            name,
+            type: result.type ?? '',
+            value: result.result,
+            variablesReference: result.variablesReference,
+            memoryReference: result.memoryReference,
+        }, this.frameId, this.context, this);
     }
 
-    private async collectFlagValues() {
-        const flagStrategy = (f: FlagMemberInfo) => {
-            return `((${this.value}) & (${f.flag})) == (${f.flag})
-                        ? 1
-                        : 0`;
-        };
+    async doGetChildren() {
+        const children = [];
+        for (const expression of this.expressions) {
+            children.push(await this.evaluateExpression(expression));
+        }
+        return children;
+    }
+}
 
-        const valueStrategy = (f: FlagMemberInfo) => {
-            if (f.numeric === undefined) {
-                throw new EvaluationError(`no numeric value for enum member ${f.flag}`);
-            }
+/**
+ * Local variables of single stack frame.  Used when variables of several
+ * frames are shown, name is function of frame, i.e. '#2 make_join_rel'.
+ */
+class FrameGroupVariable extends Variable {
+    constructor(frame: dap.StackFrame, index: number,
+                private isCurrent: boolean, context: ExecContext) {
+        super(`#${index} ${dbg.getFrameFunctionName(frame)}`, '', '', '',
+              context, frame.id, undefined);
+    }
 
-            return `((${this.value}) & (${f.numeric})) == (${f.numeric})
-                        ? 1
-                        : 0`;
-        };
+    protected isExpandable() {
+        return true;
+    }
 
-        if (this.context.canUseMacros) {
-            try {
-                return await this.collectFlagValuesInternal(flagStrategy);
-            } catch (err) {
-                if (!isEvaluationError(err)) {
-                    throw err;
-                }
-                
-                this.context.canUseMacros = false;
-            }
+    async getTreeItem() {
+        const item = await super.getTreeItem();
+        if (this.isCurrent) {
+            item.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
         }
+        return item;
+    }
 
-        return await this.collectFlagValuesInternal(valueStrategy);
+    async doGetChildren() {
+        const debugVariables = await this.debug.getVariables(this.frameId);
+        const variables = await Variable.mapVariables(debugVariables, this.frameId,
+                                                      this.context);
+        const root = new VariablesRoot(variables, this.context, this);
+        variables.forEach(v => v.parent = root);
+        return variables;
+    }
+}
+
+/**
+ * User defined expressions
+ */
+export class WatchGroupVariable extends ExpressionsGroupVariable {
+    constructor(expressions: string[], context: ExecContext, frameId: number) {
+        super('Watch', expressions.map(e => ({name: e, expression: e})),
+              context, frameId);
     }
-    
-    private async collectFieldValuesInternal(exprFormatter: (m: FieldMemberInfo) => string) {
-        if (!this.bitmaskInfo.fields) {
-            return;
-        }
-        
-        const fields: [string, string][] = [];
-        
-        for (const f of this.bitmaskInfo.fields) {
-            const expr = exprFormatter(f);
-            const result = await this.evaluate(expr);
 
-            /*
-             * Fields can contain '0' and it's OK, but if there is an error
-             * occurred we will get Error, so 'value' must contain only valid
-             * value.
-             */
-            fields.push([f.name, result.result]);
+    protected getContextValue() {
+        return 'watchGroup';
+    }
+}
+
+/**
+ * Well-known backend globals, i.e. 'MyProc' or 'CurrentMemoryContext'
+ */
+class GlobalsGroupVariable extends ExpressionsGroupVariable {
+    constructor(globals: GlobalVariableInfo[], context: ExecContext, frameId: number) {
+        super('Globals', globals, context, frameId);
+    }
+}
+
+/**
+ * Values of variables shown during previous stops.  Used to highlight
+ * members changed after step.
+ * 
+ * Keys are paths to variables from top level variable prefixed with
+ * function name, values - their string representation.
+ */
+export class StepValuesSnapshot {
+    /* Last seen values from previous stops */
+    private previous = new Map<string, string>();
+    /* Values shown during current stop */
+    private current = new Map<string, string>();
+
+    /**
+     * Debugger stopped again - current values become previous.
+     * Values not shown during last stop are kept, so we compare
+     * with last value user have seen.
+     */
+    nextStop() {
+        for (const [key, value] of this.current) {
+            this.previous.set(key, value);
         }
-        
-        return fields;
+        this.current.clear();
     }
-    
-    private async collectFieldsValues() {
-        const flagStrategy = (f: FieldMemberInfo) => {
-            return `(${this.value}) & (${f.mask})`;
-        };
 
-        const valueStrategy = (f: FieldMemberInfo) => {
-            if (f.numeric === undefined) {
-                throw new EvaluationError(
-                    `no numeric value for enum field ${f.name} of ${this.name}`);
-            }
+    /**
+     * Remember value shown for current stop.
+     * 
+     * @returns Previous value if it differs from current
+     */
+    update(key: string, value: string) {
+        this.current.set(key, value);
+        const old = this.previous.get(key);
+        return old !== undefined && old !== value ? old : undefined;
+    }
+}
 
-            return `(${this.value}) & (${f.numeric})`;
-        };
+/**
+ * Get path to variable from top level variable, i.e. 'root.parse->rtable'
+ */
+export function getVariablePath(variable: Variable) {
+    const names = [];
+    let v: Variable | undefined = variable;
+    while (v && !(v instanceof VariablesRoot)) {
+        names.push(v.name);
+        v = v.parent;
+    }
 
-        if (this.context.canUseMacros) {
-            try {
-                return await this.collectFieldValuesInternal(flagStrategy);
-            } catch (err) {
-                if (!isEvaluationError(err)) {
-                    throw err;
-                }
+    /* Variables of different frames are shown at the same time */
+    if (v?.parent instanceof FrameGroupVariable) {
+        names.push(v.parent.name);
+    }
 
-                this.context.canUseMacros = false;
-            }
-        }
+    return names.reverse().join('.');
+}
 
-        return await this.collectFieldValuesInternal(valueStrategy);
+/**
+ * Check variable matches filter of 'pg variables' view: filter is
+ * substring of name, type or NodeTag.
+ *
+ * @param filter Filter in lower case
+ */
+export function variableMatchesFilter(variable: Variable, filter: string) {
+    /* Special members (i.e. '$elements$') are required to get to elements */
+    if (!variable.type) {
+        return true;
     }
 
-    async getDescription(): Promise<string> {
-        if (!this.bitmaskInfo.flags?.length) {
-            return await super.getDescription();
-        }
+    return    variable.name.toLowerCase().includes(filter)
+           || variable.type.toLowerCase().includes(filter)
+           || (   variable instanceof NodeVariable
+               && variable.realNodeTag.toLowerCase().includes(filter));
+}
 
-        let flagValues;
-        try {
-            flagValues = await this.collectFlagValues();
-        } catch (err) {
-            if (!isEvaluationError(err)) {
-                throw err;
+type VariableTreeVisitor<T> = (
+    variable: Variable,
+    item: vscode.TreeItem,
+    children: T[] | undefined,
+    truncated: boolean,
+) => T;
+
+/**
+ * Walk tree of variable depth first and build result for each variable
+ * from results of it's children.
+ *
+ * Node trees are highly connected (i.e. 'RelOptInfo' -> 'pathlist' ->
+ * 'parent'), so without limits we will read whole planner state.  That
+ * is why each Node is walked only once (by pointer) and depth is limited.
+ * Containers are already limited with 'maxContainerLength'.
+ *
+ * @param visit Builds result for variable.  'truncated' is set, when
+ *              variable can be expanded, but it's children are not walked
+ *              (depth limit or Node visited earlier).  'children' is
+ *              'undefined' if there are no children walked.
+ */
+export async function walkVariableTree<T>(variable: Variable, maxDepth: number,
+                                          visit: VariableTreeVisitor<T>) {
+    const visited = new Set<string>();
+    const walk = async (variable: Variable, depth: number): Promise<T> => {
+        const item = await variable.getTreeItem();
+        if (item.collapsibleState === vscode.TreeItemCollapsibleState.None) {
+            return visit(variable, item, undefined, false);
+        }
+
+        if (variable instanceof NodeVariable) {
+            const pointer = variable.getPointer() ?? variable.value;
+            if (visited.has(pointer)) {
+                return visit(variable, item, undefined, true);
             }
 
-            logger.error(err, 'failed to evaluate flags for', this.name);
-            this.context.canUseMacros = false;
-            return await super.getDescription();
+            visited.add(pointer);
         }
-        
-        /* 
-         * XXX: for large amount of flags it is better to show
-         * as child elements, otherwise desciption will be too long
-         */
-        return flagValues?.join(' | ') ?? await super.getDescription();
-    }
-    
-    async doGetChildren() {
-        if (!this.bitmaskInfo.fields?.length) {
-            return [];
+
+        if (maxDepth <= depth) {
+            return visit(variable, item, undefined, true);
         }
-        
-        try {
-            const fields = await this.collectFieldsValues();
-            return fields?.map(([name, value]) => 
-                new ScalarVariable(name, value, '', this.context, this)) ?? [];
-        } catch (err) {
-            if (!isEvaluationError(err)) {
-                throw err;
-            }
 
-            logger.error(err, 'failed to evaluate fields for', this.name);
-            this.context.canUseMacros = false;
-            return [];
+        const children = await variable.getChildren();
+        if (!children?.length) {
+            return visit(variable, item, undefined, false);
         }
-    }
+
+        const results = [];
+        for (const child of children) {
+            results.push(await walk(child, depth + 1));
+        }
+
+        return visit(variable, item, results, false);
+    };
+
+    return await walk(variable, 0);
 }
 
-function pgVersionIsValid(version: number) {
-    /*
-     * PG_VERSION_NUM is a 6 digit number in form: MAJOR_MINOR_PATCH,
-     * so perform not only Integer check, but also a value range.
-     */
-    return Number.isInteger(version) && 1_00_00 < version && version < 99_99_99;
+/*
+ * Context key used to show "Clear variables filter" command
+ */
+const hasVariablesFilterContext = `${ExtensionId}:hasVariablesFilter`;
+
+export interface DebugStartEvent {
+    context: ExecContext;
+    /* Configuration of workspace folder, debug session is started in */
+    config: Configuration;
+}
+
+/**
+ * State of single debug session.  Multiple sessions can run at the
+ * same time (i.e. leader backend and parallel workers), and each of them
+ * can debug different executable, so everything is tracked separately.
+ */
+interface DebugSessionState {
+    debug: dbg.GenericDebuggerFacade;
+    /* Created on first 'getChildren' invocation */
+    context?: ExecContext;
+    stepValues: StepValuesSnapshot;
 }
 
 export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable>, vscode.Disposable {
-    constructor(private config: Configuration) { }
+    constructor(private config: ConfigurationRegistry) { }
     
+    /*
+     * All debug sessions with supported debuggers, key is session id.
+     */
+    private sessions = new Map<string, DebugSessionState>();
+
+    /*
+     * Session shown in view.  It follows active debug session,
+     * so when user selects other session in Call Stack view it's
+     * variables are shown.
+     */
+    private current?: DebugSessionState;
+
     /**
      * ExecContext used to pass to all members.
      * 
      * Field is set on first 'getChildren' invocation.
      */
-    context?: ExecContext;
+    get context() {
+        return this.current?.context;
+    }
 
     /* 
      * Interface to access extension-specific debugger features.
      * 
      * Set during debug-session, and 'undefined' when there is no debugging.
      */
-    debug?: dbg.GenericDebuggerFacade;
+    get debug() {
+        return this.current?.debug;
+    }
+
+    /*
+     * Tree view this provider is shown in.  Used to reveal variables
+     * selected outside of view (i.e. in plan visualizer).
+     */
+    treeView?: vscode.TreeView<Variable>;
 
     /* https://code.visualstudio.com/api/extension-guides/tree-view#updating-tree-view-content */
-    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    private _onDidChangeTreeData = new vscode.EventEmitter<Variable | undefined>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
     refresh(): void {
         this.context?.step.reset();
-        this._onDidChangeTreeData.fire();
+        this.frameVariables = undefined;
+        this.frameGroups = undefined;
+        this.functionName = undefined;
+        this.watchGroup = undefined;
+        this._onDidChangeTreeData.fire(undefined);
     }
 
-    private _onDidDebugStart = new vscode.EventEmitter<ExecContext>();
+    private _onDidDebugStart = new vscode.EventEmitter<DebugStartEvent>();
     /*
      * Emitted when debug session started and we return data.
-     * Passes obtained PG version.
+     * Passes obtained PG version and configuration of debugged sources.
      */
     readonly onDidDebugStart = this._onDidDebugStart.event;
 
     startDebugging(debug: dbg.GenericDebuggerFacade) {
-        this.debug?.dispose();
-        this.debug = debug;
-        this.context = undefined;
+        const session = debug.getSession();
+        this.sessions.get(session.id)?.debug.dispose();
+        this.sessions.set(session.id, {
+            debug,
+            stepValues: new StepValuesSnapshot(),
+        });
+
+        /* Do not switch from session user is working with */
+        if (!this.current || session.id === vscode.debug.activeDebugSession?.id) {
+            this.switchDebugSession(session);
+        }
+    }
+
+    /**
+     * Show variables of given debug session.  If it is not a session
+     * with supported debugger, then view is not changed.
+     */
+    switchDebugSession(session: vscode.DebugSession | undefined) {
+        const state = session ? this.sessions.get(session.id) : undefined;
+        if (!state || state === this.current) {
+            return;
+        }
+
+        this.current = state;
+
+        /* Frame ids are unique only within single session */
+        this.frameVariables = undefined;
+        this.frameGroups = undefined;
+        this.functionName = undefined;
+        this.watchGroup = undefined;
+        this._onDidChangeTreeData.fire(undefined);
     }
     
     isInDebug() {
-        return this.debug !== undefined;
+        return this.current !== undefined;
+    }
+
+    /* Variables of given debug session are shown in view */
+    isShown(session: vscode.DebugSession) {
+        return this.current?.debug.getSession().id === session.id;
     }
     
-    stopDebugging() {
-        this.debug?.dispose();
-        this.debug = undefined;
-        this.context = undefined;
+    stopDebugging(session: vscode.DebugSession) {
+        const state = this.sessions.get(session.id);
+        if (!state) {
+            return;
+        }
+
+        state.debug.dispose();
+        this.sessions.delete(session.id);
+        if (state !== this.current) {
+            return;
+        }
+
+        this.current = undefined;
+        this.frameVariables = undefined;
+        this.frameGroups = undefined;
+        this.functionName = undefined;
+        this.watchGroup = undefined;
+
         /* Clean variables view if any */
-        this._onDidChangeTreeData.fire();
+        this._onDidChangeTreeData.fire(undefined);
+
+        /* I.e. parallel worker exited, but leader is still running */
+        this.switchDebugSession(vscode.debug.activeDebugSession);
+    }
+
+    /**
+     * Must be called when debugger stopped (i.e. after step), so
+     * changes of variables will be tracked relative to this stop.
+     */
+    nextStop(session: vscode.DebugSession) {
+        this.sessions.get(session.id)?.stepValues.nextStop();
+    }
+
+    /* 
+     * Get string used to check whether variable changed after step.
+     * Only scalars, List length and Bitmapset elements are tracked.
+     */
+    private async getComparableValue(variable: Variable, item: vscode.TreeItem) {
+        if (   variable instanceof ListNodeVariable
+            || variable instanceof BitmapSetSpecialMember) {
+            return await getVariableSummary(variable);
+        }
+
+        if (item.collapsibleState !== vscode.TreeItemCollapsibleState.None) {
+            return;
+        }
+
+        return typeof item.description === 'string' ? item.description : undefined;
+    }
+
+    /*
+     * Function of current frame.  Tree items are created concurrently,
+     * so promise is stored to resolve it once per refresh.
+     */
+    private functionName?: Promise<string | undefined>;
+
+    private async markIfChanged(variable: Variable, item: vscode.TreeItem) {
+        if (!this.current?.context || variable.frameId === invalidFrameId) {
+            return;
+        }
+
+        const value = await this.getComparableValue(variable, item);
+        if (value === undefined) {
+            return;
+        }
+
+        /* Same names in different functions are different variables */
+        this.functionName ??= this.current.context.getCurrentFunctionName();
+        const func = await this.functionName ?? '';
+        const old = this.current.stepValues.update(`${func}:${getVariablePath(variable)}`, value);
+        if (old === undefined) {
+            return;
+        }
+
+        item.iconPath = new vscode.ThemeIcon(
+            'diff-modified', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
+        const previous = `Previous value: ${old}`;
+        item.tooltip = typeof item.tooltip === 'string' && item.tooltip
+            ? `${item.tooltip}\n${previous}`
+            : previous;
     }
 
     async getTreeItem(variable: Variable) {
-        return variable.getTreeItem();
+        const item = await variable.getTreeItem();
+        if (variable.parent instanceof WatchGroupVariable) {
+            /* Enables 'Remove PG watch expression' */
+            item.contextValue = item.contextValue ? `${item.contextValue} watch` : 'watch';
+        }
+
+        try {
+            await this.markIfChanged(variable, item);
+        } catch (err) {
+            /* Highlighting is not critical, so just skip it */
+            if (!(err instanceof DebuggerNotAvailableError)) {
+                logger.error(err, 'could not check changes of', variable.name);
+            }
+        }
+
+        return item;
+    }
+
+    getParent(variable: Variable) {
+        /* 
+         * Top level variables are children of invisible root, which
+         * belongs to frame group if variables of several frames shown.
+         */
+        if (variable.parent instanceof VariablesRoot) {
+            return variable.parent.parent;
+        }
+
+        return variable.parent;
+    }
+
+    /**
+     * Select and focus given variable in tree view.  Variable must be
+     * obtained from this view, i.e. using children of top level variables.
+     */
+    async reveal(variable: Variable) {
+        await this.treeView?.reveal(variable, {select: true, focus: true});
     }
     
     getDebug() {
         return unnullify(this.debug, 'this.debug');
     }
 
-    async initializeExecContextFromConfig(nodeVars: NodeVarRegistry,
+    /*
+     * Workspace folder with sources of debugged PG.  In multi-root
+     * workspace it is the folder, debug session is started in.
+     */
+    private getWorkspaceFolder(debug = this.debug) {
+        return getWorkspaceFolder(debug?.session?.workspaceFolder?.uri);
+    }
+
+    /*
+     * Configuration of workspace folder with debugged sources or
+     * 'undefined' if no workspace is opened.
+     */
+    private getConfiguration(debug = this.debug) {
+        if (!vscode.workspace.workspaceFolders?.length) {
+            return;
+        }
+
+        return this.config.get(this.getWorkspaceFolder(debug));
+    }
+
+    async initializeExecContextFromConfig(configuration: Configuration | undefined,
+                                          nodeVars: NodeVarRegistry,
                                           specialMembers: SpecialMemberRegistry,
                                           hashTables: HashTableTypes) {
-        const config = await this.config.getVariablesConfiguration();
+        const config = await configuration?.getVariablesConfiguration();
         if (!config) {
             return;
         }
@@ -6274,8 +9406,8 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
         }
     }
 
-    async tryGetServerVersionNumGuc(frameId: number) {
-        const result = await this.getDebug().evaluate('server_version_num', frameId);
+    async tryGetServerVersionNumGuc(debug: dbg.GenericDebuggerFacade, frameId: number) {
+        const result = await debug.evaluate('server_version_num', frameId);
         const pgversion = Number(result.result);
         if (!pgVersionIsValid(pgversion)) {
             logger.warn('"server_version_num" is not valid, evaluated:', result.result);
@@ -6285,9 +9417,9 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
         return pgversion;
     }
     
-    async tryGetPgVersionNumPgConfig() {
+    async tryGetPgVersionNumPgConfig(debug: dbg.GenericDebuggerFacade) {
         const path = getWorkspacePgSrcFile(
-            getWorkspaceFolder(), 'src', 'include', 'pg_config.h');
+            this.getWorkspaceFolder(debug), 'src', 'include', 'pg_config.h');
         
         let text;
         try {
@@ -6331,7 +9463,8 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
         return version;
     }
 
-    async createExecContext(pgversion: number | undefined): Promise<ExecContextData> {
+    async createExecContext(pgversion: number | undefined,
+                            config: Configuration | undefined): Promise<ExecContextData> {
         const specialMembers = new SpecialMemberRegistry();
         specialMembers.addArrays(constants.getArrays());
         specialMembers.addListCustomPtrSpecialMembers(constants.getKnownCustomListPtrs());
@@ -6357,7 +9490,7 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
             hashTables.addSimplehashTypes(constants.getWellKnownSimpleHashTableTypes());
         }
 
-        this.initializeExecContextFromConfig(nodeVars, specialMembers, hashTables);
+        this.initializeExecContextFromConfig(config, nodeVars, specialMembers, hashTables);
         
         return {
             specialMembers,
@@ -6367,24 +9500,26 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
     }
 
     /* 
-     * Cached pair [Cached type info, PG version] from previous run.
-     * Can be used only if configuration file have not changed since previous run.
+     * Cached tuple [Cached type info, PG version, Configuration] from previous run.
+     * Can be used only if configuration file have not changed since previous run
+     * and we are debugging sources from the same workspace folder.
      */
-    private cachedTypes?: [ExecContextData, number];
+    private cachedTypes?: [ExecContextData, number, Configuration | undefined];
 
-    tryGetCache(pgversion: number) {
+    tryGetCache(pgversion: number, config: Configuration | undefined) {
         /*
          * We can use cache only if configuration have not changed AND 
          * we are debugging the same PG version (executable type may not
          * be checked).
          */
         if (   this.cachedTypes?.[1] === pgversion
-            && !this.config.isDirty()) {
+            && this.cachedTypes[2] === config
+            && !config?.isDirty()) {
             return this.cachedTypes[0];
         }
     }
 
-    async getDebugContext(frameId: number) {
+    async getDebugContext(debug: dbg.GenericDebuggerFacade, frameId: number) {
         /* 
          * For correct initialization we must know PG version, so
          * some version-dependent type information is initialized
@@ -6400,7 +9535,7 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
         let pgversion;
 
         try {
-            pgversion = await this.tryGetServerVersionNumGuc(frameId);
+            pgversion = await this.tryGetServerVersionNumGuc(debug, frameId);
         } catch (err) {
             /* Do not check EvaluationError - fallback to parsing pg_config.h */
             logger.error(err, 'could not get "server_version_num" GUC');
@@ -6414,7 +9549,7 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
         }
         
         try {
-            pgversion = await this.tryGetPgVersionNumPgConfig();
+            pgversion = await this.tryGetPgVersionNumPgConfig(debug);
         } catch (err) {
             logger.error(err, 'could not parse pg_config.h file for PG_VERSION_NUM');
         }
@@ -6437,57 +9572,204 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
         };
     }
     
-    async getExecContext(frameId: number) {
+    /**
+     * Create ExecContext for given debug session.  Session and it's
+     * configuration are passed explicitly, because active session can
+     * be switched while context is being created.
+     */
+    async getExecContext(state: DebugSessionState, frameId: number) {
         let data: ExecContextData | undefined;
-        const {pgversion, isServer} = await this.getDebugContext(frameId);
+        const debug = state.debug;
+        const config = this.getConfiguration(debug);
+        const {pgversion, isServer} = await this.getDebugContext(debug, frameId);
+
+        if (pgversion) {
+            logger.info('detected PostgreSQL version:', pgversion);
+            data = this.tryGetCache(pgversion, config);
+        } else {
+            logger.warn('could not detect PostgreSQL version');
+        }
+
+        if (!data) {
+            data = await this.createExecContext(pgversion, config);
+
+            /* Store cache */
+            if (pgversion) {
+                this.cachedTypes = [data, pgversion, config];
+            }
+        }
+
+        const exeType = isServer ? ExecutableType.Server : ExecutableType.Frontend;
+        const context = new ExecContext(debug, data, pgversion, exeType);
+        if (debug.isPostMortem()) {
+            logger.info('post-mortem session detected - function calls are disabled');
+            context.isReadOnly = true;
+        }
+        if (pgversion) {
+            context.adjustProperties(pgversion);
+            if (config) {
+                this._onDidDebugStart.fire({context, config});
+            }
+        }
+
+        return context;
+    }
+
+    /**
+     * Get ExecContext for current debug session.
+     * If it is not created yet (i.e. view is not yet shown), then create it.
+     */
+    async getCurrentExecContext(frameId: number) {
+        /* Session can be switched while we are creating context */
+        const state = unnullify(this.current, 'this.current');
+        if (!state.context) {
+            state.context = await this.getExecContext(state, frameId);
+        }
+
+        return state.context;
+    }
+
+    private async getChildrenInternal(element?: Variable | undefined) {
+        if (element) {
+            let children = await element.getChildren();
+
+            /* Children of groups are top level variables (frame, watch, globals) */
+            if (   this.filter
+                && !(   element instanceof ExpressionsGroupVariable
+                     || element instanceof FrameGroupVariable)) {
+                children = children?.filter(v => this.matchesFilter(v));
+            }
+
+            /* Container shows only part of elements, so allow to load next */
+            const range = getElementsRange(element);
+            if (range?.truncated) {
+                children = [...children ?? [], new LoadMoreVariable(element, range)];
+            }
 
-        if (pgversion) {
-            logger.info('detected PostgreSQL version:', pgversion);
-            data = this.tryGetCache(pgversion);
-        } else {
-            logger.warn('could not detect PostgreSQL version');
+            return children;
         }
 
-        if (!data) {
-            data = await this.createExecContext(pgversion);
+        const frameId = await this.getDebug().getCurrentFrameId();
+        if (frameId == undefined) {
+            return;
+        }
 
-            /* Store cache */
-            if (pgversion) {
-                this.cachedTypes = [data, pgversion];
-            }
+        const framesCount = VsCodeSettings.getStackFramesCount();
+        const variables = framesCount === 0
+            ? await this.getFrameVariables(frameId)
+            : await this.getStackFramesGroups(frameId, framesCount);
+        if (!this.watchExpressions.length) {
+            return variables;
         }
 
-        const exeType = isServer ? ExecutableType.Server : ExecutableType.Frontend;
-        const context = new ExecContext(this.getDebug(), data, pgversion, exeType);
-        if (pgversion) {
-            context.adjustProperties(pgversion);
-            this._onDidDebugStart.fire(context);
+        /* Cache group, so it's children can be revealed */
+        if (this.watchGroup?.frameId !== frameId) {
+            const context = await this.getCurrentExecContext(frameId);
+            this.watchGroup = new WatchGroupVariable(this.watchExpressions, context, frameId);
         }
 
-        return context;
+        return [this.watchGroup, ...(variables ?? [])];
     }
 
-    private async getChildrenInternal(element?: Variable | undefined) {
-        if (element) {
-            return await element.getChildren();
+    /*
+     * Filter for members shown in view (lower case): substring of
+     * name, type or NodeTag.  Top level variables are always shown.
+     */
+    private filter?: string;
+
+    private matchesFilter(variable: Variable) {
+        return !this.filter || variableMatchesFilter(variable, this.filter);
+    }
+
+    async setFilter(filter: string | undefined) {
+        this.filter = filter?.toLowerCase() || undefined;
+        if (this.treeView) {
+            this.treeView.description = this.filter ? `Filter: ${filter}` : undefined;
         }
+        await vscode.commands.executeCommand('setContext', hasVariablesFilterContext,
+                                             this.filter !== undefined);
 
-        const frameId = await this.getDebug().getCurrentFrameId();
-        if (frameId == undefined) {
+        /* Variables are not changed, so do not reset them */
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getFilter() {
+        return this.filter;
+    }
+
+    /**
+     * Show elements of container again after range of them changed
+     */
+    refreshElements(container: Variable) {
+        container.resetChildren();
+        this._onDidChangeTreeData.fire(container);
+    }
+
+    /* 
+     * Storage for user defined watch expressions.
+     * Set during view creation, so expressions are saved across sessions.
+     */
+    watchState?: vscode.Memento;
+    private static watchExpressionsKey = 'PgWatchExpressions';
+
+    /* 'Watch' group for current step */
+    private watchGroup?: WatchGroupVariable;
+
+    get watchExpressions(): string[] {
+        return this.watchState?.get<string[]>(PgVariablesViewProvider.watchExpressionsKey) ?? [];
+    }
+
+    private async setWatchExpressions(expressions: string[]) {
+        await this.watchState?.update(PgVariablesViewProvider.watchExpressionsKey, expressions);
+        this.watchGroup = undefined;
+        this.refresh();
+    }
+
+    async addWatchExpression(expression: string) {
+        const expressions = this.watchExpressions;
+        if (expressions.includes(expression)) {
             return;
         }
 
-        if (!this.context) {
-            this.context = await this.getExecContext(frameId);
+        await this.setWatchExpressions([...expressions, expression]);
+    }
+
+    async removeWatchExpression(expression: string) {
+        await this.setWatchExpressions(this.watchExpressions.filter(e => e !== expression));
+    }
+
+    /* 
+     * Top level variables of frame for current step: [frameId, variables].
+     * Cached, so other features (i.e. inline values) can reuse already
+     * created variables.
+     */
+    private frameVariables?: [number, Variable[]];
+
+    /*
+     * Frame and globals groups for current step: [frameId, frames count,
+     * groups].  Tree view reveals elements by identity, so groups must
+     * not be recreated on each 'getChildren'.
+     */
+    private frameGroups?: [number, number, Variable[]];
+
+    /**
+     * Get top level variables (with PG-aware representation) for given
+     * frame.  Result is cached until next step.
+     */
+    async getFrameVariables(frameId: number) {
+        if (this.frameVariables?.[0] === frameId) {
+            return this.frameVariables[1];
         }
 
-        const variables = await this.getTopLevelVariables(this.context, frameId);
+        const context = await this.getCurrentExecContext(frameId);
+        const variables = await this.getTopLevelVariables(context, frameId);
         if (!variables) {
             return variables;
         }
 
-        const root = new VariablesRoot(variables, this.context);
+        const root = new VariablesRoot(variables, context);
         variables.forEach(v => v.parent = root);
+        this.frameVariables = [frameId, variables];
         return variables;
     }
 
@@ -6529,11 +9811,78 @@ export class PgVariablesViewProvider implements vscode.TreeDataProvider<Variable
 
     async getTopLevelVariables(context: ExecContext, frameId: number) {
         const variables = await context.debug.getVariables(frameId);
-        return await Variable.mapVariables(variables, frameId, context, undefined);
+        const topLevel = await Variable.mapVariables(variables, frameId, context, undefined);
+
+        const globals = await this.createGlobalsGroup(context, frameId);
+        if (globals) {
+            topLevel.unshift(globals);
+        }
+
+        return topLevel;
+    }
+
+    /*
+     * Local variables of top frames of the stack grouped by function.
+     * Negative count means all frames.
+     */
+    private async getStackFramesGroups(frameId: number, count: number) {
+        if (   this.frameGroups?.[0] === frameId
+            && this.frameGroups[1] === count) {
+            return this.frameGroups[2];
+        }
+
+        const context = await this.getCurrentExecContext(frameId);
+        const frames = await context.getStackFrames();
+        const current = await context.getFrameIndex(frameId);
+
+        /* Selected frame is always shown */
+        const shown = count < 0 ? frames : frames.slice(0, Math.max(count, current + 1));
+        const groups: Variable[] = shown.map((f, i) =>
+            new FrameGroupVariable(f, i, i === current, context));
+
+        const globals = await this.createGlobalsGroup(context, frameId);
+        if (globals) {
+            groups.unshift(globals);
+        }
+
+        this.frameGroups = [frameId, count, groups];
+        return groups;
+    }
+
+    private async createGlobalsGroup(context: ExecContext, frameId: number) {
+        /* Backend globals do not exist in frontend utilities */
+        if (context.isFrontend) {
+            return;
+        }
+
+        const globals = await this.getGlobals(context);
+        if (!globals.length) {
+            return;
+        }
+
+        return new GlobalsGroupVariable(globals, context, frameId);
+    }
+
+    /*
+     * Builtin globals for current PG version with globals from
+     * configuration file
+     */
+    private async getGlobals(context: ExecContext) {
+        const globals = constants.getWellKnownGlobals(context.pgversion);
+        const config = await this.getConfiguration()?.getVariablesConfiguration();
+        for (const g of config?.globals ?? []) {
+            if (!globals.find(x => x.name === g.name)) {
+                globals.push(g);
+            }
+        }
+
+        return globals;
     }
     
     dispose() {
-        this.stopDebugging();
+        this.sessions.forEach(s => s.debug.dispose());
+        this.sessions.clear();
+        this.current = undefined;
         this._onDidChangeTreeData.dispose();
     }
 }
@@ -6615,6 +9964,11 @@ export async function dumpNodeVariableToLogCommand(pgvars: PgVariablesViewProvid
         return;
     }
 
+    if (pgvars.context.isReadOnly) {
+        vscode.window.showWarningMessage('Can not dump variable - function calls are not available in post-mortem mode');
+        return;
+    }
+
     const variable = args.variable as dap.DebugVariable;
     const frameId = await debug.getCurrentFrameId();
     if (frameId === undefined) {
@@ -6647,6 +10001,11 @@ export async function dumpNodeVariableToDocumentCommand(pgvars: PgVariablesViewP
         return;
     }
 
+    if (pgvars.context.isReadOnly) {
+        vscode.window.showWarningMessage('Can not dump variable - function calls are not available in post-mortem mode');
+        return;
+    }
+
     let variable: dap.DebugVariable;
 
     /*
@@ -6747,10 +10106,309 @@ export async function dumpNodeVariableToDocumentCommand(pgvars: PgVariablesViewP
     vscode.window.showTextDocument(document);
 }
 
+export async function showPlanTreeCommand(pgvars: PgVariablesViewProvider,
+                                          ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    if (!args.length) {
+        return;
+    }
+
+    let plan = args[0];
+    if (!(plan instanceof NodeVariable)) {
+        logger.warn('given argument is not NodeVariable:', plan);
+        return;
+    }
+
+    /* Also allow to pass PlannedStmt itself */
+    if (plan.realNodeTag === 'PlannedStmt') {
+        plan = await plan.getMember('planTree');
+    }
+
+    if (!(plan instanceof PlanNodeVariable)) {
+        vscode.window.showWarningMessage('Selected variable is not a Plan node');
+        return;
+    }
+
+    const lines: string[] = [];
+    try {
+        await plan.formatPlanTree(0, false, lines);
+    } catch (err) {
+        if (!isEvaluationError(err)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not format plan tree for', plan.name);
+        vscode.window.showErrorMessage('Could not format plan tree');
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({content: lines.join('\n')});
+    vscode.window.showTextDocument(document);
+}
+
+/**
+ * Get paths stored in RelOptInfo: elements of path lists and cheapest paths.
+ * 
+ * @returns Pairs of member name and path stored in it
+ */
+export async function getRelOptInfoPaths(rel: NodeVariable) {
+    const paths: [string, PathNodeVariable][] = [];
+    const listMembers = ['pathlist', 'partial_pathlist', 'cheapest_parameterized_paths'];
+    const singleMembers = ['cheapest_startup_path', 'cheapest_total_path', 'cheapest_unique_path'];
+    const members = await rel.getRealMembers() ?? [];
+    for (const member of listMembers) {
+        if (!members.find(m => m.name === member)) {
+            continue;
+        }
+
+        const elements = await rel.getListMemberElements(member);
+        elements.forEach((e, i) => {
+            if (e instanceof PathNodeVariable) {
+                paths.push([`${member}${getNameForArrayElement(i)}`, e]);
+            }
+        });
+    }
+
+    for (const member of singleMembers) {
+        const path = members.find(m => m.name === member);
+        if (path instanceof PathNodeVariable) {
+            paths.push([member, path]);
+        }
+    }
+
+    return paths;
+}
+
+export async function showRelOptInfoPathsCommand(pgvars: PgVariablesViewProvider,
+                                                 ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    if (!args.length) {
+        return;
+    }
+
+    const rel = args[0];
+    if (!(rel instanceof NodeVariable && rel.realNodeTag === 'RelOptInfo')) {
+        vscode.window.showWarningMessage('Selected variable is not a RelOptInfo');
+        return;
+    }
+
+    const paths = await getRelOptInfoPaths(rel);
+    if (!paths.length) {
+        vscode.window.showInformationMessage(`RelOptInfo ${rel.name} does not have paths`);
+        return;
+    }
+
+    const escape = (str: string) => str.replace(/\|/g, '\\|');
+    const lines = [
+        '| Member | Path | Startup cost | Total cost | Rows | Pathkeys | Required outer |',
+        '| ------ | ---- | -----------: | ---------: | ---: | -------- | -------------- |',
+    ];
+    for (const [member, path] of paths) {
+        let row;
+        try {
+            const summary = await path.getPathTreeSummary();
+            const costs = await path.getCosts();
+            const pathkeys = await path.getPathKeysRepr();
+            const reqOuter = await path.getRequiredOuterRepr();
+            row = [
+                member,
+                summary,
+                costs?.startup.toFixed(2) ?? '???',
+                costs?.total.toFixed(2) ?? '???',
+                costs?.rows.toFixed(0) ?? '???',
+                pathkeys,
+                reqOuter,
+            ];
+        } catch (err) {
+            if (!isEvaluationError(err)) {
+                throw err;
+            }
+
+            logger.error(err, 'could not get path info for', member);
+            row = [member, '???', '', '', '', '', ''];
+        }
+
+        lines.push(`| ${row.map(escape).join(' | ')} |`);
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+        content: lines.join('\n'),
+        language: 'markdown',
+    });
+    vscode.window.showTextDocument(document);
+}
+
+export async function showQueryAsSqlCommand(pgvars: PgVariablesViewProvider,
+                                            ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    if (!args.length) {
+        return;
+    }
+
+    const query = args[0];
+    if (!(query instanceof QueryNodeVariable)) {
+        vscode.window.showWarningMessage('Selected variable is not a Query');
+        return;
+    }
+
+    let sql;
+    try {
+        sql = await query.deparse();
+    } catch (err) {
+        if (!isEvaluationError(err)) {
+            throw err;
+        }
+
+        logger.error(err, 'could not deparse Query', query.name);
+        vscode.window.showErrorMessage('Could not deparse Query');
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+        content: sql,
+        language: 'sql',
+    });
+    vscode.window.showTextDocument(document);
+}
+
 export function refreshVariablesCommand(pgvars: PgVariablesViewProvider) {
     pgvars.refresh();
 }
 
+export async function loadMoreElementsCommand(pgvars: PgVariablesViewProvider,
+                                              ...args: unknown[]) {
+    if (!args.length) {
+        return;
+    }
+
+    const variable = args[0];
+    if (!(variable instanceof LoadMoreVariable)) {
+        return;
+    }
+
+    variable.range.loadMore();
+    pgvars.refreshElements(variable.container);
+}
+
+/**
+ * Parse range entered by user: "from, to" or "[from, to)"
+ *
+ * @param maxContainerLength Amount of elements shown by default
+ * @returns [from, to) or undefined if range is invalid or too wide
+ */
+export function parseElementsRange(input: string,
+                                   maxContainerLength: number): [number, number] | undefined {
+    const match = /^\s*\[?\s*(\d+)\s*,\s*(\d+)\s*\)?\s*$/.exec(input);
+    if (!match) {
+        return;
+    }
+
+    const start = Number(match[1]);
+    const end = Number(match[2]);
+    if (end <= start) {
+        return;
+    }
+
+    if (maxContainerLength * maxElementsRangeFactor < end - start) {
+        return;
+    }
+
+    return [start, end];
+}
+
+export async function showElementsRangeCommand(pgvars: PgVariablesViewProvider,
+                                               ...args: unknown[]) {
+    if (!args.length) {
+        return;
+    }
+
+    const variable = args[0];
+    if (!(variable instanceof Variable)) {
+        return;
+    }
+
+    const range = getElementsRange(variable);
+    if (!range) {
+        vscode.window.showWarningMessage('Selected variable is not a container');
+        return;
+    }
+
+    const maxLength = getMaxContainerLength();
+    const input = await vscode.window.showInputBox({
+        prompt: 'Range of elements to show: [from, to)',
+        placeHolder: '0, 128',
+        value: `${range.start}, ${range.end}`,
+        validateInput: value => parseElementsRange(value, maxLength)
+            ? undefined
+            : `Enter range as "from, to", where from < to and it contains ` +
+              `at most ${maxLength * maxElementsRangeFactor} elements`,
+    });
+    if (input === undefined) {
+        return;
+    }
+
+    const parsed = parseElementsRange(input, maxLength);
+    if (!parsed) {
+        return;
+    }
+
+    range.set(...parsed);
+    pgvars.refreshElements(variable);
+}
+
+export async function setVariablesFilterCommand(pgvars: PgVariablesViewProvider) {
+    const filter = await vscode.window.showInputBox({
+        prompt: 'Show only members with name, type or NodeTag containing',
+        placeHolder: 'rel',
+        value: pgvars.getFilter(),
+    });
+    if (filter === undefined) {
+        return;
+    }
+
+    await pgvars.setFilter(filter.trim());
+}
+
+export async function clearVariablesFilterCommand(pgvars: PgVariablesViewProvider) {
+    await pgvars.setFilter(undefined);
+}
+
+export async function addPgWatchExpressionCommand(pgvars: PgVariablesViewProvider) {
+    const expression = await vscode.window.showInputBox({
+        prompt: 'Enter C expression to watch',
+        placeHolder: '(Node *) estate->es_plannedstmt',
+    });
+    if (!expression?.trim()) {
+        return;
+    }
+
+    await pgvars.addWatchExpression(expression.trim());
+}
+
+export async function removePgWatchExpressionCommand(pgvars: PgVariablesViewProvider,
+                                                     ...args: unknown[]) {
+    if (!args.length) {
+        return;
+    }
+
+    const variable = args[0];
+    if (!(variable instanceof Variable && variable.parent instanceof WatchGroupVariable)) {
+        logger.warn('given argument is not watch expression:', variable);
+        return;
+    }
+
+    await pgvars.removeWatchExpression(variable.name);
+}
+
 export async function addVariableToWatchCommand(...args: unknown[]) {
     if (!args.length) {
         return;
@@ -0,0 +1,370 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+
+import * as vars from './variables';
+import { DebuggerNotAvailableError, EvaluationError } from './debugger';
+import { ExtensionId } from './configuration';
+import { Log as logger } from './logger';
+
+/*
+ * Max amount of boxes in visualizer.  Plan trees are small, but
+ * RelOptInfo of join relation can store lots of paths.
+ */
+const maxVisualizerNodes = 512;
+
+/**
+ * Box in visualizer tree
+ */
+export interface TreeNode {
+    /* Index of variable in 'TreeBuilder.variables' */
+    id: number;
+    /* Member of parent which stores this node, i.e. 'lefttree' or 'pathlist[0]' */
+    member: string;
+    tag: string;
+    /* EXPLAIN-like header, i.e. 'Seq Scan on t1  (cost=...)' */
+    header: string;
+    /* Node already shown in other place of tree, i.e. 'cheapest_total_path' */
+    shared?: boolean;
+    children: TreeNode[];
+}
+
+export function escapeHtml(str: string) {
+    return str.replace(/&/g, '&amp;')
+              .replace(/</g, '&lt;')
+              .replace(/>/g, '&gt;')
+              .replace(/"/g, '&quot;');
+}
+
+/*
+ * Name of member, which stores node.  For List elements
+ * name of List is added, i.e. 'appendplans[0]'.
+ */
+function getMemberName(variable: vars.Variable) {
+    if (variable.name.startsWith('[') && variable.parent?.parent) {
+        return `${variable.parent.parent.name}${variable.name}`;
+    }
+
+    return variable.name;
+}
+
+function isVisualizableNode(variable: vars.NodeVariable) {
+    return    variable instanceof vars.PlanNodeVariable
+           || variable instanceof vars.PathNodeVariable
+           || variable.realNodeTag === 'RelOptInfo';
+}
+
+class TreeBuilder {
+    /* Variables shown in tree, index is id of node */
+    variables: vars.NodeVariable[] = [];
+    private visited = new Set<string>();
+
+    private async getHeader(variable: vars.NodeVariable) {
+        if (variable instanceof vars.PlanNodeVariable) {
+            return await variable.getPlanHeader();
+        }
+
+        if (variable instanceof vars.PathNodeVariable) {
+            return await variable.getPathHeader();
+        }
+
+        const item = await variable.getTreeItem();
+        return typeof item.description === 'string' && item.description !== variable.value
+            ? item.description
+            : '';
+    }
+
+    private async getChildren(variable: vars.NodeVariable): Promise<[string, vars.NodeVariable][]> {
+        if (variable instanceof vars.PlanNodeVariable) {
+            return (await variable.getChildPlans()).map(p => [getMemberName(p), p]);
+        }
+
+        if (variable instanceof vars.PathNodeVariable) {
+            return (await variable.getChildPaths()).map(p => [getMemberName(p), p]);
+        }
+
+        if (variable.realNodeTag === 'RelOptInfo') {
+            return await vars.getRelOptInfoPaths(variable);
+        }
+
+        return [];
+    }
+
+    async build(variable: vars.NodeVariable, member: string): Promise<TreeNode> {
+        const node: TreeNode = {
+            id: this.variables.length,
+            member,
+            tag: variable.realNodeTag,
+            header: '???',
+            children: [],
+        };
+        this.variables.push(variable);
+
+        try {
+            node.header = await this.getHeader(variable);
+        } catch (err) {
+            if (!(err instanceof EvaluationError)) {
+                throw err;
+            }
+
+            logger.error(err, 'could not get header for', variable.name);
+        }
+
+        const pointer = variable.getPointer() ?? variable.value;
+        if (this.visited.has(pointer)) {
+            node.shared = true;
+            return node;
+        }
+        this.visited.add(pointer);
+
+        for (const [name, child] of await this.getChildren(variable)) {
+            if (maxVisualizerNodes <= this.variables.length) {
+                break;
+            }
+
+            node.children.push(await this.build(child, name));
+        }
+
+        return node;
+    }
+}
+
+export function renderTreeNode(node: TreeNode): string {
+    let title = 'Click to reveal in pg variables view';
+    if (node.shared) {
+        title = `Shown above. ${title}`;
+    }
+    const box = [
+        `<div class="box${node.shared ? ' shared' : ''}" data-id="${node.id}" title="${title}">`,
+        node.member ? `<div class="member">${escapeHtml(node.member)}</div>` : '',
+        `<div class="tag">${escapeHtml(node.tag)}</div>`,
+        node.header ? `<div class="header">${escapeHtml(node.header)}</div>` : '',
+        '</div>',
+    ].join('');
+
+    if (!node.children.length) {
+        return `<li>${box}</li>`;
+    }
+
+    return `<li><details open><summary>${box}</summary><ul>` +
+           node.children.map(renderTreeNode).join('') +
+           '</ul></details></li>';
+}
+
+/**
+ * Webview panel with graphical tree of Plan, Path or RelOptInfo.
+ * Tree is rebuilt on every stop using variables from 'pg variables' view,
+ * so nothing is evaluated except what view itself evaluates.
+ */
+class PlanVisualizerPanel implements vscode.Disposable {
+    private panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+
+    /* Path from top level variable to shown node, i.e. ['stmt', 'planTree'] */
+    private rootPath: string[] = [];
+
+    /* Variables shown in current tree, index is id of box */
+    private variables: vars.NodeVariable[] = [];
+
+    /* Incremented on every update, so results of outdated updates are dropped */
+    private generation = 0;
+
+    constructor(private pgvars: vars.PgVariablesViewProvider,
+                onDispose: () => void) {
+        this.panel = vscode.window.createWebviewPanel(
+            `${ExtensionId}.plan-visualizer`, 'PG Visualizer',
+            vscode.ViewColumn.Beside, {enableScripts: true});
+        this.disposables.push(
+            this.panel.webview.onDidReceiveMessage(async m => await this.onMessage(m)),
+            pgvars.onDidChangeTreeData(async () => await this.update()),
+            this.panel.onDidDispose(() => {
+                this.dispose();
+                onDispose();
+            }),
+        );
+    }
+
+    async show(root: vars.NodeVariable) {
+        /* Path in tree view, i.e. with group of frame if it is shown */
+        this.rootPath = [];
+        let v: vars.Variable | undefined = root;
+        while (v) {
+            this.rootPath.unshift(v.name);
+            v = this.pgvars.getParent(v);
+        }
+
+        this.panel.title = `PG Visualizer: ${root.name}`;
+        this.panel.reveal(undefined, true);
+        await this.update(root);
+    }
+
+    /*
+     * After step all variables are recreated, so find shown node
+     * again using it's path from root of tree view.  Elements of
+     * tree are walked, so found node can be revealed in view.
+     */
+    private async findRoot() {
+        if (!this.pgvars.isInDebug()) {
+            return;
+        }
+
+        let variable: vars.Variable | undefined;
+        let children: vars.Variable[] | undefined = await this.pgvars.getChildren();
+        for (const name of this.rootPath) {
+            variable = children?.find(v => v.name === name);
+            if (!variable) {
+                return;
+            }
+
+            children = await variable.getChildren();
+        }
+
+        if (!(variable instanceof vars.NodeVariable && isVisualizableNode(variable))) {
+            return;
+        }
+
+        return variable;
+    }
+
+    private async update(root?: vars.NodeVariable) {
+        const generation = ++this.generation;
+        let html;
+        try {
+            root ??= await this.findRoot();
+            if (root) {
+                const builder = new TreeBuilder();
+                const tree = await builder.build(root, '');
+                if (generation !== this.generation) {
+                    return;
+                }
+
+                this.variables = builder.variables;
+                html = this.getHtml(`<ul class="tree">${renderTreeNode(tree)}</ul>`);
+            } else {
+                this.variables = [];
+                html = this.getHtml(
+                    `<p>${escapeHtml(this.rootPath.join('.'))} is not available</p>`);
+            }
+        } catch (err) {
+            if (err instanceof DebuggerNotAvailableError) {
+                return;
+            }
+
+            logger.error(err, 'could not build tree for', this.rootPath.join('.'));
+            this.variables = [];
+            html = this.getHtml('<p>Could not build tree, see logs for details</p>');
+        }
+
+        if (generation === this.generation) {
+            this.panel.webview.html = html;
+        }
+    }
+
+    private async onMessage(message: unknown) {
+        if (!(   typeof message === 'object' && message
+              && 'id' in message && typeof message.id === 'number')) {
+            return;
+        }
+
+        const variable = this.variables[message.id];
+        if (!variable) {
+            return;
+        }
+
+        try {
+            await this.pgvars.reveal(variable);
+        } catch (err) {
+            /* Tree could be refreshed while we were revealing */
+            logger.error(err, 'could not reveal variable', variable.name);
+        }
+    }
+
+    private getHtml(body: string) {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    ul { list-style: none; margin: 0; padding-left: 24px; }
+    ul.tree { padding-left: 0; }
+    li { position: relative; margin: 6px 0; }
+    ul ul > li::before {
+        content: ''; position: absolute; left: -16px; top: 0; bottom: 0;
+        border-left: 1px solid var(--vscode-tree-indentGuidesStroke);
+    }
+    ul ul > li:last-child::before { bottom: auto; height: 18px; }
+    ul ul > li::after {
+        content: ''; position: absolute; left: -16px; top: 18px; width: 12px;
+        border-top: 1px solid var(--vscode-tree-indentGuidesStroke);
+    }
+    summary { cursor: pointer; }
+    .box {
+        display: inline-block; vertical-align: top; padding: 4px 8px; cursor: pointer;
+        border: 1px solid var(--vscode-panel-border);
+        background: var(--vscode-editorWidget-background);
+    }
+    .box:hover { border-color: var(--vscode-focusBorder); }
+    .box.shared { border-style: dashed; opacity: 0.7; }
+    .member { font-size: 0.85em; color: var(--vscode-descriptionForeground); }
+    .tag { font-weight: bold; }
+</style>
+</head>
+<body>
+${body}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.addEventListener('click', e => {
+        const box = e.target.closest('.box');
+        if (!box) {
+            return;
+        }
+
+        /* Do not collapse node, it is done using marker */
+        e.preventDefault();
+        vscode.postMessage({id: Number(box.dataset.id)});
+    });
+</script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+/* Single panel is used for all variables */
+let visualizer: PlanVisualizerPanel | undefined;
+
+export async function openVisualizerCommand(pgvars: vars.PgVariablesViewProvider,
+                                            ...args: unknown[]) {
+    if (!pgvars.context?.debug) {
+        return;
+    }
+
+    if (!args.length) {
+        return;
+    }
+
+    let variable = args[0];
+    if (!(variable instanceof vars.NodeVariable)) {
+        vscode.window.showWarningMessage('Selected variable is not a Node');
+        return;
+    }
+
+    /* Also allow to pass PlannedStmt itself */
+    if (variable.realNodeTag === 'PlannedStmt') {
+        variable = await variable.getMember('planTree');
+    }
+
+    if (!(variable instanceof vars.NodeVariable && isVisualizableNode(variable))) {
+        vscode.window.showWarningMessage('Selected variable is not a Plan, Path or RelOptInfo');
+        return;
+    }
+
+    visualizer ??= new PlanVisualizerPanel(pgvars, () => visualizer = undefined);
+    await visualizer.show(variable);
+}